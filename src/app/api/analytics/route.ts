@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { applyPricingOverride, findPricingOverride, getModelPrice, getPriceByVersion, PricingOverride } from '@/lib/pricing'
 
 export async function GET(request: NextRequest) {
   try {
@@ -54,10 +55,18 @@ export async function GET(request: NextRequest) {
       // Continue with empty prev data
     }
 
+    // Negotiated prices, used to show effective rates next to the catalog ones
+    const { data: pricingOverrides } = await supabase
+      .from('pricing_overrides')
+      .select('*')
+      .eq('user_id', user.id)
+
     // Calculate metrics
     const totalCost = requests?.reduce((sum, req) => sum + parseFloat(req.cost || 0), 0) || 0
     const totalRequests = requests?.length || 0
     const avgCostPerRequest = totalRequests > 0 ? totalCost / totalRequests : 0
+    // Requests logged before list_cost existed were billed at catalog prices
+    const listCost = requests?.reduce((sum, req) => sum + parseFloat(req.list_cost ?? req.cost ?? 0), 0) || 0
     const totalTokens = requests?.reduce((sum, req) => sum + (req.tokens_used || 0), 0) || 0
     const cachedRequests = requests?.filter(req => req.status === 'cached').length || 0
     const cacheHitRate = totalRequests > 0 ? (cachedRequests / totalRequests) * 100 : 0
@@ -110,6 +119,10 @@ export async function GET(request: NextRequest) {
     // Token usage (total and by model)
     const tokenUsage = {
       total: totalTokens,
+      input: requests?.reduce((sum, req) => sum + (req.input_tokens || 0), 0) || 0,
+      output: requests?.reduce((sum, req) => sum + (req.output_tokens || 0), 0) || 0,
+      cachedInput: requests?.reduce((sum, req) => sum + (req.cached_input_tokens || 0), 0) || 0,
+      reasoning: requests?.reduce((sum, req) => sum + (req.reasoning_tokens || 0), 0) || 0,
       byModel: requests?.reduce((acc, req) => {
         const model = req.model
         if (!acc[model]) acc[model] = 0
@@ -118,6 +131,38 @@ export async function GET(request: NextRequest) {
       }, {} as Record<string, number>) || {}
     }
 
+    // Input/output token split, by model and by day. Requests logged before the split
+    // columns existed only have tokens_used and are left out of these breakdowns.
+    type TokenBreakdown = { inputTokens: number, outputTokens: number, cachedInputTokens: number, reasoningTokens: number }
+    const addTokens = (target: TokenBreakdown, req: Record<string, number | null>) => {
+      target.inputTokens += req.input_tokens || 0
+      target.outputTokens += req.output_tokens || 0
+      target.cachedInputTokens += req.cached_input_tokens || 0
+      target.reasoningTokens += req.reasoning_tokens || 0
+    }
+    const emptyBreakdown = (): TokenBreakdown => ({ inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, reasoningTokens: 0 })
+
+    const tokensByModel = requests?.reduce((acc, req) => {
+      if (!acc[req.model]) acc[req.model] = { model: req.model, ...emptyBreakdown(), cost: 0 }
+      addTokens(acc[req.model], req)
+      acc[req.model].cost += parseFloat(req.cost || 0)
+      return acc
+    }, {} as Record<string, TokenBreakdown & { model: string, cost: number }>) || {}
+
+    const tokensByModelData = (Object.values(tokensByModel) as Array<TokenBreakdown & { model: string, cost: number }>)
+      .sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens))
+
+    const tokensOverTime = requests?.reduce((acc, req) => {
+      const date = new Date(req.created_at).toISOString().split('T')[0]
+      if (!acc[date]) acc[date] = emptyBreakdown()
+      addTokens(acc[date], req)
+      return acc
+    }, {} as Record<string, TokenBreakdown>) || {}
+
+    const tokensOverTimeData = Object.entries(tokensOverTime)
+      .map(([date, data]) => ({ name: date, ...(data as TokenBreakdown) }))
+      .sort((a, b) => a.name.localeCompare(b.name))
+
     // Function to calculate change
     function calcChange(current: number, previous: number): { change: string, changeType: 'positive' | 'negative' } {
       if (previous === 0) {
@@ -177,20 +222,59 @@ export async function GET(request: NextRequest) {
     }, {} as Record<string, { model: string, provider: string, requests: number, cost: number }>) || {}
 
     const topRequestsData = Object.values(topRequests)
-      .map(item => ({
-        ...(item as { model: string, provider: string, requests: number, cost: number }),
-        avgCost: (item as { requests: number, cost: number }).requests > 0 ? (item as { cost: number }).cost / (item as { requests: number }).requests : 0
-      }))
+      .map(item => {
+        // Current prices (USD per 1M tokens) for comparison with what was billed: the
+        // catalog price and the rate after the user's account-wide overrides
+        const { model, provider } = item as { model: string, provider: string }
+        const listPrice = getModelPrice(model)
+        const override = findPricingOverride((pricingOverrides || []) as PricingOverride[], { model, provider })
+        const price = override ? applyPricingOverride(listPrice, model, override) : listPrice
+        return {
+          ...(item as { model: string, provider: string, requests: number, cost: number }),
+          avgCost: (item as { requests: number, cost: number }).requests > 0 ? (item as { cost: number }).cost / (item as { requests: number }).requests : 0,
+          inputPrice: price?.input ?? null,
+          outputPrice: price?.output ?? null,
+          listInputPrice: listPrice?.input ?? null,
+          listOutputPrice: listPrice?.output ?? null
+        }
+      })
       .sort((a, b) => b.cost - a.cost)
       .slice(0, 10)
 
+    // Cost by pricing catalog version, so historic costs can be traced to the prices that produced them
+    type PriceVersionCost = { version: string, effectiveFrom: string | null, inputPrice: number | null, outputPrice: number | null, requests: number, cost: number }
+    const costByPriceVersion = requests?.reduce((acc, req) => {
+      const version = req.price_version || 'unpriced'
+      if (!acc[version]) {
+        const price = req.price_version ? getPriceByVersion(req.price_version) : undefined
+        acc[version] = {
+          version,
+          effectiveFrom: price?.effectiveFrom ?? null,
+          inputPrice: price?.input ?? null,
+          outputPrice: price?.output ?? null,
+          requests: 0,
+          cost: 0
+        }
+      }
+      acc[version].requests += 1
+      acc[version].cost += parseFloat(req.cost || 0)
+      return acc
+    }, {} as Record<string, PriceVersionCost>) || {}
+
+    const costByPriceVersionData = (Object.values(costByPriceVersion) as PriceVersionCost[])
+      .sort((a, b) => b.cost - a.cost)
+
     return NextResponse.json({
       metrics,
       costOverTime: costOverTimeData,
       costByModel: costByModelData,
       requestsByHour: requestsByHourData,
       tokenUsage,
-      topRequests: topRequestsData
+      tokensByModel: tokensByModelData,
+      tokensOverTime: tokensOverTimeData,
+      topRequests: topRequestsData,
+      listCost,
+      costByPriceVersion: costByPriceVersionData
     })
   } catch (error) {
     console.error('Analytics API error:', error)
@@ -0,0 +1,9 @@
+import { NextRequest } from 'next/server'
+import { handleProxyRequest } from '@/lib/proxy-pipeline'
+import { ANTHROPIC_MESSAGES_URL } from '@/lib/anthropic'
+
+export async function POST(request: NextRequest) {
+  return handleProxyRequest(request, {
+    resolveEndpoint: provider => provider === 'anthropic' ? ANTHROPIC_MESSAGES_URL : undefined
+  })
+}
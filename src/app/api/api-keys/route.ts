@@ -2,9 +2,16 @@ import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
 import AES from 'crypto-js/aes'
 import CryptoJS from 'crypto-js'
+import { getProviderAdapter } from '@/lib/providers'
+import { keyPool } from '@/lib/key-pool'
 
 const secretKey = process.env.ENCRYPTION_SECRET!
 
+// Pool weights are positive integers; undefined leaves the weight unchanged
+function isValidWeight(weight: unknown): boolean {
+  return weight === undefined || (typeof weight === 'number' && Number.isInteger(weight) && weight > 0)
+}
+
 export async function GET() {
   try {
     const supabase = await createServerSupabaseClient()
@@ -46,10 +53,22 @@ export async function GET() {
       })
     )
 
+    // Keys of the same provider share its traffic as a load-balanced pool
+    const providerTotals = new Map<string, { requests: number; errors: number }>()
+    for (const key of keysWithStats) {
+      const totals = providerTotals.get(key.provider) || { requests: 0, errors: 0 }
+      totals.requests += key.total_requests
+      totals.errors += key.error_count || 0
+      providerTotals.set(key.provider, totals)
+    }
+
     const masked = keysWithStats.map(key => {
       const decryptedKey = AES.decrypt(key.api_key, secretKey).toString(CryptoJS.enc.Utf8)
+      const totals = providerTotals.get(key.provider)!
       return {
         ...key,
+        traffic_share: totals.requests > 0 ? key.total_requests / totals.requests : 0,
+        error_share: totals.errors > 0 ? (key.error_count || 0) / totals.errors : 0,
         api_key: decryptedKey.length > 8 ? decryptedKey.substring(0, 4) + '****' + decryptedKey.substring(decryptedKey.length - 4) : '****'
       }
     })
@@ -69,21 +88,31 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { provider, api_key, nickname } = await request.json()
+    const { provider, api_key, nickname, weight } = await request.json()
 
     if (!provider || !api_key) {
       return NextResponse.json({ error: 'Missing provider or api_key' }, { status: 400 })
     }
 
+    if (!isValidWeight(weight)) {
+      return NextResponse.json({ error: 'weight must be a positive integer' }, { status: 400 })
+    }
+
+    const adapter = getProviderAdapter(provider)
+    if (!adapter) {
+      return NextResponse.json({ error: 'Unsupported provider' }, { status: 400 })
+    }
+
     const encrypted = AES.encrypt(api_key, secretKey).toString()
 
     const { data, error } = await supabase
       .from('api_keys')
       .insert({
         user_id: user.id,
-        provider,
+        provider: adapter.id,
         api_key: encrypted,
-        nickname: nickname || null
+        nickname: nickname || null,
+        weight: weight ?? 1
       })
       .select()
 
@@ -106,15 +135,25 @@ export async function PATCH(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
     }
 
-    const { id, nickname, status } = await request.json()
+    const { id, nickname, status, weight } = await request.json()
 
     if (!id) {
       return NextResponse.json({ error: 'Missing id' }, { status: 400 })
     }
 
-    const updateData: Record<string, string | null> = {}
+    if (!isValidWeight(weight)) {
+      return NextResponse.json({ error: 'weight must be a positive integer' }, { status: 400 })
+    }
+
+    const updateData: Record<string, string | number | null> = {}
     if (nickname !== undefined) updateData.nickname = nickname
     if (status !== undefined) updateData.status = status
+    if (weight !== undefined) updateData.weight = weight
+    // Re-activating a key (e.g. an invalid one that was fixed) puts it back in rotation
+    if (status === 'active') {
+      updateData.rate_limited_until = null
+      keyPool.reset(id)
+    }
 
     const { data, error } = await supabase
       .from('api_keys')
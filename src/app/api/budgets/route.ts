@@ -1,22 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
 import { z } from 'zod'
+import { budgetBreachActions } from '@/lib/budget-enforcement'
 
-const createBudgetSchema = z.object({
+const budgetSchema = z.object({
   type: z.string().min(1, 'Budget type is required'),
   limit: z.number().min(0, 'Limit must be positive'),
   alertThreshold: z.number().min(0).max(100, 'Threshold must be between 0 and 100'),
-  notificationChannels: z.array(z.string()).min(1, 'At least one notification channel is required')
+  notificationChannels: z.array(z.string()).min(1, 'At least one notification channel is required'),
+  breachAction: z.enum(budgetBreachActions).optional(),
+  throttleRpm: z.number().int().positive('Throttle must be a positive number of requests per minute').nullable().optional(),
+  proxyKeyId: z.string().uuid('Invalid proxy key ID').nullable().optional()
 })
 
-const updateBudgetSchema = createBudgetSchema.extend({
+// Throttling needs a rate to throttle to
+const hasThrottleRate = (data: z.infer<typeof budgetSchema>) => data.breachAction !== 'throttle' || !!data.throttleRpm
+const missingThrottleRate = { message: 'Throttled budgets need throttleRpm', path: ['throttleRpm'] }
+
+const createBudgetSchema = budgetSchema.refine(hasThrottleRate, missingThrottleRate)
+
+const updateBudgetSchema = budgetSchema.extend({
   id: z.string().uuid('Invalid budget ID')
-})
+}).refine(hasThrottleRate, missingThrottleRate)
 
 const deleteBudgetSchema = z.object({
   id: z.string().uuid('Invalid budget ID')
 })
 
+// Budgets may only be scoped to the user's own CostLLM keys
+async function ownsProxyKey(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  userId: string,
+  proxyKeyId: string
+): Promise<boolean> {
+  const { data } = await supabase
+    .from('proxy_keys')
+    .select('id')
+    .eq('id', proxyKeyId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  return !!data
+}
+
 export async function GET() {
   try {
     const supabase = await createServerSupabaseClient()
@@ -46,6 +71,9 @@ export async function GET() {
       alertThreshold: parseFloat(budget.alert_threshold),
       status: budget.status,
       notificationChannels: budget.notification_channels,
+      breachAction: budget.breach_action || 'alert',
+      throttleRpm: budget.throttle_rpm,
+      proxyKeyId: budget.proxy_key_id,
       createdAt: budget.created_at,
       updatedAt: budget.updated_at
     }))
@@ -76,7 +104,11 @@ export async function POST(request: NextRequest) {
       }, { status: 400 })
     }
 
-    const { type, limit, alertThreshold, notificationChannels } = validationResult.data
+    const { type, limit, alertThreshold, notificationChannels, breachAction, throttleRpm, proxyKeyId } = validationResult.data
+
+    if (proxyKeyId && !await ownsProxyKey(supabase, user.id, proxyKeyId)) {
+      return NextResponse.json({ error: 'Proxy key not found' }, { status: 404 })
+    }
 
     const { data: budget, error } = await supabase
       .from('budgets')
@@ -85,7 +117,10 @@ export async function POST(request: NextRequest) {
         type,
         limit,
         alert_threshold: alertThreshold,
-        notification_channels: notificationChannels
+        notification_channels: notificationChannels,
+        breach_action: breachAction,
+        throttle_rpm: throttleRpm,
+        proxy_key_id: proxyKeyId
       })
       .select()
       .single()
@@ -104,6 +139,9 @@ export async function POST(request: NextRequest) {
       alertThreshold: parseFloat(budget.alert_threshold),
       status: budget.status,
       notificationChannels: budget.notification_channels,
+      breachAction: budget.breach_action || 'alert',
+      throttleRpm: budget.throttle_rpm,
+      proxyKeyId: budget.proxy_key_id,
       createdAt: budget.created_at,
       updatedAt: budget.updated_at
     }
@@ -134,7 +172,11 @@ export async function PUT(request: NextRequest) {
       }, { status: 400 })
     }
 
-    const { id, type, limit, alertThreshold, notificationChannels } = validationResult.data
+    const { id, type, limit, alertThreshold, notificationChannels, breachAction, throttleRpm, proxyKeyId } = validationResult.data
+
+    if (proxyKeyId && !await ownsProxyKey(supabase, user.id, proxyKeyId)) {
+      return NextResponse.json({ error: 'Proxy key not found' }, { status: 404 })
+    }
 
     const { data: budget, error } = await supabase
       .from('budgets')
@@ -143,6 +185,9 @@ export async function PUT(request: NextRequest) {
         limit,
         alert_threshold: alertThreshold,
         notification_channels: notificationChannels,
+        breach_action: breachAction,
+        throttle_rpm: throttleRpm,
+        proxy_key_id: proxyKeyId,
         updated_at: new Date().toISOString()
       })
       .eq('id', id)
@@ -168,6 +213,9 @@ export async function PUT(request: NextRequest) {
       alertThreshold: parseFloat(budget.alert_threshold),
       status: budget.status,
       notificationChannels: budget.notification_channels,
+      breachAction: budget.breach_action || 'alert',
+      throttleRpm: budget.throttle_rpm,
+      proxyKeyId: budget.proxy_key_id,
       createdAt: budget.created_at,
       updatedAt: budget.updated_at
     }
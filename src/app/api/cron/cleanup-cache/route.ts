@@ -28,6 +28,28 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Cache cleanup failed' }, { status: 500 })
     }
 
+    // Clean up captured request bodies past their key's retention window
+    const { error: capturesError } = await supabase
+      .from('request_captures')
+      .delete()
+      .lt('expires_at', new Date().toISOString())
+
+    if (capturesError) {
+      proxyLogger.error('Failed to cleanup request captures', { error: capturesError.message })
+      return NextResponse.json({ error: 'Request captures cleanup failed' }, { status: 500 })
+    }
+
+    // Clean up stored Idempotency-Key responses past their replay window
+    const { error: idempotencyError } = await supabase
+      .from('idempotency_keys')
+      .delete()
+      .lt('expires_at', new Date().toISOString())
+
+    if (idempotencyError) {
+      proxyLogger.error('Failed to cleanup idempotency keys', { error: idempotencyError.message })
+      return NextResponse.json({ error: 'Idempotency keys cleanup failed' }, { status: 500 })
+    }
+
     // Clean up old API request logs (keep last 90 days)
     const ninetyDaysAgo = new Date()
     ninetyDaysAgo.setDate(ninetyDaysAgo.getDate() - 90)
@@ -60,6 +82,8 @@ export async function GET(request: NextRequest) {
       message: 'Cache cleanup completed successfully',
       deleted: {
         cache_entries: 'completed',
+        request_captures: 'completed',
+        idempotency_keys: 'completed',
         api_requests: 'completed',
         audit_logs: 'completed'
       },
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { generateRequestId } from '@/lib/logger'
+import { authenticateApiKey } from '@/lib/proxy-pipeline'
+import { averageOutputTokens, CostEstimate, estimateRequest } from '@/lib/estimate'
+
+// Largest batch estimated in one call
+const maxRequests = 100
+
+// Recent requests whose output sizes inform the expected cost
+const historySize = 500
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const auth = await authenticateApiKey(request, supabase, generateRequestId())
+    if ('response' in auth) {
+      return auth.response
+    }
+    const userId = auth.key.user_id
+
+    let body: unknown
+    try {
+      body = await request.json()
+    } catch {
+      return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    // One proxy request body or an array of them
+    const bodies = Array.isArray(body) ? body : [body]
+    if (bodies.length === 0 || bodies.length > maxRequests) {
+      return NextResponse.json({ error: `Provide between 1 and ${maxRequests} requests` }, { status: 400 })
+    }
+
+    const [{ data: rules, error: rulesError }, { data: pricingOverrides }, { data: history }] = await Promise.all([
+      supabase
+        .from('optimization_rules')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('enabled', true),
+      supabase
+        .from('pricing_overrides')
+        .select('*')
+        .eq('user_id', userId),
+      supabase
+        .from('api_requests')
+        .select('model, output_tokens')
+        .eq('user_id', userId)
+        .eq('status', 'success')
+        .order('created_at', { ascending: false })
+        .limit(historySize)
+    ])
+
+    if (rulesError) {
+      console.error('Error fetching optimization rules:', rulesError)
+    }
+
+    const context = {
+      credentials: auth.key.credentials,
+      rules: rules || [],
+      overrides: pricingOverrides || [],
+      proxyKeyId: auth.key.id,
+      averageOutputTokens: averageOutputTokens(history || [])
+    }
+
+    const estimates: Array<CostEstimate | { error: string }> = []
+    for (const item of bodies) {
+      estimates.push(item && typeof item === 'object' && !Array.isArray(item)
+        ? await estimateRequest(item, context)
+        : { error: 'Each request must be a JSON object' })
+    }
+
+    const total = { min: 0, expected: 0, max: 0 }
+    for (const estimate of estimates) {
+      if ('error' in estimate) continue
+      total.min += estimate.cost.min
+      total.expected += estimate.cost.expected
+      total.max += estimate.cost.max
+    }
+
+    return NextResponse.json({ estimates, total })
+  } catch (error) {
+    console.error('Estimate API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import AES from 'crypto-js/aes'
+import CryptoJS from 'crypto-js'
+import { generateRequestId } from '@/lib/logger'
+import { authenticateApiKey, handleProxyRequest } from '@/lib/proxy-pipeline'
+import {
+  geminiEndpoint,
+  geminiMethods,
+  GeminiMethod,
+  parseGeminiModelPath,
+  withGeminiApiKey
+} from '@/lib/gemini'
+
+const secretKey = process.env.ENCRYPTION_SECRET!
+
+// Handles /api/gemini/v1beta/models/{model}:{method}, mirroring Google's REST layout
+export async function POST(request: NextRequest, { params }: { params: Promise<{ model: string }> }) {
+  const { model: modelPath } = await params
+  const parsed = parseGeminiModelPath(decodeURIComponent(modelPath))
+
+  if (!parsed || !geminiMethods.includes(parsed.method as GeminiMethod)) {
+    return NextResponse.json({ error: 'Unsupported Gemini method' }, { status: 404 })
+  }
+
+  const method = parsed.method as GeminiMethod
+  if (method === 'countTokens') {
+    return countTokens(request, parsed.model)
+  }
+
+  return handleProxyRequest(request, {
+    resolveEndpoint: provider => provider === 'google' ? geminiEndpoint(parsed.model, method) : undefined
+  })
+}
+
+// countTokens is free, so it is forwarded without caching or cost logging
+async function countTokens(request: NextRequest, model: string) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const auth = await authenticateApiKey(request, supabase, generateRequestId())
+    if ('response' in auth) {
+      return auth.response
+    }
+
+    const credential = auth.key.credentials.find(c => c.provider === 'google')
+    if (!credential) {
+      return NextResponse.json({ error: 'No provider credential on this key is supported on this endpoint' }, { status: 400 })
+    }
+
+    const apiKey = AES.decrypt(credential.api_key, secretKey).toString(CryptoJS.enc.Utf8)
+    const response = await fetch(withGeminiApiKey(geminiEndpoint(model, 'countTokens'), apiKey), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(await request.json()),
+      signal: AbortSignal.timeout(30000)
+    })
+
+    return NextResponse.json(await response.json(), { status: response.status })
+  } catch (error) {
+    console.error('Gemini countTokens error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
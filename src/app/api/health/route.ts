@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
 import { performanceMonitor } from '@/lib/performance'
+import { circuitBreakers } from '@/lib/circuit-breaker'
 
 export async function GET() {
   try {
@@ -19,6 +20,11 @@ export async function GET() {
     const memUsage = process.memoryUsage()
     const memoryHealthy = memUsage.heapUsed < 500 * 1024 * 1024 // 500MB limit
 
+    // Provider circuits. An open circuit is a provider problem, so it warns
+    // without making CostLLM itself unhealthy.
+    const circuits = circuitBreakers.snapshot()
+    const openCircuits = circuits.filter(circuit => circuit.state !== 'closed')
+
     // Overall health status
     const overallHealthy = databaseHealthy && memoryHealthy
 
@@ -39,8 +45,15 @@ export async function GET() {
         performance: {
           status: performanceMetrics.averageResponseTime < 2000 ? 'healthy' : 'warning',
           details: `Avg response time: ${performanceMetrics.averageResponseTime.toFixed(2)}ms`
+        },
+        providers: {
+          status: openCircuits.length === 0 ? 'healthy' : 'warning',
+          details: openCircuits.length === 0
+            ? 'All circuits closed'
+            : `Circuit ${openCircuits.map(circuit => `${circuit.provider}/${circuit.model} ${circuit.state}`).join(', ')}`
         }
       },
+      circuits,
       metrics: {
         uptime: process.uptime(),
         memory: {
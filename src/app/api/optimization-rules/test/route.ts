@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { calculateCost, getModelPrice } from '@/lib/pricing'
 
 export async function POST(request: NextRequest) {
   try {
@@ -32,6 +33,16 @@ export async function POST(request: NextRequest) {
     const { model, messages, requestType = 'chat' } = testRequest
     const inputText = messages?.map((m: { content: string | unknown }) => typeof m.content === 'string' ? m.content : JSON.stringify(m.content)).join(' ') || ''
     const inputLength = inputText.length
+    // Rough token estimate (~4 characters per token) priced from the catalog and the
+    // user's negotiated prices
+    const estimatedTokens = Math.ceil(inputLength / 4)
+    const expectedOutputTokens = testRequest.max_tokens || estimatedTokens
+    const { data: pricingOverrides } = await supabase
+      .from('pricing_overrides')
+      .select('*')
+      .eq('user_id', user.id)
+    const pricing = { overrides: pricingOverrides || [] }
+    const sourceEstimate = calculateCost(model, { inputTokens: estimatedTokens, outputTokens: expectedOutputTokens }, pricing)
 
     let match = true
     const matchedConditions: string[] = []
@@ -97,13 +108,13 @@ export async function POST(request: NextRequest) {
       }
     }
 
-    // Check cost threshold (simulate cost calculation)
+    // Check cost threshold
     if (conditions.maxCostPerRequest) {
-      // Simple cost estimation
-      const estimatedTokens = Math.ceil(inputLength / 4)
-      const estimatedCost = (estimatedTokens / 1000) * 0.03 // Rough GPT-4 pricing
+      const estimatedCost = sourceEstimate.cost
 
-      if (estimatedCost > conditions.maxCostPerRequest) {
+      if (!sourceEstimate.priceVersion) {
+        failedConditions.push(`No catalog price for ${model}, cost threshold not evaluated`)
+      } else if (estimatedCost > conditions.maxCostPerRequest) {
         match = false
         failedConditions.push(`Estimated cost too high: $${estimatedCost.toFixed(4)} > $${conditions.maxCostPerRequest}`)
       } else {
@@ -111,16 +122,32 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // The proxy skips rules whose target cannot fit the prompt
+    const targetPrice = getModelPrice(rule.target_model)
+    if (match && targetPrice && estimatedTokens > targetPrice.contextWindow) {
+      match = false
+      failedConditions.push(`Prompt exceeds ${rule.target_model} context window of ${targetPrice.contextWindow} tokens`)
+    }
+
+    const targetEstimate = calculateCost(rule.target_model, { inputTokens: estimatedTokens, outputTokens: expectedOutputTokens }, pricing)
+
     const result = {
       ruleMatched: match,
       originalModel: model,
       targetModel: match ? rule.target_model : model,
       matchedConditions,
       failedConditions,
-      estimatedSavings: match ? 0.01 : 0, // Placeholder
+      estimatedSavings: match && sourceEstimate.priceVersion && targetEstimate.priceVersion
+        ? sourceEstimate.cost - targetEstimate.cost
+        : 0,
       evaluation: {
         inputLength,
         requestType,
+        estimatedTokens,
+        sourceCost: sourceEstimate.cost,
+        targetCost: targetEstimate.cost,
+        sourcePriceVersion: sourceEstimate.priceVersion,
+        targetPriceVersion: targetEstimate.priceVersion,
         currentHour: new Date().getUTCHours()
       }
     }
@@ -0,0 +1,225 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { getProviderAdapter } from '@/lib/providers'
+
+type OverrideFields = {
+  proxy_key_id?: string | null
+  provider?: string | null
+  model?: string | null
+  discount_percent?: number | null
+  input_price?: number | null
+  output_price?: number | null
+}
+
+const overrideColumns = ['proxy_key_id', 'provider', 'model', 'discount_percent', 'input_price', 'output_price'] as const
+const numericColumns: readonly string[] = ['discount_percent', 'input_price', 'output_price']
+
+// Picks the override columns out of a request body, normalising blanks to null
+function overrideFields(body: Record<string, unknown>): OverrideFields {
+  const fields: Record<string, unknown> = {}
+  for (const column of overrideColumns) {
+    if (body[column] === undefined) continue
+    fields[column] = body[column] === '' ? null : body[column]
+  }
+  return fields as OverrideFields
+}
+
+function validateOverride(override: OverrideFields): string | null {
+  const hasDiscount = override.discount_percent !== null && override.discount_percent !== undefined
+  const hasInputPrice = override.input_price !== null && override.input_price !== undefined
+  const hasOutputPrice = override.output_price !== null && override.output_price !== undefined
+
+  if (!hasDiscount && !hasInputPrice && !hasOutputPrice) {
+    return 'Provide discount_percent or input_price/output_price'
+  }
+  if (hasDiscount && (typeof override.discount_percent !== 'number' || override.discount_percent < 0 || override.discount_percent > 100)) {
+    return 'discount_percent must be between 0 and 100'
+  }
+  for (const price of [override.input_price, override.output_price]) {
+    if (price !== null && price !== undefined && (typeof price !== 'number' || price < 0)) {
+      return 'input_price and output_price must be non-negative numbers'
+    }
+  }
+  // Absolute prices are per model
+  if ((hasInputPrice || hasOutputPrice) && !override.model) {
+    return 'input_price and output_price require a model'
+  }
+  if (override.provider && !getProviderAdapter(override.provider)) {
+    return `Unsupported provider: ${override.provider}`
+  }
+  return null
+}
+
+async function ownsProxyKey(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  userId: string,
+  proxyKeyId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('proxy_keys')
+    .select('id')
+    .eq('id', proxyKeyId)
+    .eq('user_id', userId)
+
+  return !error && (data || []).length === 1
+}
+
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data, error } = await supabase
+      .from('pricing_overrides')
+      .select('*')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(data || [])
+  } catch (error) {
+    console.error('Pricing overrides API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const override = overrideFields(await request.json())
+
+    const validationError = validateOverride(override)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (override.proxy_key_id && !await ownsProxyKey(supabase, user.id, override.proxy_key_id)) {
+      return NextResponse.json({ error: 'Unknown proxy_key_id' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('pricing_overrides')
+      .insert({ ...override, provider: override.provider?.toLowerCase() || null, user_id: user.id })
+      .select()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(data[0])
+  } catch (error) {
+    console.error('Pricing overrides API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+
+    if (!body.id) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 })
+    }
+
+    const { data: existing, error: existingError } = await supabase
+      .from('pricing_overrides')
+      .select('*')
+      .eq('id', body.id)
+      .eq('user_id', user.id)
+      .single()
+
+    if (existingError || !existing) {
+      return NextResponse.json({ error: 'Pricing override not found' }, { status: 404 })
+    }
+
+    // Validate the override as it will be stored, not just the changed fields
+    const updates = overrideFields(body)
+    const merged: Record<string, unknown> = {}
+    for (const column of overrideColumns) {
+      const value = column in updates ? updates[column] : existing[column]
+      // Stored DECIMAL columns come back as strings
+      merged[column] = numericColumns.includes(column) && typeof value === 'string' ? parseFloat(value) : value
+    }
+
+    const validationError = validateOverride(merged as OverrideFields)
+    if (validationError) {
+      return NextResponse.json({ error: validationError }, { status: 400 })
+    }
+
+    if (updates.proxy_key_id && !await ownsProxyKey(supabase, user.id, updates.proxy_key_id)) {
+      return NextResponse.json({ error: 'Unknown proxy_key_id' }, { status: 400 })
+    }
+
+    const { data, error } = await supabase
+      .from('pricing_overrides')
+      .update({
+        ...updates,
+        ...(updates.provider !== undefined && { provider: updates.provider?.toLowerCase() || null }),
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', body.id)
+      .eq('user_id', user.id)
+      .select()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json(data[0])
+  } catch (error) {
+    console.error('Pricing overrides API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await request.json()
+
+    if (!id) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 })
+    }
+
+    const { error } = await supabase
+      .from('pricing_overrides')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Pricing overrides API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,313 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { generateProxyKey, maskProxyKey } from '@/lib/proxy-keys'
+import { captureFields } from '@/lib/request-capture'
+import { piiFields } from '@/lib/pii'
+import { guardrailFields } from '@/lib/guardrails'
+
+type ProxyKeyRow = {
+  id: string
+  key_prefix: string
+  key_salt?: string
+  key_hash?: string
+  proxy_key_credentials?: Array<{ api_key_id: string }>
+  [column: string]: unknown
+}
+
+// Never send the salt or hash back to the browser
+function toPublicKey(row: ProxyKeyRow) {
+  const rest: Record<string, unknown> = { ...row }
+  delete rest.key_salt
+  delete rest.key_hash
+  delete rest.proxy_key_credentials
+  return {
+    ...rest,
+    masked_key: maskProxyKey(row.key_prefix),
+    api_key_ids: (row.proxy_key_credentials || []).map(link => link.api_key_id)
+  }
+}
+
+// Only credentials owned by the caller may be attached to a proxy key
+async function ownsCredentials(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  userId: string,
+  apiKeyIds: string[]
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('id')
+    .eq('user_id', userId)
+    .in('id', apiKeyIds)
+
+  return !error && (data || []).length === new Set(apiKeyIds).size
+}
+
+const proxyKeyStatuses = ['active', 'inactive']
+
+const limitColumns = ['rpm_limit', 'tpm_limit', 'daily_request_limit'] as const
+
+// Per-key rate limits from a request body: positive integers, or null to only
+// apply the subscription tier's limits
+function limitFields(body: Record<string, unknown>): { fields: Record<string, number | null> } | { error: string } {
+  const fields: Record<string, number | null> = {}
+  for (const column of limitColumns) {
+    const value = body[column]
+    if (value === undefined) continue
+    if (value === null || value === '') {
+      fields[column] = null
+    } else if (typeof value === 'number' && Number.isInteger(value) && value > 0) {
+      fields[column] = value
+    } else {
+      return { error: `${column} must be a positive integer or null` }
+    }
+  }
+  return { fields }
+}
+
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: keys, error: keysError } = await supabase
+      .from('proxy_keys')
+      .select('*, proxy_key_credentials(api_key_id)')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (keysError) {
+      return NextResponse.json({ error: keysError.message }, { status: 500 })
+    }
+
+    const keysWithStats = await Promise.all(
+      (keys || []).map(async (key: ProxyKeyRow) => {
+        const { count: total_requests } = await supabase
+          .from('api_requests')
+          .select('*', { count: 'exact', head: true })
+          .eq('proxy_key_id', key.id)
+
+        return {
+          ...toPublicKey(key),
+          total_requests: total_requests || 0
+        }
+      })
+    )
+
+    return NextResponse.json(keysWithStats)
+  } catch (error) {
+    console.error('Proxy keys API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { name, api_key_ids } = body
+
+    if (!name || !Array.isArray(api_key_ids) || api_key_ids.length === 0) {
+      return NextResponse.json({ error: 'Missing name or api_key_ids' }, { status: 400 })
+    }
+
+    const limits = limitFields(body)
+    if ('error' in limits) {
+      return NextResponse.json({ error: limits.error }, { status: 400 })
+    }
+
+    const capture = captureFields(body)
+    if ('error' in capture) {
+      return NextResponse.json({ error: capture.error }, { status: 400 })
+    }
+
+    const pii = piiFields(body)
+    if ('error' in pii) {
+      return NextResponse.json({ error: pii.error }, { status: 400 })
+    }
+
+    const guardrails = guardrailFields(body)
+    if ('error' in guardrails) {
+      return NextResponse.json({ error: guardrails.error }, { status: 400 })
+    }
+
+    if (!await ownsCredentials(supabase, user.id, api_key_ids)) {
+      return NextResponse.json({ error: 'Unknown api_key_ids' }, { status: 400 })
+    }
+
+    const generated = generateProxyKey()
+
+    const { data, error } = await supabase
+      .from('proxy_keys')
+      .insert({
+        user_id: user.id,
+        name,
+        key_prefix: generated.prefix,
+        key_salt: generated.salt,
+        key_hash: generated.hash,
+        ...limits.fields,
+        ...capture.fields,
+        ...pii.fields,
+        ...guardrails.fields
+      })
+      .select()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    const { error: linkError } = await supabase
+      .from('proxy_key_credentials')
+      .insert(api_key_ids.map((apiKeyId: string) => ({ proxy_key_id: data[0].id, api_key_id: apiKeyId })))
+
+    if (linkError) {
+      await supabase.from('proxy_keys').delete().eq('id', data[0].id)
+      return NextResponse.json({ error: linkError.message }, { status: 500 })
+    }
+
+    // The plaintext key is only ever returned here
+    return NextResponse.json({
+      ...toPublicKey({ ...data[0], proxy_key_credentials: api_key_ids.map((id: string) => ({ api_key_id: id })) }),
+      key: generated.key
+    })
+  } catch (error) {
+    console.error('Proxy keys API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function PATCH(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const body = await request.json()
+    const { id, name, status, api_key_ids } = body
+
+    if (!id) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 })
+    }
+
+    const limits = limitFields(body)
+    if ('error' in limits) {
+      return NextResponse.json({ error: limits.error }, { status: 400 })
+    }
+
+    const capture = captureFields(body)
+    if ('error' in capture) {
+      return NextResponse.json({ error: capture.error }, { status: 400 })
+    }
+
+    const pii = piiFields(body)
+    if ('error' in pii) {
+      return NextResponse.json({ error: pii.error }, { status: 400 })
+    }
+
+    const guardrails = guardrailFields(body)
+    if ('error' in guardrails) {
+      return NextResponse.json({ error: guardrails.error }, { status: 400 })
+    }
+
+    if (status !== undefined && !proxyKeyStatuses.includes(status)) {
+      return NextResponse.json({ error: `status must be one of ${proxyKeyStatuses.join(', ')}` }, { status: 400 })
+    }
+
+    // Validated up front so a bad list leaves the key untouched
+    if (api_key_ids !== undefined) {
+      if (!Array.isArray(api_key_ids) || api_key_ids.length === 0) {
+        return NextResponse.json({ error: 'api_key_ids must be a non-empty array' }, { status: 400 })
+      }
+      if (!await ownsCredentials(supabase, user.id, api_key_ids)) {
+        return NextResponse.json({ error: 'Unknown api_key_ids' }, { status: 400 })
+      }
+    }
+
+    const updateData: Record<string, unknown> = { ...limits.fields, ...capture.fields, ...pii.fields, ...guardrails.fields }
+    if (name !== undefined) updateData.name = name
+    if (status !== undefined) updateData.status = status
+
+    const { data, error } = await supabase
+      .from('proxy_keys')
+      .update(updateData)
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .select()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    if (!data || data.length === 0) {
+      return NextResponse.json({ error: 'Proxy key not found' }, { status: 404 })
+    }
+
+    // Replace the credential mapping when a new set is supplied. The swap runs in one
+    // transaction, so a failure keeps the old credentials attached.
+    if (api_key_ids !== undefined) {
+      const { error: linkError } = await supabase.rpc('replace_proxy_key_credentials', {
+        p_proxy_key_id: id,
+        p_api_key_ids: api_key_ids
+      })
+
+      if (linkError) {
+        return NextResponse.json({ error: linkError.message }, { status: 500 })
+      }
+    }
+
+    const { data: updated } = await supabase
+      .from('proxy_keys')
+      .select('*, proxy_key_credentials(api_key_id)')
+      .eq('id', id)
+      .single()
+
+    return NextResponse.json(toPublicKey(updated || data[0]))
+  } catch (error) {
+    console.error('Proxy keys API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { id } = await request.json()
+
+    if (!id) {
+      return NextResponse.json({ error: 'Missing id' }, { status: 400 })
+    }
+
+    const { error } = await supabase
+      .from('proxy_keys')
+      .delete()
+      .eq('id', id)
+      .eq('user_id', user.id)
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Proxy keys API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
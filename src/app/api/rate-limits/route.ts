@@ -0,0 +1,60 @@
+import { NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { maskProxyKey } from '@/lib/proxy-keys'
+import { peekQuotas, proxyKeyQuotaLimits, tierQuotaLimits } from '@/lib/quotas'
+import { getRateLimiter } from '@/lib/rate-limit'
+
+// Limits and current usage for the account and each CostLLM key, so the
+// dashboard can show how much headroom is left
+export async function GET() {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: profile } = await supabase
+      .from('users')
+      .select('subscription_tier')
+      .eq('id', user.id)
+      .single()
+
+    const { data: keys, error: keysError } = await supabase
+      .from('proxy_keys')
+      .select('id, name, key_prefix, status, rpm_limit, tpm_limit, daily_request_limit')
+      .eq('user_id', user.id)
+      .order('created_at', { ascending: false })
+
+    if (keysError) {
+      return NextResponse.json({ error: keysError.message }, { status: 500 })
+    }
+
+    const limiter = getRateLimiter()
+    const tier = profile?.subscription_tier || 'free'
+    const limits = tierQuotaLimits(tier)
+
+    const keyUsage = await Promise.all((keys || []).map(async key => {
+      const keyLimits = proxyKeyQuotaLimits(key)
+      return {
+        id: key.id,
+        name: key.name,
+        status: key.status,
+        masked_key: maskProxyKey(key.key_prefix),
+        limits: keyLimits,
+        usage: await peekQuotas(limiter, { id: `key:${key.id}`, limits: keyLimits })
+      }
+    }))
+
+    return NextResponse.json({
+      tier,
+      limits,
+      usage: await peekQuotas(limiter, { id: `user:${user.id}`, limits }),
+      keys: keyUsage
+    })
+  } catch (error) {
+    console.error('Rate limits API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import AES from 'crypto-js/aes'
+import CryptoJS from 'crypto-js'
+
+const secretKey = process.env.ENCRYPTION_SECRET!
+
+// One logged request with its captured bodies, for the request detail drawer.
+// capture is null when the key does not capture or the request was not sampled.
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id } = await params
+    const supabase = await createServerSupabaseClient()
+    const { data: { user } } = await supabase.auth.getUser()
+
+    if (!user) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    const { data: apiRequest, error } = await supabase
+      .from('api_requests')
+      .select('*, proxy_keys(name)')
+      .eq('id', id)
+      .eq('user_id', user.id)
+      .maybeSingle()
+
+    if (error) {
+      return NextResponse.json({ error: error.message }, { status: 500 })
+    }
+
+    if (!apiRequest) {
+      return NextResponse.json({ error: 'Request not found' }, { status: 404 })
+    }
+
+    const { data: capture } = await supabase
+      .from('request_captures')
+      .select('request_body, response_body, redactions, created_at, expires_at')
+      .eq('api_request_id', id)
+      .eq('user_id', user.id)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle()
+
+    const decrypt = (body: string | null) => body === null ? null : AES.decrypt(body, secretKey).toString(CryptoJS.enc.Utf8)
+
+    return NextResponse.json({
+      ...apiRequest,
+      capture: capture
+        ? {
+          ...capture,
+          request_body: decrypt(capture.request_body),
+          response_body: decrypt(capture.response_body)
+        }
+        : null
+    })
+  } catch (error) {
+    console.error('Request detail API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import stripe from '@/lib/stripe'
 import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { QuotaLimits, tierQuotas } from '@/lib/quotas'
 
 export async function GET(request: NextRequest) {
   if (!stripe) {
@@ -41,29 +42,30 @@ export async function GET(request: NextRequest) {
     const subscription = subscriptions.data[0]
     const price = subscription.items.data[0].price
 
-    // Map price_id to tier
-    const priceIdToTier: { [key: string]: { name: string; features: string[]; limits: { requests: number } } } = {
+    // Map price_id to tier. limits.requests is the tier's daily request quota,
+    // enforced by the proxy along with its per-minute limits.
+    const priceIdToTier: { [key: string]: { name: string; features: string[]; limits: QuotaLimits & { requests: number | null } } } = {
       'price_starter': {
         name: 'Starter',
         features: ['Basic API calls', 'Standard analytics'],
-        limits: { requests: 1000 }
+        limits: { ...tierQuotas.starter, requests: tierQuotas.starter.requestsPerDay }
       },
       'price_pro': {
         name: 'Pro',
         features: ['Unlimited API calls', 'Advanced analytics', 'Priority support'],
-        limits: { requests: 10000 }
+        limits: { ...tierQuotas.pro, requests: tierQuotas.pro.requestsPerDay }
       },
       'price_enterprise': {
         name: 'Enterprise',
         features: ['Unlimited API calls', 'Advanced analytics', 'Priority support', 'Custom integrations'],
-        limits: { requests: 100000 }
+        limits: { ...tierQuotas.enterprise, requests: tierQuotas.enterprise.requestsPerDay }
       },
     }
 
     const tier = priceIdToTier[price.id] || {
       name: 'Free',
       features: ['Limited API calls'],
-      limits: { requests: 100 }
+      limits: { ...tierQuotas.free, requests: tierQuotas.free.requestsPerDay }
     }
 
     return NextResponse.json({
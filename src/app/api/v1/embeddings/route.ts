@@ -0,0 +1,10 @@
+import { NextRequest } from 'next/server'
+import { handleProxyRequest } from '@/lib/proxy-pipeline'
+import { getProviderAdapter } from '@/lib/providers'
+
+export async function POST(request: NextRequest) {
+  return handleProxyRequest(request, {
+    resolveEndpoint: provider => getProviderAdapter(provider)?.openAICompatible.embeddings,
+    requestType: 'embedding'
+  })
+}
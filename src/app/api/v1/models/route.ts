@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import { generateRequestId } from '@/lib/logger'
+import { authenticateApiKey } from '@/lib/proxy-pipeline'
+import { getProviderAdapter } from '@/lib/providers'
+
+export async function GET(request: NextRequest) {
+  try {
+    const supabase = await createServerSupabaseClient()
+    const auth = await authenticateApiKey(request, supabase, generateRequestId())
+    if ('response' in auth) {
+      return auth.response
+    }
+
+    // List every model reachable through the key's provider credentials
+    const providers = Array.from(new Set(auth.key.credentials.map(credential => credential.provider)))
+    const models = providers.flatMap(provider => (getProviderAdapter(provider)?.models || []).map(id => ({
+      id,
+      object: 'model',
+      created: 0,
+      owned_by: provider
+    })))
+
+    return NextResponse.json({ object: 'list', data: models })
+  } catch (error) {
+    console.error('Models API error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
@@ -30,6 +30,14 @@ interface ChartData {
   [key: string]: string | number | undefined
 }
 
+interface TokenBreakdownRow {
+  model: string
+  inputTokens: number
+  outputTokens: number
+  cachedInputTokens: number
+  reasoningTokens: number
+}
+
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8']
 
 const iconMap = {
@@ -81,7 +89,7 @@ export default function AnalyticsPage() {
     }
   }, [dateRange, queryClient])
 
-  const { metrics = [], costOverTime: costOverTimeData = [], costByModel: providerCostData = [], requestsByHour: requestsByHourData = [], topRequests: topRequestsData = [] } = data || {}
+  const { metrics = [], costOverTime: costOverTimeData = [], costByModel: providerCostData = [], requestsByHour: requestsByHourData = [], topRequests: topRequestsData = [], tokensOverTime: tokensOverTimeData = [], tokensByModel: tokensByModelData = [] } = data || {}
 
   const arrayToCSV = (data: any[]): string => {
     if (data.length === 0) return ''
@@ -308,8 +316,67 @@ export default function AnalyticsPage() {
             )}
           </CardContent>
         </Card>
+
+        {/* Input vs Output Tokens */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Input vs Output Tokens</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="w-full h-[300px]" />
+            ) : (
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={tokensOverTimeData}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="name" />
+                  <YAxis />
+                  <Tooltip />
+                  <Bar dataKey="inputTokens" name="Input" stackId="tokens" fill="#0088FE" />
+                  <Bar dataKey="outputTokens" name="Output" stackId="tokens" fill="#00C49F" />
+                </BarChart>
+              </ResponsiveContainer>
+            )}
+          </CardContent>
+        </Card>
       </div>
 
+      {/* Token Breakdown by Model */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Token Breakdown by Model</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Model</TableHead>
+                <TableHead className="text-right">Input Tokens</TableHead>
+                <TableHead className="text-right">Cached Input</TableHead>
+                <TableHead className="text-right">Output Tokens</TableHead>
+                <TableHead className="text-right">Reasoning</TableHead>
+                <TableHead className="text-right">Output Share</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {(tokensByModelData as TokenBreakdownRow[]).map(item => {
+                const total = item.inputTokens + item.outputTokens
+                return (
+                  <TableRow key={item.model}>
+                    <TableCell className="font-medium">{item.model}</TableCell>
+                    <TableCell className="text-right">{item.inputTokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{item.cachedInputTokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{item.outputTokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{item.reasoningTokens.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{total > 0 ? ((item.outputTokens / total) * 100).toFixed(1) : '0.0'}%</TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
       {/* Top Requests Table */}
       <Card>
         <CardHeader>
@@ -7,13 +7,15 @@ import { Badge } from "@/components/ui/badge"
 import { Switch } from "@/components/ui/switch"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
+import { Checkbox } from "@/components/ui/checkbox"
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
 import { useForm } from "react-hook-form"
 import { zodResolver } from "@hookform/resolvers/zod"
 import * as z from "zod"
-import { Plus, Trash2, Key, CheckCircle, XCircle, Loader2 } from "lucide-react"
+import { Plus, Trash2, Key, KeyRound, CheckCircle, XCircle, Loader2, Copy } from "lucide-react"
 import { toast } from "sonner"
 import { supabase } from "@/lib/supabase"
+import { providerAdapters, providerIds, providerLabel } from "@/lib/providers"
 
 interface ApiKey {
   id: string
@@ -23,10 +25,27 @@ interface ApiKey {
   status: string
   total_requests: number
   total_cost: number
+  // Load balancing across keys of the same provider
+  weight?: number
+  traffic_share?: number
+  error_share?: number
+  error_count?: number
+  last_error_status?: number | null
+  rate_limited_until?: string | null
+}
+
+interface ProxyKey {
+  id: string
+  name: string
+  masked_key: string
+  status: string
+  api_key_ids: string[]
+  last_used_at: string | null
+  total_requests: number
 }
 
 const addApiKeySchema = z.object({
-  provider: z.enum(['openai', 'anthropic', 'google']),
+  provider: z.string().refine(id => providerIds.includes(id), 'Unsupported provider'),
   api_key: z.string().min(1, 'API key is required'),
   nickname: z.string().optional()
 })
@@ -38,11 +57,16 @@ export default function ApiKeysPage() {
   const [loading, setLoading] = useState(true)
   const [dialogOpen, setDialogOpen] = useState(false)
   const [testingConnection, setTestingConnection] = useState(false)
+  const [proxyKeys, setProxyKeys] = useState<ProxyKey[]>([])
+  const [proxyDialogOpen, setProxyDialogOpen] = useState(false)
+  const [proxyKeyName, setProxyKeyName] = useState('')
+  const [proxyKeyCredentials, setProxyKeyCredentials] = useState<string[]>([])
+  const [createdProxyKey, setCreatedProxyKey] = useState<string | null>(null)
 
   const form = useForm<AddApiKeyForm>({
     resolver: zodResolver(addApiKeySchema),
     defaultValues: {
-      provider: 'openai',
+      provider: providerIds[0],
       api_key: '',
       nickname: ''
     }
@@ -50,6 +74,7 @@ export default function ApiKeysPage() {
 
   useEffect(() => {
     fetchApiKeys()
+    fetchProxyKeys()
 
     // Set up real-time subscriptions
     const channel = supabase
@@ -61,6 +86,13 @@ export default function ApiKeysPage() {
           fetchApiKeys()
         }
       )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'proxy_keys' },
+        () => {
+          fetchProxyKeys()
+        }
+      )
       .subscribe()
 
     return () => {
@@ -84,6 +116,88 @@ export default function ApiKeysPage() {
     }
   }
 
+  const fetchProxyKeys = async () => {
+    try {
+      const response = await fetch('/api/proxy-keys')
+      if (response.ok) {
+        setProxyKeys(await response.json())
+      } else {
+        toast.error('Failed to fetch CostLLM keys')
+      }
+    } catch {
+      toast.error('Error fetching CostLLM keys')
+    }
+  }
+
+  const createProxyKey = async () => {
+    if (!proxyKeyName || proxyKeyCredentials.length === 0) {
+      toast.error('Enter a name and select at least one provider key')
+      return
+    }
+    try {
+      const response = await fetch('/api/proxy-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: proxyKeyName, api_key_ids: proxyKeyCredentials })
+      })
+      if (response.ok) {
+        const created = await response.json()
+        setCreatedProxyKey(created.key)
+        setProxyKeyName('')
+        setProxyKeyCredentials([])
+        fetchProxyKeys()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to create CostLLM key')
+      }
+    } catch {
+      toast.error('Error creating CostLLM key')
+    }
+  }
+
+  const toggleProxyKeyStatus = async (id: string, currentStatus: string) => {
+    const newStatus = currentStatus === 'active' ? 'inactive' : 'active'
+    try {
+      const response = await fetch('/api/proxy-keys', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, status: newStatus })
+      })
+      if (response.ok) {
+        toast.success(`CostLLM key ${newStatus === 'active' ? 'activated' : 'deactivated'}`)
+        fetchProxyKeys()
+      } else {
+        toast.error('Failed to update CostLLM key status')
+      }
+    } catch {
+      toast.error('Error updating CostLLM key status')
+    }
+  }
+
+  const deleteProxyKey = async (id: string) => {
+    if (!confirm('Revoke this CostLLM key? Applications using it will stop working.')) return
+    try {
+      const response = await fetch('/api/proxy-keys', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id })
+      })
+      if (response.ok) {
+        toast.success('CostLLM key revoked')
+        fetchProxyKeys()
+      } else {
+        toast.error('Failed to revoke CostLLM key')
+      }
+    } catch {
+      toast.error('Error revoking CostLLM key')
+    }
+  }
+
+  const providerKeyLabel = (id: string) => {
+    const key = apiKeys.find(k => k.id === id)
+    return key ? key.nickname || key.provider : 'Removed key'
+  }
+
   const testConnection = async (provider: string, apiKey: string) => {
     setTestingConnection(true)
     try {
@@ -152,6 +266,28 @@ export default function ApiKeysPage() {
     }
   }
 
+  const updateWeight = async (id: string, weight: number) => {
+    if (!Number.isInteger(weight) || weight < 1) {
+      toast.error('Weight must be a whole number of at least 1')
+      return
+    }
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id, weight })
+      })
+      if (response.ok) {
+        toast.success('Key weight updated')
+        fetchApiKeys()
+      } else {
+        toast.error('Failed to update key weight')
+      }
+    } catch {
+      toast.error('Error updating key weight')
+    }
+  }
+
   const deleteApiKey = async (id: string) => {
     if (!confirm('Are you sure you want to delete this API key?')) return
     try {
@@ -207,9 +343,9 @@ export default function ApiKeysPage() {
                           {...field}
                           className="w-full p-2 border rounded-md"
                         >
-                          <option value="openai">OpenAI</option>
-                          <option value="anthropic">Anthropic</option>
-                          <option value="google">Google</option>
+                          {providerAdapters.map(adapter => (
+                            <option key={adapter.id} value={adapter.id}>{adapter.label}</option>
+                          ))}
                         </select>
                       </FormControl>
                       <FormMessage />
@@ -266,7 +402,7 @@ export default function ApiKeysPage() {
             <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
               <CardTitle className="text-sm font-medium flex items-center gap-2">
                 <Key className="h-4 w-4" />
-                {key.provider.charAt(0).toUpperCase() + key.provider.slice(1)}
+                {providerLabel(key.provider)}
               </CardTitle>
               <div className="flex items-center gap-2">
                 <Switch
@@ -292,10 +428,40 @@ export default function ApiKeysPage() {
                 <span>Requests: {key.total_requests}</span>
                 <span>Cost: ${key.total_cost.toFixed(4)}</span>
               </div>
-              <Badge variant={key.status === 'active' ? 'default' : 'secondary'}>
-                {key.status === 'active' ? <CheckCircle className="h-3 w-3 mr-1" /> : <XCircle className="h-3 w-3 mr-1" />}
-                {key.status}
-              </Badge>
+              <div className="flex justify-between text-sm text-muted-foreground">
+                <span>Traffic share: {((key.traffic_share || 0) * 100).toFixed(0)}%</span>
+                <span>
+                  Errors: {key.error_count || 0} ({((key.error_share || 0) * 100).toFixed(0)}%)
+                  {key.last_error_status ? `, last ${key.last_error_status}` : ''}
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-2 text-sm">
+                <label htmlFor={`weight-${key.id}`}>Pool weight</label>
+                <Input
+                  id={`weight-${key.id}`}
+                  key={`${key.id}-${key.weight ?? 1}`}
+                  type="number"
+                  min="1"
+                  step="1"
+                  defaultValue={key.weight ?? 1}
+                  onBlur={(e) => {
+                    const weight = Number(e.target.value)
+                    if (weight !== (key.weight ?? 1)) updateWeight(key.id, weight)
+                  }}
+                  className="h-8 w-20"
+                />
+              </div>
+              <div className="flex flex-wrap gap-1">
+                <Badge variant={key.status === 'active' ? 'default' : key.status === 'invalid' ? 'destructive' : 'secondary'}>
+                  {key.status === 'active' ? <CheckCircle className="h-3 w-3 mr-1" /> : <XCircle className="h-3 w-3 mr-1" />}
+                  {key.status}
+                </Badge>
+                {key.rate_limited_until && new Date(key.rate_limited_until) > new Date() && (
+                  <Badge variant="secondary">
+                    Rate limited until {new Date(key.rate_limited_until).toLocaleTimeString()}
+                  </Badge>
+                )}
+              </div>
             </CardContent>
           </Card>
         ))}
@@ -308,6 +474,118 @@ export default function ApiKeysPage() {
           <p className="text-muted-foreground">Add your first API key to get started.</p>
         </div>
       )}
+
+      <div className="flex items-center justify-between pt-6">
+        <div>
+          <h2 className="text-2xl font-bold">CostLLM Keys</h2>
+          <p className="text-sm text-muted-foreground">Use these cllm_ keys in your applications instead of provider keys.</p>
+        </div>
+        <Dialog
+          open={proxyDialogOpen}
+          onOpenChange={(open) => {
+            setProxyDialogOpen(open)
+            if (!open) setCreatedProxyKey(null)
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button disabled={apiKeys.length === 0}>
+              <Plus className="h-4 w-4 mr-2" />
+              Create CostLLM Key
+            </Button>
+          </DialogTrigger>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>{createdProxyKey ? 'Copy your CostLLM key' : 'Create CostLLM Key'}</DialogTitle>
+            </DialogHeader>
+            {createdProxyKey ? (
+              <div className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  This key is shown only once. Store it somewhere safe.
+                </p>
+                <div className="flex gap-2">
+                  <Input readOnly value={createdProxyKey} className="font-mono" />
+                  <Button
+                    variant="outline"
+                    size="icon"
+                    onClick={() => {
+                      navigator.clipboard.writeText(createdProxyKey)
+                      toast.success('Copied to clipboard')
+                    }}
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <Button onClick={() => setProxyDialogOpen(false)}>Done</Button>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Name</p>
+                  <Input
+                    value={proxyKeyName}
+                    onChange={(e) => setProxyKeyName(e.target.value)}
+                    placeholder="e.g., Backend service"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Provider keys</p>
+                  {apiKeys.map((key) => (
+                    <label key={key.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={proxyKeyCredentials.includes(key.id)}
+                        onCheckedChange={(checked) => setProxyKeyCredentials(current =>
+                          checked ? [...current, key.id] : current.filter(id => id !== key.id)
+                        )}
+                      />
+                      {key.nickname || 'No nickname'} ({providerLabel(key.provider)})
+                    </label>
+                  ))}
+                </div>
+                <Button onClick={createProxyKey}>Create Key</Button>
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
+        {proxyKeys.map((key) => (
+          <Card key={key.id} className="backdrop-blur-md bg-card/50 border-border/50">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium flex items-center gap-2">
+                <KeyRound className="h-4 w-4" />
+                {key.name}
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={key.status === 'active'}
+                  onCheckedChange={() => toggleProxyKeyStatus(key.id, key.status)}
+                />
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => deleteProxyKey(key.id)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <p className="text-xs text-muted-foreground font-mono">{key.masked_key}</p>
+              <div className="flex flex-wrap gap-1">
+                {key.api_key_ids.map(id => (
+                  <Badge key={id} variant="outline">{providerKeyLabel(id)}</Badge>
+                ))}
+              </div>
+              <div className="flex justify-between text-sm">
+                <span>Requests: {key.total_requests}</span>
+                <span>{key.last_used_at ? `Last used ${new Date(key.last_used_at).toLocaleDateString()}` : 'Never used'}</span>
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
     </div>
   )
 }
\ No newline at end of file
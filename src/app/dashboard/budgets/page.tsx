@@ -21,24 +21,42 @@ const budgetFormSchema = z.object({
   type: z.string().min(1, "Budget type is required"),
   budgetLimit: z.number().min(0, "Limit must be positive"),
   alertThreshold: z.number().min(0).max(100, "Threshold must be between 0 and 100"),
-  notificationChannels: z.array(z.string()).min(1, "At least one notification channel is required")
+  notificationChannels: z.array(z.string()).min(1, "At least one notification channel is required"),
+  breachAction: z.enum(["alert", "block", "downgrade", "throttle"]),
+  throttleRpm: z.number().int().min(0),
+  proxyKeyId: z.string()
+}).refine(data => data.breachAction !== "throttle" || data.throttleRpm > 0, {
+  message: "Requests per minute must be positive",
+  path: ["throttleRpm"]
 })
 
 type BudgetFormData = z.infer<typeof budgetFormSchema>
 
+const breachActionLabels: Record<Budget['breachAction'], string> = {
+  alert: "Alert only",
+  block: "Block requests (402)",
+  downgrade: "Allow only cheaper models",
+  throttle: "Throttle requests"
+}
+
 export default function BudgetsPage() {
   const [budgets, setBudgets] = useState<Budget[]>([])
   const [loading, setLoading] = useState(true)
   const [isModalOpen, setIsModalOpen] = useState(false)
+  const [proxyKeys, setProxyKeys] = useState<Array<{ id: string; name: string }>>([])
   const form = useForm<BudgetFormData>({
     resolver: zodResolver(budgetFormSchema),
     defaultValues: {
       type: "",
       budgetLimit: 0,
       alertThreshold: 80,
-      notificationChannels: []
+      notificationChannels: [],
+      breachAction: "alert",
+      throttleRpm: 0,
+      proxyKeyId: ""
     }
   })
+  const breachAction = form.watch("breachAction")
 
   const fetchBudgets = async () => {
     try {
@@ -56,8 +74,21 @@ export default function BudgetsPage() {
     }
   }
 
+  // CostLLM keys a budget can be limited to
+  const fetchProxyKeys = async () => {
+    try {
+      const response = await fetch('/api/proxy-keys')
+      if (response.ok) {
+        setProxyKeys(await response.json())
+      }
+    } catch (error) {
+      console.error('Error fetching proxy keys:', error)
+    }
+  }
+
   useEffect(() => {
     fetchBudgets()
+    fetchProxyKeys()
 
     // Set up real-time subscriptions
     const channel = supabase
@@ -87,7 +118,10 @@ export default function BudgetsPage() {
           type: data.type,
           limit: data.budgetLimit,
           alertThreshold: data.alertThreshold,
-          notificationChannels: data.notificationChannels
+          notificationChannels: data.notificationChannels,
+          breachAction: data.breachAction,
+          throttleRpm: data.breachAction === 'throttle' ? data.throttleRpm : undefined,
+          proxyKeyId: data.proxyKeyId || undefined
         })
       })
 
@@ -211,6 +245,62 @@ export default function BudgetsPage() {
                     </FormItem>
                   )}
                 />
+                <FormField
+                  control={form.control}
+                  name="breachAction"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>When Exceeded</FormLabel>
+                      <FormControl>
+                        <select {...field} className="w-full p-2 border rounded-md">
+                          {Object.entries(breachActionLabels).map(([action, label]) => (
+                            <option key={action} value={action}>{label}</option>
+                          ))}
+                        </select>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                {breachAction === "throttle" && (
+                  <FormField
+                    control={form.control}
+                    name="throttleRpm"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Requests per Minute</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="number"
+                            min="1"
+                            placeholder="10"
+                            {...field}
+                            onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+                <FormField
+                  control={form.control}
+                  name="proxyKeyId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Applies To</FormLabel>
+                      <FormControl>
+                        <select {...field} className="w-full p-2 border rounded-md">
+                          <option value="">All CostLLM keys</option>
+                          {proxyKeys.map(key => (
+                            <option key={key.id} value={key.id}>{key.name}</option>
+                          ))}
+                        </select>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
                 <Button type="submit" className="w-full">Create Budget</Button>
               </form>
             </Form>
@@ -262,6 +352,20 @@ export default function BudgetsPage() {
                     <span>Alert Threshold</span>
                     <span>{budget.alertThreshold}%</span>
                   </div>
+                  <div className="flex justify-between text-sm">
+                    <span>When Exceeded</span>
+                    <span>
+                      {budget.breachAction === 'throttle'
+                        ? `Throttle to ${budget.throttleRpm} req/min`
+                        : breachActionLabels[budget.breachAction || 'alert']}
+                    </span>
+                  </div>
+                  {budget.proxyKeyId && (
+                    <div className="flex justify-between text-sm">
+                      <span>Applies To</span>
+                      <span>{proxyKeys.find(key => key.id === budget.proxyKeyId)?.name || 'One CostLLM key'}</span>
+                    </div>
+                  )}
                 </div>
 
                 <div className="space-y-2">
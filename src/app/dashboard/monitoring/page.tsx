@@ -37,6 +37,15 @@ interface SystemMetrics {
     status: 'healthy' | 'unhealthy' | 'warning'
     timestamp: string
     checks: Record<string, { status: string, details: string }>
+    circuits?: Array<{
+      provider: string
+      model: string
+      state: 'closed' | 'open' | 'half-open'
+      requests: number
+      errorRate: number
+      averageLatency: number
+      retryAt: string | null
+    }>
   }
   performance: {
     averageResponseTime: number
@@ -57,6 +66,23 @@ interface SystemMetrics {
       created_at: string
     }>
   }
+  // Guardrail and PII filter findings, logged with the 'security' source
+  securityEvents: Array<{
+    id: string
+    message: string
+    metadata: Record<string, unknown> | string | null
+    created_at: string
+  }>
+}
+
+// Audit metadata is stored as serialized JSON
+const parseMetadata = (metadata: Record<string, unknown> | string | null): Record<string, unknown> => {
+  if (typeof metadata !== 'string') return metadata || {}
+  try {
+    return JSON.parse(metadata)
+  } catch {
+    return {}
+  }
 }
 
 const COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884D8']
@@ -75,6 +101,9 @@ export default function MonitoringPage() {
       const auditResponse = await fetch('/api/audit?limit=50')
       const audit = await auditResponse.json()
 
+      const securityResponse = await fetch('/api/audit?source=security&limit=20')
+      const security = await securityResponse.json()
+
       setMetrics({
         health,
         performance: health.metrics.performance,
@@ -86,7 +115,8 @@ export default function MonitoringPage() {
           byLevel: {},
           bySource: {},
           recentEvents: []
-        }
+        },
+        securityEvents: security.logs || []
       })
     } catch (error) {
       console.error('Failed to fetch metrics:', error)
@@ -125,7 +155,7 @@ export default function MonitoringPage() {
     )
   }
 
-  const { health, performance, audit } = metrics
+  const { health, performance, audit, securityEvents } = metrics
 
   return (
     <div className="space-y-6">
@@ -220,6 +250,42 @@ export default function MonitoringPage() {
         </CardContent>
       </Card>
 
+      {/* Provider Circuit Breakers */}
+      <Card className="backdrop-blur-md bg-card/50 border-border/50">
+        <CardHeader>
+          <CardTitle>Provider Circuits</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {!health.circuits || health.circuits.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No provider calls since this server started.</p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-3">
+              {health.circuits.map((circuit) => (
+                <div key={`${circuit.provider}/${circuit.model}`} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div>
+                    <div className="font-medium">{circuit.model}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {circuit.provider} • {(circuit.errorRate * 100).toFixed(0)}% errors • {circuit.averageLatency.toFixed(0)}ms avg
+                    </div>
+                    {circuit.retryAt && (
+                      <div className="text-xs text-muted-foreground">
+                        Probing again at {new Date(circuit.retryAt).toLocaleTimeString()}
+                      </div>
+                    )}
+                  </div>
+                  <Badge variant={
+                    circuit.state === 'open' ? 'destructive' :
+                    circuit.state === 'half-open' ? 'secondary' : 'default'
+                  }>
+                    {circuit.state}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Performance Metrics */}
       <div className="grid gap-4 md:grid-cols-2">
         <Card className="backdrop-blur-md bg-card/50 border-border/50">
@@ -303,6 +369,45 @@ export default function MonitoringPage() {
         </CardContent>
       </Card>
 
+      {/* Security Events */}
+      <Card className="backdrop-blur-md bg-card/50 border-border/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Shield className="h-5 w-5" />
+            Security Events
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {securityEvents.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No guardrail or PII findings recorded.</p>
+          ) : (
+            <div className="space-y-4">
+              {securityEvents.map((event) => {
+                const details = parseMetadata(event.metadata)
+                const finding = details.finding || details.pii_type
+                return (
+                  <div key={event.id} className="flex items-center justify-between p-4 border rounded-lg">
+                    <div className="flex items-center space-x-4">
+                      <AlertTriangle className={`h-4 w-4 ${details.action === 'block' ? 'text-red-500' : 'text-yellow-500'}`} />
+                      <div>
+                        <div className="font-medium">
+                          {event.message}{finding ? `: ${finding}` : ''}
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {details.count ? `${details.count} found • ` : ''}
+                          {new Date(event.created_at).toLocaleString()}
+                        </div>
+                      </div>
+                    </div>
+                    {typeof details.action === 'string' && <Badge variant="outline">{details.action}</Badge>}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* System Resources */}
       <Card className="backdrop-blur-md bg-card/50 border-border/50">
         <CardHeader>
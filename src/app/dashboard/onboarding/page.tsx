@@ -12,6 +12,7 @@ import { zodResolver } from "@hookform/resolvers/zod"
 import * as z from "zod"
 import { CheckCircle, ArrowRight, ArrowLeft, Loader2 } from "lucide-react"
 import { toast } from "sonner"
+import { providerAdapters, providerIds } from "@/lib/providers"
 
 const steps = [
   { id: 'welcome', title: 'Welcome', description: 'Get started with LLM Cost' },
@@ -22,7 +23,7 @@ const steps = [
 ]
 
 const addApiKeySchema = z.object({
-  provider: z.enum(['openai', 'anthropic', 'google']),
+  provider: z.string().refine(id => providerIds.includes(id), 'Unsupported provider'),
   api_key: z.string().min(1, 'API key is required'),
   nickname: z.string().optional()
 })
@@ -208,7 +209,7 @@ function ApiKeyStep({ onNext }: { onNext: () => void }) {
   const form = useForm<AddApiKeyForm>({
     resolver: zodResolver(addApiKeySchema),
     defaultValues: {
-      provider: 'openai',
+      provider: providerIds[0],
       api_key: '',
       nickname: ''
     }
@@ -280,9 +281,9 @@ function ApiKeyStep({ onNext }: { onNext: () => void }) {
                     {...field}
                     className="w-full p-2 border rounded-md"
                   >
-                    <option value="openai">OpenAI</option>
-                    <option value="anthropic">Anthropic</option>
-                    <option value="google">Google</option>
+                    {providerAdapters.map(adapter => (
+                      <option key={adapter.id} value={adapter.id}>{adapter.label}</option>
+                    ))}
                   </select>
                 </FormControl>
                 <FormMessage />
@@ -275,7 +275,7 @@ export default function OptimizationRulesPage() {
       const testRequest: RuleTestRequest = {
         model: values.model,
         messages: messages,
-        requestType: values.requestType as 'chat' | 'completion' | 'embedding',
+        requestType: values.requestType as RuleTestRequest['requestType'],
       }
 
       const response = await fetch('/api/optimization-rules/test', {
@@ -485,6 +485,8 @@ export default function OptimizationRulesPage() {
                           <option value="chat">Chat</option>
                           <option value="completion">Completion</option>
                           <option value="embedding">Embedding</option>
+                          <option value="image">Image generation</option>
+                          <option value="audio">Audio transcription</option>
                         </select>
                       </FormControl>
                       <FormMessage />
@@ -668,6 +670,8 @@ export default function OptimizationRulesPage() {
                           <option value="chat">Chat</option>
                           <option value="completion">Completion</option>
                           <option value="embedding">Embedding</option>
+                          <option value="image">Image generation</option>
+                          <option value="audio">Audio transcription</option>
                         </select>
                       </FormControl>
                       <FormMessage />
@@ -753,6 +757,8 @@ export default function OptimizationRulesPage() {
                             <option value="chat">Chat</option>
                             <option value="completion">Completion</option>
                             <option value="embedding">Embedding</option>
+                            <option value="image">Image generation</option>
+                            <option value="audio">Audio transcription</option>
                           </select>
                         </FormControl>
                         <FormMessage />
@@ -809,6 +815,11 @@ export default function OptimizationRulesPage() {
                   <p className="text-sm">
                     <strong>Estimated savings:</strong> ${testResult.estimatedSavings.toFixed(4)}
                   </p>
+                  <p className="text-xs text-muted-foreground">
+                    Prices: {testResult.evaluation.sourcePriceVersion || `${testResult.originalModel} (unpriced)`}
+                    {' → '}
+                    {testResult.evaluation.targetPriceVersion || `${testResult.targetModel} (unpriced)`}
+                  </p>
                   <div className="space-y-1">
                     <p className="text-sm font-medium">Matched conditions:</p>
                     <ul className="text-sm text-green-600 list-disc list-inside">
@@ -24,6 +24,7 @@ import {
   Download,
 } from "lucide-react"
 import { supabase } from "@/lib/supabase"
+import { RequestDetailSheet } from "@/components/dashboard/request-detail-sheet"
 import { useState, useEffect } from "react"
 import { useRouter } from "next/navigation"
 
@@ -144,6 +145,7 @@ export default function DashboardPage() {
     recentRequests: []
   })
   const [loading, setLoading] = useState(true)
+  const [selectedRequestId, setSelectedRequestId] = useState<string | null>(null)
 
   const fetchData = async () => {
     setLoading(true)
@@ -346,7 +348,11 @@ export default function DashboardPage() {
               </thead>
               <tbody>
                 {recentRequests.map((request) => (
-                  <tr key={request.id} className="border-b">
+                  <tr
+                    key={request.id}
+                    className="border-b cursor-pointer hover:bg-muted/50"
+                    onClick={() => setSelectedRequestId(request.id)}
+                  >
                     <td className="p-2">
                       <Badge variant="secondary">{request.model}</Badge>
                     </td>
@@ -360,6 +366,8 @@ export default function DashboardPage() {
         </CardContent>
       </Card>
 
+      <RequestDetailSheet requestId={selectedRequestId} onClose={() => setSelectedRequestId(null)} />
+
       {/* Quick Actions */}
       <Card className="backdrop-blur-md bg-card/50 border-border/50">
         <CardHeader>
@@ -0,0 +1,231 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { toast } from "sonner"
+import { FileSearch, Key } from "lucide-react"
+
+type RedactionKind = 'email' | 'card_number' | 'secret'
+
+interface CaptureKey {
+  id: string
+  name: string
+  masked_key: string
+  capture_enabled: boolean | null
+  capture_sample_rate: number | string | null
+  capture_retention_days: number | null
+  capture_redact: RedactionKind[] | null
+  capture_redact_patterns: string[] | null
+}
+
+interface CaptureForm {
+  enabled: boolean
+  // Percent of requests, as typed
+  samplePercent: string
+  retentionDays: string
+  redact: RedactionKind[]
+  // One regular expression per line
+  patterns: string
+}
+
+const redactionLabels: Record<RedactionKind, string> = {
+  email: 'Email addresses',
+  card_number: 'Card numbers',
+  secret: 'API keys and tokens'
+}
+
+const toForm = (key: CaptureKey): CaptureForm => ({
+  enabled: !!key.capture_enabled,
+  samplePercent: (Number(key.capture_sample_rate ?? 1) * 100).toString(),
+  retentionDays: (key.capture_retention_days ?? 30).toString(),
+  redact: key.capture_redact ?? ['email', 'card_number', 'secret'],
+  patterns: (key.capture_redact_patterns ?? []).join('\n')
+})
+
+export default function CaptureSettingsPage() {
+  const [keys, setKeys] = useState<CaptureKey[]>([])
+  const [forms, setForms] = useState<Record<string, CaptureForm>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchKeys()
+  }, [])
+
+  const fetchKeys = async () => {
+    try {
+      const response = await fetch('/api/proxy-keys')
+      if (response.ok) {
+        const result: CaptureKey[] = await response.json()
+        setKeys(result)
+        setForms(Object.fromEntries(result.map(key => [key.id, toForm(key)])))
+      } else {
+        toast.error('Failed to fetch keys')
+      }
+    } catch {
+      toast.error('Error fetching keys')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateForm = (id: string, changes: Partial<CaptureForm>) => {
+    setForms({ ...forms, [id]: { ...forms[id], ...changes } })
+  }
+
+  const toggleRedaction = (id: string, kind: RedactionKind, checked: boolean) => {
+    const redact = forms[id].redact.filter(existing => existing !== kind)
+    updateForm(id, { redact: checked ? [...redact, kind] : redact })
+  }
+
+  const saveCapture = async (id: string) => {
+    const form = forms[id]
+    setSavingId(id)
+    try {
+      const response = await fetch('/api/proxy-keys', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id,
+          capture_enabled: form.enabled,
+          capture_sample_rate: Number(form.samplePercent) / 100,
+          capture_retention_days: Number(form.retentionDays),
+          capture_redact: form.redact,
+          capture_redact_patterns: form.patterns.split('\n').map(pattern => pattern.trim()).filter(Boolean)
+        })
+      })
+
+      if (response.ok) {
+        toast.success('Capture settings updated')
+        fetchKeys()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to update capture settings')
+      }
+    } catch {
+      toast.error('Error updating capture settings')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Request Capture</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileSearch className="h-5 w-5" />
+            Captured Bodies
+          </CardTitle>
+          <CardDescription>
+            Store the request and response bodies of a key&apos;s chat requests to see what a request
+            cost money on. Bodies are redacted before they are stored, encrypted at rest and deleted
+            after the retention window. Open a request on the dashboard to view them.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : keys.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Key className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>No CostLLM keys yet.</p>
+        </div>
+      ) : keys.map(key => {
+        const form = forms[key.id]
+        if (!form) return null
+        return (
+          <Card key={key.id}>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>{key.name}</CardTitle>
+                  <CardDescription className="font-mono">{key.masked_key}</CardDescription>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`capture-${key.id}`}>Capture</Label>
+                  <Switch
+                    id={`capture-${key.id}`}
+                    checked={form.enabled}
+                    onCheckedChange={(checked) => updateForm(key.id, { enabled: checked })}
+                  />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor={`sample-${key.id}`}>Sample Rate (%)</Label>
+                  <Input
+                    id={`sample-${key.id}`}
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={form.samplePercent}
+                    onChange={(e) => updateForm(key.id, { samplePercent: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor={`retention-${key.id}`}>Retention (days)</Label>
+                  <Input
+                    id={`retention-${key.id}`}
+                    type="number"
+                    min="1"
+                    max="90"
+                    step="1"
+                    value={form.retentionDays}
+                    onChange={(e) => updateForm(key.id, { retentionDays: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Redact</Label>
+                <div className="flex flex-wrap gap-4">
+                  {(Object.keys(redactionLabels) as RedactionKind[]).map(kind => (
+                    <div key={kind} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`${kind}-${key.id}`}
+                        checked={form.redact.includes(kind)}
+                        onCheckedChange={(checked) => toggleRedaction(key.id, kind, checked === true)}
+                      />
+                      <Label htmlFor={`${kind}-${key.id}`}>{redactionLabels[kind]}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={`patterns-${key.id}`}>Custom Patterns</Label>
+                <textarea
+                  id={`patterns-${key.id}`}
+                  className="w-full p-2 border rounded-md font-mono text-sm"
+                  rows={3}
+                  placeholder={'One regular expression per line, e.g. ACCT-\\d{8}'}
+                  value={form.patterns}
+                  onChange={(e) => updateForm(key.id, { patterns: e.target.value })}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button size="sm" onClick={() => saveCapture(key.id)} disabled={savingId === key.id}>
+                  {savingId === key.id ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,252 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Label } from "@/components/ui/label"
+import { Checkbox } from "@/components/ui/checkbox"
+import { toast } from "sonner"
+import { Key, ShieldCheck } from "lucide-react"
+
+type PiiAction = 'off' | 'block' | 'mask' | 'tokenize'
+type PiiKind = 'email' | 'phone' | 'us_ssn' | 'uk_nino' | 'in_aadhaar'
+type GuardrailAction = 'off' | 'warn' | 'redact' | 'block'
+type GuardrailCheck = 'credentials' | 'prompt_injection'
+
+interface ProtectedKey {
+  id: string
+  name: string
+  masked_key: string
+  pii_action: PiiAction | null
+  pii_types: PiiKind[] | null
+  guardrail_action: GuardrailAction | null
+  guardrail_checks: GuardrailCheck[] | null
+}
+
+interface PiiForm {
+  action: PiiAction
+  kinds: PiiKind[]
+  guardrailAction: GuardrailAction
+  guardrailChecks: GuardrailCheck[]
+}
+
+const actionLabels: Record<PiiAction, string> = {
+  off: 'Off',
+  block: 'Block the request',
+  mask: 'Mask before forwarding',
+  tokenize: 'Replace with tokens, restored in the response'
+}
+
+const kindLabels: Record<PiiKind, string> = {
+  email: 'Email addresses',
+  phone: 'Phone numbers',
+  us_ssn: 'US Social Security numbers',
+  uk_nino: 'UK National Insurance numbers',
+  in_aadhaar: 'Aadhaar numbers'
+}
+
+const allKinds = Object.keys(kindLabels) as PiiKind[]
+
+const guardrailActionLabels: Record<GuardrailAction, string> = {
+  off: 'Off',
+  warn: 'Allow and record in the audit log',
+  redact: 'Redact before forwarding',
+  block: 'Block the request'
+}
+
+const checkLabels: Record<GuardrailCheck, string> = {
+  credentials: 'Credentials and API keys',
+  prompt_injection: 'Prompt-injection markers'
+}
+
+const allChecks = Object.keys(checkLabels) as GuardrailCheck[]
+
+const toForm = (key: ProtectedKey): PiiForm => ({
+  action: key.pii_action ?? 'off',
+  kinds: key.pii_types ?? allKinds,
+  guardrailAction: key.guardrail_action ?? 'warn',
+  guardrailChecks: key.guardrail_checks ?? allChecks
+})
+
+export default function DataProtectionSettingsPage() {
+  const [keys, setKeys] = useState<ProtectedKey[]>([])
+  const [forms, setForms] = useState<Record<string, PiiForm>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchKeys()
+  }, [])
+
+  const fetchKeys = async () => {
+    try {
+      const response = await fetch('/api/proxy-keys')
+      if (response.ok) {
+        const result: ProtectedKey[] = await response.json()
+        setKeys(result)
+        setForms(Object.fromEntries(result.map(key => [key.id, toForm(key)])))
+      } else {
+        toast.error('Failed to fetch keys')
+      }
+    } catch {
+      toast.error('Error fetching keys')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateForm = (id: string, changes: Partial<PiiForm>) => {
+    setForms({ ...forms, [id]: { ...forms[id], ...changes } })
+  }
+
+  const toggleKind = (id: string, kind: PiiKind, checked: boolean) => {
+    const kinds = forms[id].kinds.filter(existing => existing !== kind)
+    updateForm(id, { kinds: checked ? [...kinds, kind] : kinds })
+  }
+
+  const toggleCheck = (id: string, check: GuardrailCheck, checked: boolean) => {
+    const checks = forms[id].guardrailChecks.filter(existing => existing !== check)
+    updateForm(id, { guardrailChecks: checked ? [...checks, check] : checks })
+  }
+
+  const savePolicy = async (id: string) => {
+    const form = forms[id]
+    setSavingId(id)
+    try {
+      const response = await fetch('/api/proxy-keys', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id,
+          pii_action: form.action,
+          pii_types: form.kinds,
+          guardrail_action: form.guardrailAction,
+          guardrail_checks: form.guardrailChecks
+        })
+      })
+
+      if (response.ok) {
+        toast.success('Data protection updated')
+        fetchKeys()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to update data protection')
+      }
+    } catch {
+      toast.error('Error updating data protection')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Data Protection</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            PII Filter and Guardrails
+          </CardTitle>
+          <CardDescription>
+            Keep personal data and credentials from reaching LLM providers, and catch prompt-injection
+            attempts. Requests through a key are scanned before they are forwarded, and every detection
+            is recorded in the audit log.
+          </CardDescription>
+        </CardHeader>
+      </Card>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground">Loading...</p>
+      ) : keys.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          <Key className="h-12 w-12 mx-auto mb-4 opacity-50" />
+          <p>No CostLLM keys yet.</p>
+        </div>
+      ) : keys.map(key => {
+        const form = forms[key.id]
+        if (!form) return null
+        return (
+          <Card key={key.id}>
+            <CardHeader>
+              <CardTitle>{key.name}</CardTitle>
+              <CardDescription className="font-mono">{key.masked_key}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor={`pii-action-${key.id}`}>When personal data is found</Label>
+                <select
+                  id={`pii-action-${key.id}`}
+                  className="w-full p-2 border rounded-md"
+                  value={form.action}
+                  onChange={(e) => updateForm(key.id, { action: e.target.value as PiiAction })}
+                >
+                  {(Object.keys(actionLabels) as PiiAction[]).map(action => (
+                    <option key={action} value={action}>{actionLabels[action]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Detect</Label>
+                <div className="flex flex-wrap gap-4">
+                  {allKinds.map(kind => (
+                    <div key={kind} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`${kind}-${key.id}`}
+                        checked={form.kinds.includes(kind)}
+                        disabled={form.action === 'off'}
+                        onCheckedChange={(checked) => toggleKind(key.id, kind, checked === true)}
+                      />
+                      <Label htmlFor={`${kind}-${key.id}`}>{kindLabels[kind]}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor={`guardrail-action-${key.id}`}>When a guardrail is triggered</Label>
+                <select
+                  id={`guardrail-action-${key.id}`}
+                  className="w-full p-2 border rounded-md"
+                  value={form.guardrailAction}
+                  onChange={(e) => updateForm(key.id, { guardrailAction: e.target.value as GuardrailAction })}
+                >
+                  {(Object.keys(guardrailActionLabels) as GuardrailAction[]).map(action => (
+                    <option key={action} value={action}>{guardrailActionLabels[action]}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Check for</Label>
+                <div className="flex flex-wrap gap-4">
+                  {allChecks.map(check => (
+                    <div key={check} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`${check}-${key.id}`}
+                        checked={form.guardrailChecks.includes(check)}
+                        disabled={form.guardrailAction === 'off'}
+                        onCheckedChange={(checked) => toggleCheck(key.id, check, checked === true)}
+                      />
+                      <Label htmlFor={`${check}-${key.id}`}>{checkLabels[check]}</Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end">
+                <Button size="sm" onClick={() => savePolicy(key.id)} disabled={savingId === key.id}>
+                  {savingId === key.id ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
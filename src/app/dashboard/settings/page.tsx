@@ -1,6 +1,6 @@
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { Settings, CreditCard, Bell, Shield } from "lucide-react";
+import { Settings, CreditCard, Bell, Shield, Percent, Gauge, FileSearch, ShieldCheck } from "lucide-react";
 import Link from "next/link";
 
 export default function SettingsPage() {
@@ -67,6 +67,82 @@ export default function SettingsPage() {
             </Link>
           </CardContent>
         </Card>
+
+        <Card className="backdrop-blur-md bg-card/50 border-border/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Percent className="h-5 w-5" />
+              Pricing
+            </CardTitle>
+            <CardDescription>
+              Apply negotiated discounts and per-model prices to cost tracking
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/dashboard/settings/pricing">
+              <Button className="w-full">
+                Manage Pricing
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+
+        <Card className="backdrop-blur-md bg-card/50 border-border/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Gauge className="h-5 w-5" />
+              Rate Limits
+            </CardTitle>
+            <CardDescription>
+              Check headroom and set per-key request and token limits
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/dashboard/settings/rate-limits">
+              <Button className="w-full">
+                Manage Rate Limits
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+
+        <Card className="backdrop-blur-md bg-card/50 border-border/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileSearch className="h-5 w-5" />
+              Request Capture
+            </CardTitle>
+            <CardDescription>
+              Capture redacted request and response bodies per key for debugging
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/dashboard/settings/capture">
+              <Button className="w-full">
+                Manage Request Capture
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
+
+        <Card className="backdrop-blur-md bg-card/50 border-border/50">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-5 w-5" />
+              Data Protection
+            </CardTitle>
+            <CardDescription>
+              Filter personal data, credentials and prompt injection before requests reach providers
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Link href="/dashboard/settings/data-protection">
+              <Button className="w-full">
+                Manage Data Protection
+              </Button>
+            </Link>
+          </CardContent>
+        </Card>
       </div>
     </div>
   );
@@ -0,0 +1,310 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Badge } from "@/components/ui/badge"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { Percent, Plus, Tag, Trash2 } from "lucide-react"
+import { providerAdapters, providerLabel } from "@/lib/providers"
+import { pricingCatalog } from "@/lib/pricing"
+
+interface PricingOverride {
+  id: string
+  proxy_key_id: string | null
+  provider: string | null
+  model: string | null
+  discount_percent: string | null
+  input_price: string | null
+  output_price: string | null
+}
+
+interface ProxyKey {
+  id: string
+  name: string
+  masked_key: string
+}
+
+const catalogModels = Array.from(new Set(pricingCatalog.map(price => price.model)))
+
+const emptyForm = {
+  proxy_key_id: '',
+  provider: '',
+  model: '',
+  discount_percent: '',
+  input_price: '',
+  output_price: ''
+}
+
+export default function PricingSettingsPage() {
+  const [overrides, setOverrides] = useState<PricingOverride[]>([])
+  const [proxyKeys, setProxyKeys] = useState<ProxyKey[]>([])
+  const [form, setForm] = useState(emptyForm)
+  const [saving, setSaving] = useState(false)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchOverrides()
+    fetchProxyKeys()
+  }, [])
+
+  const fetchOverrides = async () => {
+    try {
+      const response = await fetch('/api/pricing-overrides')
+      if (response.ok) {
+        setOverrides(await response.json())
+      } else {
+        toast.error('Failed to fetch pricing overrides')
+      }
+    } catch {
+      toast.error('Error fetching pricing overrides')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const fetchProxyKeys = async () => {
+    try {
+      const response = await fetch('/api/proxy-keys')
+      if (response.ok) {
+        setProxyKeys(await response.json())
+      }
+    } catch {
+      // Key-scoped overrides are optional; the form still works without the list
+    }
+  }
+
+  const createOverride = async () => {
+    const toNumber = (value: string) => value === '' ? null : Number(value)
+    setSaving(true)
+    try {
+      const response = await fetch('/api/pricing-overrides', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          proxy_key_id: form.proxy_key_id || null,
+          provider: form.provider || null,
+          model: form.model || null,
+          discount_percent: toNumber(form.discount_percent),
+          input_price: toNumber(form.input_price),
+          output_price: toNumber(form.output_price)
+        })
+      })
+
+      if (response.ok) {
+        toast.success('Pricing override added')
+        setForm(emptyForm)
+        fetchOverrides()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to add pricing override')
+      }
+    } catch {
+      toast.error('Error adding pricing override')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const deleteOverride = async (id: string) => {
+    try {
+      const response = await fetch('/api/pricing-overrides', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id })
+      })
+
+      if (response.ok) {
+        toast.success('Pricing override removed')
+        fetchOverrides()
+      } else {
+        toast.error('Failed to remove pricing override')
+      }
+    } catch {
+      toast.error('Error removing pricing override')
+    }
+  }
+
+  const keyName = (id: string | null) => {
+    if (!id) return 'All keys'
+    const key = proxyKeys.find(proxyKey => proxyKey.id === id)
+    return key ? key.name : 'Deleted key'
+  }
+
+  const describePrice = (override: PricingOverride) => {
+    const parts: string[] = []
+    if (override.input_price !== null || override.output_price !== null) {
+      parts.push(`$${override.input_price ?? 'list'} in / $${override.output_price ?? 'list'} out per 1M`)
+    }
+    if (override.discount_percent !== null) {
+      parts.push(`${parseFloat(override.discount_percent)}% off`)
+    }
+    return parts.join(', ')
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Pricing Overrides</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Plus className="h-5 w-5" />
+            Add Override
+          </CardTitle>
+          <CardDescription>
+            Record negotiated prices so costs reflect what you are actually billed. A discount applies
+            to the list price; absolute prices (USD per 1M tokens) replace it for one model. The most
+            specific override wins, and new prices apply to requests logged from now on.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="override-key">CostLLM key</Label>
+              <select
+                id="override-key"
+                value={form.proxy_key_id}
+                onChange={(e) => setForm({ ...form, proxy_key_id: e.target.value })}
+                className="w-full p-2 border rounded-md"
+              >
+                <option value="">All keys</option>
+                {proxyKeys.map(key => (
+                  <option key={key.id} value={key.id}>{key.name} ({key.masked_key})</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override-provider">Provider</Label>
+              <select
+                id="override-provider"
+                value={form.provider}
+                onChange={(e) => setForm({ ...form, provider: e.target.value })}
+                className="w-full p-2 border rounded-md"
+              >
+                <option value="">All providers</option>
+                {providerAdapters.map(adapter => (
+                  <option key={adapter.id} value={adapter.id}>{adapter.label}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override-model">Model</Label>
+              <Input
+                id="override-model"
+                list="override-models"
+                placeholder="All models"
+                value={form.model}
+                onChange={(e) => setForm({ ...form, model: e.target.value })}
+              />
+              <datalist id="override-models">
+                {catalogModels.map(model => (
+                  <option key={model} value={model} />
+                ))}
+              </datalist>
+            </div>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="override-discount">Discount (%)</Label>
+              <Input
+                id="override-discount"
+                type="number"
+                min="0"
+                max="100"
+                step="0.01"
+                placeholder="e.g. 20"
+                value={form.discount_percent}
+                onChange={(e) => setForm({ ...form, discount_percent: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override-input">Input price ($/1M tokens)</Label>
+              <Input
+                id="override-input"
+                type="number"
+                min="0"
+                step="0.000001"
+                placeholder="List price"
+                disabled={!form.model}
+                value={form.input_price}
+                onChange={(e) => setForm({ ...form, input_price: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="override-output">Output price ($/1M tokens)</Label>
+              <Input
+                id="override-output"
+                type="number"
+                min="0"
+                step="0.000001"
+                placeholder="List price"
+                disabled={!form.model}
+                value={form.output_price}
+                onChange={(e) => setForm({ ...form, output_price: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <Button onClick={createOverride} disabled={saving} className="w-full">
+            {saving ? 'Saving...' : 'Add Override'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tag className="h-5 w-5" />
+            Active Overrides
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : overrides.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Percent className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No pricing overrides. Costs use list prices.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Provider</TableHead>
+                  <TableHead>Model</TableHead>
+                  <TableHead>Price</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {overrides.map(override => (
+                  <TableRow key={override.id}>
+                    <TableCell>{keyName(override.proxy_key_id)}</TableCell>
+                    <TableCell>
+                      {override.provider ? <Badge variant="outline">{providerLabel(override.provider)}</Badge> : 'All'}
+                    </TableCell>
+                    <TableCell className="font-medium">{override.model || 'All'}</TableCell>
+                    <TableCell>{describePrice(override)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => deleteOverride(override.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
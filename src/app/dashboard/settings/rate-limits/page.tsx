@@ -0,0 +1,246 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Progress } from "@/components/ui/progress"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { toast } from "sonner"
+import { Gauge, Key } from "lucide-react"
+
+type QuotaDimension = 'requests' | 'tokens' | 'requests-day'
+
+interface QuotaLimits {
+  requestsPerMinute: number | null
+  tokensPerMinute: number | null
+  requestsPerDay: number | null
+}
+
+interface QuotaStatus {
+  dimension: QuotaDimension
+  limit: number
+  remaining: number
+  resetSeconds: number
+}
+
+interface KeyQuotas {
+  id: string
+  name: string
+  status: string
+  masked_key: string
+  limits: QuotaLimits
+  usage: QuotaStatus[]
+}
+
+interface RateLimitsResponse {
+  tier: string
+  limits: QuotaLimits
+  usage: QuotaStatus[]
+  keys: KeyQuotas[]
+}
+
+type LimitForm = { rpm_limit: string; tpm_limit: string; daily_request_limit: string }
+
+const dimensionLabels: Record<QuotaDimension, string> = {
+  requests: 'Requests per minute',
+  tokens: 'Tokens per minute',
+  'requests-day': 'Requests per day'
+}
+
+const formatReset = (seconds: number) => {
+  if (seconds < 60) return `${seconds}s`
+  if (seconds < 3600) return `${Math.ceil(seconds / 60)}m`
+  return `${Math.ceil(seconds / 3600)}h`
+}
+
+const toForm = (limits: QuotaLimits): LimitForm => ({
+  rpm_limit: limits.requestsPerMinute?.toString() ?? '',
+  tpm_limit: limits.tokensPerMinute?.toString() ?? '',
+  daily_request_limit: limits.requestsPerDay?.toString() ?? ''
+})
+
+function QuotaBars({ usage }: { usage: QuotaStatus[] }) {
+  if (usage.length === 0) {
+    return <p className="text-sm text-muted-foreground">No limits</p>
+  }
+
+  return (
+    <div className="space-y-3">
+      {usage.map(status => {
+        const used = status.limit - status.remaining
+        return (
+          <div key={status.dimension} className="space-y-1">
+            <div className="flex justify-between text-sm">
+              <span>{dimensionLabels[status.dimension]}</span>
+              <span className="text-muted-foreground">
+                {used.toLocaleString()} / {status.limit.toLocaleString()}
+                {used > 0 && ` · resets in ${formatReset(status.resetSeconds)}`}
+              </span>
+            </div>
+            <Progress value={Math.min(100, (used / status.limit) * 100)} />
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+export default function RateLimitsSettingsPage() {
+  const [data, setData] = useState<RateLimitsResponse | null>(null)
+  const [forms, setForms] = useState<Record<string, LimitForm>>({})
+  const [savingId, setSavingId] = useState<string | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  useEffect(() => {
+    fetchRateLimits()
+  }, [])
+
+  const fetchRateLimits = async () => {
+    try {
+      const response = await fetch('/api/rate-limits')
+      if (response.ok) {
+        const result: RateLimitsResponse = await response.json()
+        setData(result)
+        setForms(Object.fromEntries(result.keys.map(key => [key.id, toForm(key.limits)])))
+      } else {
+        toast.error('Failed to fetch rate limits')
+      }
+    } catch {
+      toast.error('Error fetching rate limits')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const updateForm = (id: string, field: keyof LimitForm, value: string) => {
+    setForms({ ...forms, [id]: { ...forms[id], [field]: value } })
+  }
+
+  const saveLimits = async (id: string) => {
+    const toLimit = (value: string) => value === '' ? null : Number(value)
+    const form = forms[id]
+    setSavingId(id)
+    try {
+      const response = await fetch('/api/proxy-keys', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          id,
+          rpm_limit: toLimit(form.rpm_limit),
+          tpm_limit: toLimit(form.tpm_limit),
+          daily_request_limit: toLimit(form.daily_request_limit)
+        })
+      })
+
+      if (response.ok) {
+        toast.success('Key limits updated')
+        fetchRateLimits()
+      } else {
+        const error = await response.json()
+        toast.error(error.error || 'Failed to update key limits')
+      }
+    } catch {
+      toast.error('Error updating key limits')
+    } finally {
+      setSavingId(null)
+    }
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <h1 className="text-3xl font-bold">Rate Limits</h1>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Account
+            {data && <Badge variant="outline" className="capitalize">{data.tier}</Badge>}
+          </CardTitle>
+          <CardDescription>
+            Limits from your subscription tier, shared by all of your CostLLM keys. Requests over a
+            limit get a 429 until the window resets.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : data && (
+            <QuotaBars usage={data.usage} />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Key className="h-5 w-5" />
+            Per-key Limits
+          </CardTitle>
+          <CardDescription>
+            Optional limits for a single key, applied on top of the account limits. Leave a field
+            blank for no key-level limit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <p className="text-sm text-muted-foreground">Loading...</p>
+          ) : !data || data.keys.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Key className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No CostLLM keys yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Key</TableHead>
+                  <TableHead>Usage</TableHead>
+                  <TableHead>Requests/min</TableHead>
+                  <TableHead>Tokens/min</TableHead>
+                  <TableHead>Requests/day</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.keys.map(key => (
+                  <TableRow key={key.id}>
+                    <TableCell>
+                      <div className="font-medium">{key.name}</div>
+                      <div className="text-xs text-muted-foreground font-mono">{key.masked_key}</div>
+                    </TableCell>
+                    <TableCell className="min-w-[220px]">
+                      <QuotaBars usage={key.usage} />
+                    </TableCell>
+                    {(['rpm_limit', 'tpm_limit', 'daily_request_limit'] as const).map(field => (
+                      <TableCell key={field}>
+                        <Input
+                          type="number"
+                          min="1"
+                          step="1"
+                          placeholder="None"
+                          aria-label={`${key.name} ${field}`}
+                          value={forms[key.id]?.[field] ?? ''}
+                          onChange={(e) => updateForm(key.id, field, e.target.value)}
+                        />
+                      </TableCell>
+                    ))}
+                    <TableCell className="text-right">
+                      <Button size="sm" onClick={() => saveLimits(key.id)} disabled={savingId === key.id}>
+                        {savingId === key.id ? 'Saving...' : 'Save'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -551,23 +551,6 @@ export default function DocsPage() {
                           <h4 className="font-medium">Request Body</h4>
                           <CodeBlock code={`{
  "id": "uuid"
-}`} language="json" />
-                        </div>
-                      </div>
-
-                      <div className="border rounded-lg p-4">
-                        <div className="flex items-center gap-2 mb-2">
-                          <Badge variant="outline">POST</Badge>
-                          <code className="text-sm">/api/budgets/check</code>
-                        </div>
-                        <p className="text-sm text-muted-foreground mb-3">
-                          Check and update budgets after a cost transaction.
-                        </p>
-                        <div className="space-y-2">
-                          <h4 className="font-medium">Request Body</h4>
-                          <CodeBlock code={`{
- "user_id": "uuid",
- "cost_usd": 5.67
 }`} language="json" />
                         </div>
                       </div>
@@ -0,0 +1,139 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Badge } from "@/components/ui/badge"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet"
+import { toast } from "sonner"
+
+interface RequestCapture {
+  request_body: string | null
+  response_body: string | null
+  redactions: number
+  expires_at: string
+}
+
+interface RequestDetail {
+  id: string
+  model: string
+  provider: string
+  request_type: string | null
+  cost: number
+  input_tokens: number | null
+  output_tokens: number | null
+  latency: number | null
+  status: string
+  created_at: string
+  proxy_keys: { name: string } | null
+  capture: RequestCapture | null
+}
+
+// Captured JSON bodies are pretty-printed; streamed (SSE) or truncated ones are shown as stored
+const formatBody = (body: string | null) => {
+  if (body === null) return ''
+  try {
+    return JSON.stringify(JSON.parse(body), null, 2)
+  } catch {
+    return body
+  }
+}
+
+function CapturedBody({ title, body }: { title: string; body: string | null }) {
+  return (
+    <div className="space-y-2">
+      <h3 className="text-sm font-medium">{title}</h3>
+      <pre className="max-h-80 overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap break-all">
+        {formatBody(body)}
+      </pre>
+    </div>
+  )
+}
+
+export function RequestDetailSheet({ requestId, onClose }: { requestId: string | null; onClose: () => void }) {
+  const [detail, setDetail] = useState<RequestDetail | null>(null)
+  const [loading, setLoading] = useState(false)
+
+  useEffect(() => {
+    if (!requestId) return
+
+    const fetchDetail = async () => {
+      setLoading(true)
+      setDetail(null)
+      try {
+        const response = await fetch(`/api/requests/${requestId}`)
+        if (response.ok) {
+          setDetail(await response.json())
+        } else {
+          toast.error('Failed to fetch request details')
+        }
+      } catch {
+        toast.error('Error fetching request details')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchDetail()
+  }, [requestId])
+
+  return (
+    <Sheet open={!!requestId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-2xl overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Request Details</SheetTitle>
+          <SheetDescription>
+            {detail ? new Date(detail.created_at).toLocaleString() : 'Loading...'}
+          </SheetDescription>
+        </SheetHeader>
+
+        {loading || !detail ? (
+          <p className="px-4 text-sm text-muted-foreground">Loading...</p>
+        ) : (
+          <div className="space-y-6 px-4 pb-4">
+            <div className="grid grid-cols-2 gap-3 text-sm">
+              <div>
+                <div className="text-muted-foreground">Model</div>
+                <Badge variant="secondary">{detail.model}</Badge>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Provider</div>
+                <div className="capitalize">{detail.provider}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Cost</div>
+                <div>${Number(detail.cost || 0).toFixed(4)}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Tokens (in / out)</div>
+                <div>{(detail.input_tokens ?? 0).toLocaleString()} / {(detail.output_tokens ?? 0).toLocaleString()}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Latency</div>
+                <div>{detail.latency !== null ? `${detail.latency}ms` : '-'}</div>
+              </div>
+              <div>
+                <div className="text-muted-foreground">Key</div>
+                <div>{detail.proxy_keys?.name || '-'}</div>
+              </div>
+            </div>
+
+            {detail.capture ? (
+              <div className="space-y-4">
+                <p className="text-xs text-muted-foreground">
+                  {detail.capture.redactions} value{detail.capture.redactions === 1 ? '' : 's'} redacted ·
+                  kept until {new Date(detail.capture.expires_at).toLocaleDateString()}
+                </p>
+                <CapturedBody title="Request" body={detail.capture.request_body} />
+                <CapturedBody title="Response" body={detail.capture.response_body} />
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                No captured bodies. Enable capture for the key under Settings → Request Capture; only
+                sampled chat requests are captured.
+              </p>
+            )}
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,66 @@
+export const ANTHROPIC_MESSAGES_URL = 'https://api.anthropic.com/v1/messages'
+export const ANTHROPIC_VERSION = '2023-06-01'
+
+type ContentBlock = { type?: string; text?: string }
+
+// Anthropic authenticates with x-api-key rather than a Bearer token and requires
+// an explicit API version. Callers may pin their own version and beta flags.
+export function anthropicHeaders(apiKey: string, incoming?: Headers): Record<string, string> {
+  const headers: Record<string, string> = {
+    'x-api-key': apiKey,
+    'anthropic-version': incoming?.get('anthropic-version') || ANTHROPIC_VERSION,
+    'Content-Type': 'application/json'
+  }
+  const beta = incoming?.get('anthropic-beta')
+  if (beta) headers['anthropic-beta'] = beta
+  return headers
+}
+
+// Flattens a message content value (plain string or an array of content blocks)
+// to its text. Non-text blocks such as images and tool calls are skipped.
+export function contentToText(content: unknown): string {
+  if (typeof content === 'string') return content
+  if (Array.isArray(content)) {
+    return content
+      .map((block: ContentBlock | string) => typeof block === 'string' ? block : block?.text || '')
+      .filter(Boolean)
+      .join(' ')
+  }
+  return content === undefined || content === null ? '' : JSON.stringify(content)
+}
+
+// The top-level system prompt may be a string or an array of text blocks
+export function systemPromptText(system: unknown): string {
+  return system === undefined ? '' : contentToText(system)
+}
+
+export function extractAnthropicOutput(data: { content?: ContentBlock[] }): string {
+  return (data.content || [])
+    .filter(block => block.type === 'text')
+    .map(block => block.text || '')
+    .join('')
+}
+
+export interface AnthropicUsage {
+  input_tokens?: number
+  output_tokens?: number
+  cache_creation_input_tokens?: number
+  cache_read_input_tokens?: number
+}
+
+// input_tokens excludes prompt-cache reads and writes, so add them back to get the
+// whole prompt; cache reads are reported separately as cached input
+export function extractAnthropicUsage(data: { usage?: AnthropicUsage }): {
+  inputTokens?: number
+  outputTokens?: number
+  cachedInputTokens?: number
+} {
+  const usage = data.usage
+  return {
+    inputTokens: usage?.input_tokens !== undefined
+      ? usage.input_tokens + (usage.cache_creation_input_tokens || 0) + (usage.cache_read_input_tokens || 0)
+      : undefined,
+    outputTokens: usage?.output_tokens,
+    cachedInputTokens: usage?.cache_read_input_tokens
+  }
+}
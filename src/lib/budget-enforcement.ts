@@ -0,0 +1,103 @@
+import { getModelPrice, ModelPrice, pricingCatalog } from '@/lib/pricing'
+
+// What the proxy does with a request once a budget it counts against is spent.
+// 'alert' only notifies; the others act before the request is forwarded.
+export type BudgetBreachAction = 'alert' | 'block' | 'downgrade' | 'throttle'
+
+export const budgetBreachActions: BudgetBreachAction[] = ['alert', 'block', 'downgrade', 'throttle']
+
+// The budgets columns enforcement reads. Decimals may arrive as strings.
+export interface EnforcedBudget {
+  id: string
+  type?: string | null
+  budget_limit: number | string
+  current_spend: number | string | null
+  status: string
+  breach_action?: string | null
+  throttle_rpm?: number | null
+  // Set when the budget only covers one CostLLM key
+  proxy_key_id?: string | null
+}
+
+export interface BudgetEnforcement {
+  // Rejects the request with 402
+  blocked: EnforcedBudget | null
+  // Serves the request with the cheapest reachable chat model
+  downgraded: EnforcedBudget | null
+  // Each allows its throttle_rpm requests per minute
+  throttled: EnforcedBudget[]
+}
+
+// Paused budgets are never enforced. Spend is compared rather than the status, so
+// raising the limit lets traffic through again straight away.
+export function isBudgetBreached(budget: EnforcedBudget): boolean {
+  if (budget.status === 'paused') return false
+  return Number(budget.current_spend || 0) >= Number(budget.budget_limit)
+}
+
+// Breached budgets that apply to a request through the given CostLLM key: the
+// account-wide ones and the key's own. Blocking wins over everything else; a
+// downgrade and throttles can apply together. A throttle without a positive
+// rate blocks.
+export function budgetEnforcement(budgets: EnforcedBudget[], proxyKeyId: string): BudgetEnforcement {
+  const breached = budgets.filter(budget =>
+    (!budget.proxy_key_id || budget.proxy_key_id === proxyKeyId) && isBudgetBreached(budget))
+
+  const blocked = breached.find(budget =>
+    budget.breach_action === 'block' || (budget.breach_action === 'throttle' && !((budget.throttle_rpm ?? 0) > 0)))
+  if (blocked) {
+    return { blocked, downgraded: null, throttled: [] }
+  }
+  return {
+    blocked: null,
+    downgraded: breached.find(budget => budget.breach_action === 'downgrade') || null,
+    throttled: breached.filter(budget => budget.breach_action === 'throttle')
+  }
+}
+
+function isChatModel(price: ModelPrice): boolean {
+  return !price.imagePrices && price.audioMinute === undefined && price.output > 0
+}
+
+// Chat models priced below the given one (input plus output per 1M tokens),
+// cheapest first. Empty for models missing from the catalog.
+export function cheaperChatModels(model: string, at: Date = new Date()): string[] {
+  const current = getModelPrice(model, at)
+  if (!current) return []
+  const ceiling = current.input + current.output
+
+  return Array.from(new Set(pricingCatalog.map(price => price.model)))
+    .map(name => getModelPrice(name, at))
+    .filter((price): price is ModelPrice => !!price && isChatModel(price) && price.input + price.output < ceiling)
+    .sort((a, b) => (a.input + a.output) - (b.input + b.output))
+    .map(price => price.model)
+}
+
+// The applicable 'block' budget with the least spend left. Its remainder is the
+// most one request may cost; null when no blocking budget applies.
+export function budgetHeadroom(
+  budgets: EnforcedBudget[],
+  proxyKeyId: string
+): { budget: EnforcedBudget; remaining: number } | null {
+  let tightest: { budget: EnforcedBudget; remaining: number } | null = null
+  for (const budget of budgets) {
+    if (budget.breach_action !== 'block' || budget.status === 'paused') continue
+    if (budget.proxy_key_id && budget.proxy_key_id !== proxyKeyId) continue
+    const remaining = Number(budget.budget_limit) - Number(budget.current_spend || 0)
+    if (!tightest || remaining < tightest.remaining) {
+      tightest = { budget, remaining }
+    }
+  }
+  return tightest
+}
+
+// Largest output cap whose worst-case cost fits in `remaining`. costFor prices the
+// request's input plus the given output tokens. Below 1 when the input alone does
+// not fit; Infinity when output is free.
+export function affordableOutputTokens(costFor: (outputTokens: number) => number, remaining: number): number {
+  const inputCost = costFor(0)
+  const perToken = (costFor(1_000_000) - inputCost) / 1_000_000
+  if (inputCost > remaining) return 0
+  if (perToken <= 0) return Infinity
+  return Math.floor((remaining - inputCost) / perToken)
+}
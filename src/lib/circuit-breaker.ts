@@ -0,0 +1,166 @@
+// Circuit breakers per provider/model. When a model's recent calls mostly fail or
+// are very slow its circuit opens and the proxy fails fast (or moves down the
+// fallback chain) instead of tying up a worker on retries. After a cool-down a
+// single probe request is let through; its outcome closes or re-opens the circuit.
+// State is kept per server process.
+
+export type CircuitState = 'closed' | 'open' | 'half-open'
+
+export interface CircuitBreakerOptions {
+  // Calls considered when deciding to open
+  windowMs: number
+  // Calls needed in the window before the circuit may open
+  minimumRequests: number
+  // Fraction of failed calls (0-1) that opens the circuit
+  errorRateThreshold: number
+  // Average latency that opens the circuit
+  latencyThresholdMs: number
+  // How long the circuit stays open before a probe is allowed
+  openMs: number
+}
+
+export interface CircuitSnapshot {
+  provider: string
+  model: string
+  state: CircuitState
+  requests: number
+  errorRate: number
+  averageLatency: number
+  // When the circuit last opened, and when it next lets a probe through
+  openedAt: string | null
+  retryAt: string | null
+}
+
+interface Circuit {
+  provider: string
+  model: string
+  state: CircuitState
+  calls: Array<{ at: number; ok: boolean; latency: number }>
+  openedAt: number | null
+  probing: boolean
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback
+}
+
+export function circuitBreakerOptionsFromEnv(): CircuitBreakerOptions {
+  return {
+    windowMs: 60 * 1000,
+    minimumRequests: envNumber('CIRCUIT_BREAKER_MIN_REQUESTS', 10),
+    errorRateThreshold: envNumber('CIRCUIT_BREAKER_ERROR_RATE', 0.5),
+    latencyThresholdMs: envNumber('CIRCUIT_BREAKER_LATENCY_MS', 20000),
+    openMs: envNumber('CIRCUIT_BREAKER_OPEN_SECONDS', 30) * 1000
+  }
+}
+
+export class CircuitBreakers {
+  private circuits = new Map<string, Circuit>()
+
+  constructor(private options: CircuitBreakerOptions) {}
+
+  // Whether a call may go out now. While half-open only one probe is in flight.
+  allowRequest(provider: string, model: string): boolean {
+    const circuit = this.circuit(provider, model)
+    if (circuit.state === 'open') {
+      if (Date.now() < (circuit.openedAt || 0) + this.options.openMs) return false
+      circuit.state = 'half-open'
+      circuit.probing = false
+    }
+    if (circuit.state === 'half-open') {
+      if (circuit.probing) return false
+      circuit.probing = true
+    }
+    return true
+  }
+
+  // Retries are only worth it while the circuit is healthy
+  allowRetry(provider: string, model: string): boolean {
+    return this.circuit(provider, model).state === 'closed'
+  }
+
+  record(provider: string, model: string, ok: boolean, latency: number) {
+    const circuit = this.circuit(provider, model)
+    const now = Date.now()
+
+    if (circuit.state === 'half-open') {
+      circuit.probing = false
+      if (ok && latency < this.options.latencyThresholdMs) {
+        this.close(circuit)
+      } else {
+        this.open(circuit, now)
+      }
+      return
+    }
+    if (circuit.state === 'open') return
+
+    circuit.calls = circuit.calls.filter(call => call.at > now - this.options.windowMs)
+    circuit.calls.push({ at: now, ok, latency })
+    if (circuit.calls.length < this.options.minimumRequests) return
+
+    const { errorRate, averageLatency } = this.stats(circuit)
+    if (errorRate >= this.options.errorRateThreshold || averageLatency >= this.options.latencyThresholdMs) {
+      this.open(circuit, now)
+      console.warn(`Circuit opened for ${provider}/${model}: ${(errorRate * 100).toFixed(0)}% errors, ${averageLatency.toFixed(0)}ms average latency`)
+    }
+  }
+
+  // Seconds until an open circuit lets a probe through
+  retryAfterSeconds(provider: string, model: string): number {
+    const circuit = this.circuit(provider, model)
+    if (circuit.state !== 'open' || circuit.openedAt === null) return 0
+    return Math.max(0, Math.ceil((circuit.openedAt + this.options.openMs - Date.now()) / 1000))
+  }
+
+  snapshot(): CircuitSnapshot[] {
+    const now = Date.now()
+    return Array.from(this.circuits.values()).map(circuit => {
+      const calls = circuit.calls.filter(call => call.at > now - this.options.windowMs)
+      const { errorRate, averageLatency } = this.stats({ ...circuit, calls })
+      return {
+        provider: circuit.provider,
+        model: circuit.model,
+        state: circuit.state,
+        requests: calls.length,
+        errorRate,
+        averageLatency,
+        openedAt: circuit.openedAt === null ? null : new Date(circuit.openedAt).toISOString(),
+        retryAt: circuit.state === 'open' && circuit.openedAt !== null
+          ? new Date(circuit.openedAt + this.options.openMs).toISOString()
+          : null
+      }
+    })
+  }
+
+  private circuit(provider: string, model: string): Circuit {
+    const key = `${provider}/${model}`
+    let circuit = this.circuits.get(key)
+    if (!circuit) {
+      circuit = { provider, model, state: 'closed', calls: [], openedAt: null, probing: false }
+      this.circuits.set(key, circuit)
+    }
+    return circuit
+  }
+
+  private open(circuit: Circuit, now: number) {
+    circuit.state = 'open'
+    circuit.openedAt = now
+    circuit.calls = []
+  }
+
+  private close(circuit: Circuit) {
+    circuit.state = 'closed'
+    circuit.calls = []
+  }
+
+  private stats(circuit: Pick<Circuit, 'calls'>) {
+    if (circuit.calls.length === 0) return { errorRate: 0, averageLatency: 0 }
+    const failures = circuit.calls.filter(call => !call.ok).length
+    const totalLatency = circuit.calls.reduce((sum, call) => sum + call.latency, 0)
+    return { errorRate: failures / circuit.calls.length, averageLatency: totalLatency / circuit.calls.length }
+  }
+}
+
+// Global circuit breakers, configured by the CIRCUIT_BREAKER_* environment variables
+export const circuitBreakers = new CircuitBreakers(circuitBreakerOptionsFromEnv())
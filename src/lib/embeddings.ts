@@ -0,0 +1,160 @@
+import CryptoJS from 'crypto-js'
+import { parseGeminiModelPath } from '@/lib/gemini'
+
+type Payload = Record<string, unknown>
+
+// Embedding requests are cached per input rather than per request, so a batch that
+// repeats earlier texts only sends (and pays for) the new ones. A format knows how
+// to split a request into inputs, send a subset of them and stitch the answer back
+// together in the caller's order.
+export interface EmbeddingFormat {
+  id: 'openai' | 'gemini' | 'gemini-batch'
+  // The request's inputs in order, or null when the body is not a valid request
+  inputs(payload: Payload): unknown[] | null
+  // Request fields other than the inputs that change the vectors
+  options(payload: Payload): Payload
+  inputText(input: unknown): string
+  // The upstream body for a subset of the inputs
+  withInputs(payload: Payload, inputs: unknown[], model: string): Payload
+  parseResponse(data: unknown): { embeddings: unknown[]; inputTokens?: number }
+  buildResponse(model: string, embeddings: unknown[], inputTokens: number): Payload
+}
+
+export const openAIEmbeddingFormat: EmbeddingFormat = {
+  id: 'openai',
+
+  // input is a string, an array of strings, or token arrays (number[] / number[][])
+  inputs(payload) {
+    const { input } = payload
+    if (typeof input === 'string') return [input]
+    if (!Array.isArray(input) || input.length === 0) return null
+    if (input.every(item => typeof item === 'number')) return [input]
+    return input.every(item => typeof item === 'string' || Array.isArray(item)) ? input : null
+  },
+
+  options(payload) {
+    return { dimensions: payload.dimensions, encoding_format: payload.encoding_format }
+  },
+
+  inputText(input) {
+    return typeof input === 'string' ? input : JSON.stringify(input)
+  },
+
+  withInputs(payload, inputs) {
+    return { ...payload, input: inputs }
+  },
+
+  parseResponse(data) {
+    const response = data as {
+      data?: Array<{ index?: number; embedding?: unknown }>
+      usage?: { prompt_tokens?: number }
+    }
+    const embeddings = [...(response.data || [])]
+      .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+      .map(item => item.embedding)
+    return { embeddings, inputTokens: response.usage?.prompt_tokens }
+  },
+
+  buildResponse(model, embeddings, inputTokens) {
+    return {
+      object: 'list',
+      data: embeddings.map((embedding, index) => ({ object: 'embedding', index, embedding })),
+      model,
+      usage: { prompt_tokens: inputTokens, total_tokens: inputTokens }
+    }
+  }
+}
+
+type GeminiEmbedRequest = { content?: { parts?: Array<{ text?: string }> } }
+
+// The model is carried by the URL, so leave it out of the cached input
+function withoutModel(request: Payload): Payload {
+  const rest = { ...request }
+  delete rest.model
+  return rest
+}
+
+function geminiEmbedText(request: unknown): string {
+  return ((request as GeminiEmbedRequest).content?.parts || []).map(part => part.text || '').join(' ')
+}
+
+// models/{model}:embedContent embeds a single content
+export const geminiEmbeddingFormat: EmbeddingFormat = {
+  id: 'gemini',
+
+  inputs(payload) {
+    return payload.content ? [withoutModel(payload)] : null
+  },
+
+  // The whole request is the input, so options are already part of it
+  options() {
+    return {}
+  },
+
+  inputText: geminiEmbedText,
+
+  withInputs(_payload, inputs) {
+    return inputs[0] as Payload
+  },
+
+  parseResponse(data) {
+    const response = data as { embedding?: unknown; usageMetadata?: { promptTokenCount?: number } }
+    return { embeddings: [response.embedding], inputTokens: response.usageMetadata?.promptTokenCount }
+  },
+
+  buildResponse(_model, embeddings) {
+    return { embedding: embeddings[0] }
+  }
+}
+
+// models/{model}:batchEmbedContents embeds a list of embedContent requests
+export const geminiBatchEmbeddingFormat: EmbeddingFormat = {
+  id: 'gemini-batch',
+
+  inputs(payload) {
+    const { requests } = payload
+    return Array.isArray(requests) && requests.length > 0 && requests.every(request => request?.content)
+      ? requests.map(withoutModel)
+      : null
+  },
+
+  options() {
+    return {}
+  },
+
+  inputText: geminiEmbedText,
+
+  // Each request must name the model in the URL, which a routing rule may have changed
+  withInputs(payload, inputs, model) {
+    return { ...payload, requests: inputs.map(input => ({ ...(input as Payload), model: `models/${model}` })) }
+  },
+
+  parseResponse(data) {
+    const response = data as { embeddings?: unknown[]; usageMetadata?: { promptTokenCount?: number } }
+    return { embeddings: response.embeddings || [], inputTokens: response.usageMetadata?.promptTokenCount }
+  },
+
+  buildResponse(_model, embeddings) {
+    return { embeddings }
+  }
+}
+
+// Picks the embedding format from the upstream URL: Gemini's embed methods or any
+// OpenAI-style /embeddings endpoint. Undefined for non-embedding endpoints.
+export function embeddingFormatFor(endpoint: string): EmbeddingFormat | undefined {
+  let pathname: string
+  try {
+    pathname = new URL(endpoint).pathname
+  } catch {
+    return undefined
+  }
+  const method = parseGeminiModelPath(pathname)?.method
+  if (method === 'embedContent') return geminiEmbeddingFormat
+  if (method === 'batchEmbedContents') return geminiBatchEmbeddingFormat
+  return pathname.endsWith('/embeddings') ? openAIEmbeddingFormat : undefined
+}
+
+// Cache key of one input. The model and any vector-shaping options are part of it.
+export function embeddingCacheKey(model: string, options: Payload, input: unknown): string {
+  return CryptoJS.SHA256(JSON.stringify({ model, options, input, type: 'embedding' })).toString()
+}
@@ -0,0 +1,141 @@
+import { embeddingFormatFor } from '@/lib/embeddings'
+import { estimateImageInputTokens, mediaRequestType } from '@/lib/multimodal'
+import { isOpenAICompatibleEndpoint } from '@/lib/openai-compatible'
+import { calculateCost, defaultOutputTokenCap, PricingOverride } from '@/lib/pricing'
+import { getProviderAdapter, openaiAdapter, providerForHost, providerForModel } from '@/lib/providers'
+import { routeResolver, RoutingRule, selectRoutingRule } from '@/lib/routing-rules'
+import { estimateTokens } from '@/lib/usage'
+
+// Pre-flight cost estimates for proxy request bodies: the model the proxy would
+// route to, its input tokens and what the request can cost at current prices.
+
+export interface EstimateContext {
+  // The CostLLM key's provider credentials
+  credentials: Array<{ provider: string }>
+  rules: RoutingRule[]
+  overrides: PricingOverride[]
+  proxyKeyId: string
+  // Average output tokens of the account's recent requests, by model
+  averageOutputTokens: Record<string, number>
+}
+
+export interface CostRange {
+  min: number
+  expected: number
+  max: number
+}
+
+export interface CostEstimate {
+  model: string
+  routed_model: string
+  provider: string
+  rule_id: string | null
+  request_type: 'chat' | 'embedding'
+  input_tokens: number
+  // The request's output cap, or the model's output limit without one
+  max_output_tokens: number
+  expected_output_tokens: number
+  // min assumes no output, max the full output cap
+  cost: CostRange
+}
+
+// Average output tokens per model, from api_requests rows
+export function averageOutputTokens(rows: Array<{ model: string; output_tokens: number | null }>): Record<string, number> {
+  const totals: Record<string, { tokens: number; count: number }> = {}
+  for (const row of rows) {
+    if (row.output_tokens === null) continue
+    const total = totals[row.model] || (totals[row.model] = { tokens: 0, count: 0 })
+    total.tokens += row.output_tokens
+    total.count++
+  }
+  return Object.fromEntries(Object.entries(totals).map(([model, total]) => [model, Math.round(total.tokens / total.count)]))
+}
+
+// Estimates one request body as the proxy would receive it: /api/proxy bodies carry
+// their `endpoint`, OpenAI-format bodies without one are treated like the /api/v1 routes
+export async function estimateRequest(
+  body: Record<string, unknown>,
+  context: EstimateContext
+): Promise<CostEstimate | { error: string }> {
+  const { endpoint: bodyEndpoint, ...payload } = body
+
+  let endpoint: string | undefined
+  let credential: { provider: string } | undefined
+  if (typeof bodyEndpoint === 'string') {
+    let host
+    try {
+      host = providerForHost(new URL(bodyEndpoint).hostname)
+    } catch {
+      return { error: 'Invalid endpoint URL' }
+    }
+    if (!host) return { error: 'Invalid endpoint host' }
+    endpoint = bodyEndpoint
+    credential = context.credentials.find(c => c.provider === host.id)
+    if (!credential) return { error: 'Endpoint does not match API key provider' }
+  } else {
+    // Like the drop-in routes: prefer the vendor that serves the requested model
+    const kind = 'input' in payload && !('messages' in payload) ? 'embeddings' : 'chat'
+    const candidates = context.credentials.filter(c => getProviderAdapter(c.provider)?.openAICompatible[kind])
+    const preferredProvider = providerForModel(payload.model)?.id
+    credential = candidates.find(c => c.provider === preferredProvider) || candidates[0]
+    if (!credential) return { error: 'No provider credential on this key is supported on this endpoint' }
+    endpoint = getProviderAdapter(credential.provider)!.openAICompatible[kind]!
+  }
+
+  const provider = getProviderAdapter(credential.provider)
+  if (!provider) return { error: `Provider ${credential.provider} is not supported` }
+  const format = isOpenAICompatibleEndpoint(endpoint) ? openaiAdapter : provider
+
+  if (mediaRequestType(endpoint)) {
+    return { error: 'Only chat and embedding requests can be estimated' }
+  }
+  const embeddingFormat = embeddingFormatFor(endpoint)
+  const requestType = embeddingFormat ? 'embedding' : 'chat'
+  const embeddingInputs = embeddingFormat?.inputs(payload)
+  const requestError = embeddingFormat
+    ? (embeddingInputs ? null : 'Missing or invalid model/input in request body')
+    : format.validateRequest(payload)
+  if (requestError) return { error: requestError }
+
+  const model = format.requestModel(endpoint, payload)
+  if (!model) return { error: 'Missing model in request body' }
+  if (!providerForModel(model)) return { error: 'Unsupported model' }
+
+  const inputText = embeddingFormat && embeddingInputs
+    ? embeddingInputs.map(embeddingFormat.inputText).join(' ')
+    : format.inputText(payload)
+  const inputTokens = await estimateTokens(inputText, model)
+    + (requestType === 'chat' ? estimateImageInputTokens(providerForModel(model)?.id, payload) : 0)
+
+  // The routing rules the proxy would apply
+  const resolveRoute = routeResolver({ provider, credential, format, requestType, credentials: context.credentials })
+  const routing = selectRoutingRule(context.rules, { model, requestType, inputText, inputTokens }, resolveRoute)
+  const routedModel = routing?.rule.target_model || model
+  const routedProvider = routing?.route.credential.provider || credential.provider
+
+  // Worst case output: the request's cap, or the most the model can produce
+  const maxOutputTokens = requestType === 'embedding'
+    ? 0
+    : format.maxOutputTokens(payload) ?? defaultOutputTokenCap(routedModel, inputTokens)
+  const average = context.averageOutputTokens[routedModel]
+  const expectedOutputTokens = Math.min(maxOutputTokens, average ?? Math.round(maxOutputTokens / 2))
+
+  const pricing = { overrides: context.overrides, proxyKeyId: context.proxyKeyId, provider: routedProvider }
+  const costFor = (outputTokens: number) => calculateCost(routedModel, { inputTokens, outputTokens }, pricing).cost
+
+  return {
+    model,
+    routed_model: routedModel,
+    provider: routedProvider,
+    rule_id: routing?.rule.id || null,
+    request_type: requestType,
+    input_tokens: inputTokens,
+    max_output_tokens: maxOutputTokens,
+    expected_output_tokens: expectedOutputTokens,
+    cost: {
+      min: costFor(0),
+      expected: costFor(expectedOutputTokens),
+      max: costFor(maxOutputTokens)
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import { calculateCost, CostContext } from '@/lib/pricing'
+
+// One upstream call that failed before the request was served by a later
+// model in the fallback chain. Stored on the api_requests row.
+export interface FallbackAttempt {
+  model: string
+  provider: string
+  status: number
+  error: string
+  latency: number
+  cost: number
+}
+
+// Provider errors worth retrying on another model: server errors, rate limits
+// that outlasted the retries, and timeouts (answered as 408). Other 4xx mean
+// the request itself is wrong and would fail everywhere.
+export function isFallbackStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+// Models to try after the routed one, in order, from a rule's conditions
+export function fallbackModels(conditions: { fallbackChain?: unknown } | null | undefined, model: string): string[] {
+  const chain = Array.isArray(conditions?.fallbackChain) ? conditions.fallbackChain : []
+  const models = chain
+    .filter((entry): entry is string => typeof entry === 'string')
+    .map(entry => entry.trim())
+    .filter(entry => entry && entry !== model)
+  return Array.from(new Set(models))
+}
+
+// Providers do not bill error responses, but a timed-out request may still have
+// been processed, so it is charged for its input
+export function failedAttemptCost(model: string, status: number, inputTokens: number, context: CostContext): number {
+  if (status !== 408) return 0
+  return calculateCost(model, { inputTokens, outputTokens: 0 }, context).cost
+}
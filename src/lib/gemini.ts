@@ -0,0 +1,86 @@
+export const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta'
+
+export type GeminiMethod =
+  | 'generateContent'
+  | 'streamGenerateContent'
+  | 'countTokens'
+  | 'embedContent'
+  | 'batchEmbedContents'
+
+export const geminiMethods: GeminiMethod[] = [
+  'generateContent',
+  'streamGenerateContent',
+  'countTokens',
+  'embedContent',
+  'batchEmbedContents'
+]
+
+type GeminiPart = { text?: string }
+type GeminiContent = { role?: string; parts?: GeminiPart[] }
+
+export function geminiEndpoint(model: string, method: GeminiMethod): string {
+  return `${GEMINI_API_BASE}/models/${model}:${method}`
+}
+
+// Splits a "models/{model}:{method}" URL (or just the "{model}:{method}" segment)
+// into its parts. Gemini carries the model in the path rather than the body.
+export function parseGeminiModelPath(path: string): { model: string; method: string } | null {
+  const match = path.match(/(?:models\/)?([^/:?]+):([A-Za-z]+)(?:\?|$)/)
+  if (!match) return null
+  return { model: match[1], method: match[2] }
+}
+
+// Points an endpoint at a different model, used when a routing rule swaps it
+export function withGeminiModel(endpoint: string, model: string): string {
+  return endpoint.replace(/models\/[^/:?]+:/, `models/${model}:`)
+}
+
+// Gemini authenticates with a `key` query parameter instead of a header
+export function withGeminiApiKey(endpoint: string, apiKey: string): string {
+  const url = new URL(endpoint)
+  url.searchParams.set('key', apiKey)
+  return url.toString()
+}
+
+function partsText(content?: GeminiContent): string {
+  return (content?.parts || [])
+    .map(part => part.text || '')
+    .filter(Boolean)
+    .join(' ')
+}
+
+export function geminiInputText(payload: { contents?: GeminiContent[]; systemInstruction?: GeminiContent }): string {
+  return [
+    partsText(payload.systemInstruction),
+    ...(payload.contents || []).map(partsText)
+  ].filter(Boolean).join(' ')
+}
+
+export function extractGeminiOutput(data: { candidates?: Array<{ content?: GeminiContent }> }): string {
+  return (data.candidates?.[0]?.content?.parts || []).map(part => part.text || '').join('')
+}
+
+export interface GeminiUsageMetadata {
+  promptTokenCount?: number
+  candidatesTokenCount?: number
+  cachedContentTokenCount?: number
+  thoughtsTokenCount?: number
+}
+
+// Thinking tokens are billed as output but not included in candidatesTokenCount
+export function extractGeminiUsage(data: { usageMetadata?: GeminiUsageMetadata }): {
+  inputTokens?: number
+  outputTokens?: number
+  cachedInputTokens?: number
+  reasoningTokens?: number
+} {
+  const usage = data.usageMetadata
+  return {
+    inputTokens: usage?.promptTokenCount,
+    outputTokens: usage?.candidatesTokenCount !== undefined
+      ? usage.candidatesTokenCount + (usage.thoughtsTokenCount || 0)
+      : undefined,
+    cachedInputTokens: usage?.cachedContentTokenCount,
+    reasoningTokens: usage?.thoughtsTokenCount
+  }
+}
@@ -0,0 +1,114 @@
+import { mapStrings, secretPatterns } from '@/lib/redaction'
+
+// Guardrails run on request payloads before they are forwarded: credentials pasted
+// into prompts and known prompt-injection markers. Per CostLLM key, findings are
+// only reported (warn), redacted, or block the request.
+
+export type GuardrailCheck = 'credentials' | 'prompt_injection'
+
+export const guardrailChecks: GuardrailCheck[] = ['credentials', 'prompt_injection']
+
+export type GuardrailAction = 'off' | 'warn' | 'redact' | 'block'
+
+export const guardrailActions: GuardrailAction[] = ['off', 'warn', 'redact', 'block']
+
+export interface GuardrailPolicy {
+  action: GuardrailAction
+  checks: GuardrailCheck[]
+}
+
+export interface GuardrailFinding {
+  check: GuardrailCheck
+  // Which credential pattern or injection marker matched
+  name: string
+  count: number
+}
+
+interface ProxyKeyGuardrailColumns {
+  guardrail_action?: string | null
+  guardrail_checks?: string[] | null
+}
+
+// Phrases and chat-template tokens used to override a model's instructions
+const injectionMarkers: Array<{ name: string; pattern: RegExp }> = [
+  {
+    name: 'ignore_instructions',
+    pattern: /\b(?:ignore|disregard|forget)\s+(?:all\s+|any\s+)?(?:of\s+)?(?:the\s+|your\s+)?(?:previous|prior|above|earlier|preceding)\s+(?:instructions|prompts?|rules|directions)/gi
+  },
+  {
+    name: 'system_prompt_extraction',
+    pattern: /\b(?:reveal|print|show|repeat|output|leak)\s+(?:me\s+)?(?:your|the)\s+(?:system\s+prompt|initial\s+instructions|hidden\s+instructions)/gi
+  },
+  {
+    name: 'role_override',
+    pattern: /\byou\s+are\s+now\s+(?:DAN\b|in\s+developer\s+mode|an?\s+unrestricted)|\b(?:DAN|developer)\s+mode\s+(?:enabled|activated)/gi
+  },
+  {
+    name: 'chat_template_tokens',
+    pattern: /<\|im_start\|>|<\|im_end\|>|<\|system\|>|<\|endoftext\|>|\[INST\]|<<SYS>>/g
+  }
+]
+
+const patternsFor: Record<GuardrailCheck, Array<{ name: string; pattern: RegExp }>> = {
+  credentials: secretPatterns,
+  prompt_injection: injectionMarkers
+}
+
+export function proxyKeyGuardrailPolicy(key: ProxyKeyGuardrailColumns): GuardrailPolicy {
+  return {
+    action: guardrailActions.includes(key.guardrail_action as GuardrailAction)
+      ? key.guardrail_action as GuardrailAction
+      : 'warn',
+    checks: (key.guardrail_checks ?? guardrailChecks).filter((check): check is GuardrailCheck =>
+      guardrailChecks.includes(check as GuardrailCheck))
+  }
+}
+
+// Scans every string in the payload. With 'redact' the matches are replaced in place
+// with [REDACTED:<name>]; other actions leave the payload as it is.
+export function applyGuardrails(payload: Record<string, unknown>, policy: GuardrailPolicy): GuardrailFinding[] {
+  if (policy.action === 'off') return []
+
+  const counts = new Map<string, GuardrailFinding>()
+  const scanned = mapStrings(payload, text => {
+    let result = text
+    for (const check of policy.checks) {
+      for (const { name, pattern } of patternsFor[check]) {
+        result = result.replace(pattern, match => {
+          const finding = counts.get(name) || { check, name, count: 0 }
+          finding.count++
+          counts.set(name, finding)
+          return policy.action === 'redact' ? `[REDACTED:${name}]` : match
+        })
+      }
+    }
+    return result
+  }) as Record<string, unknown>
+
+  if (policy.action === 'redact') {
+    Object.assign(payload, scanned)
+  }
+
+  return Array.from(counts.values())
+}
+
+// Guardrail columns from a proxy key request body, validated. Fields left out are not returned.
+export function guardrailFields(body: Record<string, unknown>): { fields: Record<string, unknown> } | { error: string } {
+  const fields: Record<string, unknown> = {}
+  const { guardrail_action: action, guardrail_checks: checks } = body
+
+  if (action !== undefined) {
+    if (!guardrailActions.includes(action as GuardrailAction)) {
+      return { error: `guardrail_action must be one of ${guardrailActions.join(', ')}` }
+    }
+    fields.guardrail_action = action
+  }
+  if (checks !== undefined) {
+    if (!Array.isArray(checks) || checks.some(check => !guardrailChecks.includes(check))) {
+      return { error: `guardrail_checks must be a list of ${guardrailChecks.join(', ')}` }
+    }
+    fields.guardrail_checks = checks
+  }
+
+  return { fields }
+}
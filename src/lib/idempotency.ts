@@ -0,0 +1,78 @@
+import { createHash } from 'crypto'
+import { NextResponse } from 'next/server'
+
+// Idempotency-Key support for the proxy. A retry carrying the same key and an
+// identical request gets the first response back instead of a second provider
+// call; the same key with a different request is rejected. Keys are scoped to the
+// CostLLM key that sent them and stored in idempotency_keys.
+
+// How long a served response is replayed
+export const idempotencyWindowMs = 24 * 60 * 60 * 1000
+
+// How long a request in flight holds its key. A request that never finishes (a
+// crash or a dropped stream) frees the key for retries after this.
+export const idempotencyLockMs = 10 * 60 * 1000
+
+export const maxIdempotencyKeyLength = 255
+
+export interface StoredResponse {
+  status: number
+  headers: Record<string, string>
+  body: string
+}
+
+// Headers replayed with a stored response; rate limit headers are always current
+const replayedHeaders = /^(content-type|x-costllm-)/i
+
+// Error message for an unusable Idempotency-Key header
+export function invalidIdempotencyKey(key: string): string | null {
+  if (!key.trim()) return 'Idempotency-Key must not be empty'
+  if (key.length > maxIdempotencyKeyLength) {
+    return `Idempotency-Key must be at most ${maxIdempotencyKeyLength} characters`
+  }
+  return null
+}
+
+// JSON with object keys sorted at every level. Bodies are parsed JSON, so values
+// are plain objects, arrays and primitives.
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`
+  }
+  if (value && typeof value === 'object') {
+    const object = value as Record<string, unknown>
+    return `{${Object.keys(object).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(object[key])}`).join(',')}}`
+  }
+  return JSON.stringify(value)
+}
+
+// Identifies a request by route and body, whatever order the body's keys come in.
+// Multipart uploads are identified by their text fields and the uploaded file's
+// bytes, so a new boundary on retry does not count as a different request.
+export async function requestFingerprint(
+  path: string,
+  body: Record<string, unknown>,
+  file?: FormDataEntryValue | null
+): Promise<string> {
+  const hash = createHash('sha256').update(path).update('\n').update(canonicalJson(body))
+  if (file instanceof Blob) {
+    hash.update('\n').update(Buffer.from(await file.arrayBuffer()))
+  }
+  return hash.digest('hex')
+}
+
+export function storedResponseHeaders(headers: Headers): Record<string, string> {
+  const stored: Record<string, string> = {}
+  headers.forEach((value, name) => {
+    if (replayedHeaders.test(name)) stored[name] = value
+  })
+  return stored
+}
+
+// The stored response, marked as a replay
+export function replayResponse(stored: StoredResponse): NextResponse {
+  return new NextResponse(stored.body, {
+    status: stored.status,
+    headers: { ...stored.headers, 'Idempotent-Replayed': 'true' }
+  })
+}
@@ -0,0 +1,97 @@
+// Spreads a CostLLM key's traffic across its provider credentials of the same
+// provider. Healthy credentials take turns by weight (smooth weighted round-robin);
+// credentials that answered 429 sit out until their rate limit resets, and those
+// that answered 401 are dropped. When every credential is rate limited, the one
+// limited longest ago goes first since it is the most likely to have recovered.
+
+export interface PooledCredential {
+  id: string
+  // Relative share of traffic, 1 when unset
+  weight?: number | null
+  // Persisted on api_keys so other server instances skip the credential too
+  rate_limited_until?: string | null
+  last_rate_limited_at?: string | null
+}
+
+// How long a credential sits out after a 429 without a Retry-After
+export const defaultRateLimitCooldownSeconds = 60
+
+function timestamp(value: string | null | undefined): number {
+  const parsed = value ? Date.parse(value) : NaN
+  return Number.isNaN(parsed) ? 0 : parsed
+}
+
+export class KeyPool {
+  // Smooth weighted round-robin state per `${poolId}:${credentialId}`
+  private currentWeights = new Map<string, number>()
+  // Exclusions seen by this process, ahead of the api_keys write landing
+  private rateLimited = new Map<string, { at: number; until: number }>()
+  private invalid = new Set<string>()
+
+  // Credentials in the order to try them: the round-robin pick, the other
+  // available ones, then rate-limited ones from least recently limited
+  order<T extends PooledCredential>(poolId: string, credentials: T[], now = Date.now()): T[] {
+    const usable = credentials.filter(credential => !this.invalid.has(credential.id))
+    const limitedUntil = (credential: T) =>
+      Math.max(this.rateLimited.get(credential.id)?.until ?? 0, timestamp(credential.rate_limited_until))
+    const limitedAt = (credential: T) =>
+      Math.max(this.rateLimited.get(credential.id)?.at ?? 0, timestamp(credential.last_rate_limited_at))
+
+    const available = usable.filter(credential => limitedUntil(credential) <= now)
+    const limited = usable
+      .filter(credential => limitedUntil(credential) > now)
+      .sort((a, b) => limitedAt(a) - limitedAt(b))
+
+    if (available.length === 0) return limited
+    const next = this.nextWeighted(poolId, available)
+    return [next, ...available.filter(credential => credential !== next), ...limited]
+  }
+
+  markRateLimited(credentialId: string, retryAfterSeconds: number | null, now = Date.now()): Date {
+    const until = now + (retryAfterSeconds ?? defaultRateLimitCooldownSeconds) * 1000
+    this.rateLimited.set(credentialId, { at: now, until })
+    return new Date(until)
+  }
+
+  markInvalid(credentialId: string) {
+    this.invalid.add(credentialId)
+  }
+
+  // Re-enabled credentials (e.g. after the key was fixed) rejoin the pool
+  reset(credentialId: string) {
+    this.invalid.delete(credentialId)
+    this.rateLimited.delete(credentialId)
+  }
+
+  private nextWeighted<T extends PooledCredential>(poolId: string, credentials: T[]): T {
+    let total = 0
+    let best: T = credentials[0]
+    let bestWeight = -Infinity
+    for (const credential of credentials) {
+      const weight = Math.max(1, credential.weight ?? 1)
+      const key = `${poolId}:${credential.id}`
+      const current = (this.currentWeights.get(key) ?? 0) + weight
+      this.currentWeights.set(key, current)
+      total += weight
+      if (current > bestWeight) {
+        best = credential
+        bestWeight = current
+      }
+    }
+    const bestKey = `${poolId}:${best.id}`
+    this.currentWeights.set(bestKey, bestWeight - total)
+    return best
+  }
+}
+
+// Seconds from a Retry-After header (delta-seconds or an HTTP date)
+export function retryAfterSeconds(header: string | null, now = Date.now()): number | null {
+  if (!header) return null
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, Math.ceil((date - now) / 1000))
+}
+
+// Global key pool shared by all requests of this process
+export const keyPool = new KeyPool()
@@ -151,6 +151,7 @@ export const apiLogger = new Logger('api')
 export const budgetLogger = new Logger('budget')
 export const cacheLogger = new Logger('cache')
 export const notificationLogger = new Logger('notification')
+export const securityLogger = new Logger('security')
 
 // Global error handler
 export function handleGlobalError(error: Error, context?: Record<string, unknown>) {
@@ -0,0 +1,203 @@
+// Cost accounting for non-text traffic: images sent to vision models, image
+// generation and audio transcription. Providers report usage for vision requests,
+// so the image token estimates here only back routing checks and the fallback
+// when usage is missing.
+
+type Payload = Record<string, unknown>
+
+export type MediaRequestType = 'image' | 'audio'
+
+// An image in a chat request. data is base64 when the image is inlined; remote
+// images are not fetched, so their size is unknown.
+export interface ImageInput {
+  data?: string
+  detail?: string
+}
+
+export interface ImageDimensions {
+  width: number
+  height: number
+}
+
+// Assumed for images whose size cannot be read from the request
+const defaultImageDimensions: ImageDimensions = { width: 1024, height: 1024 }
+
+// Assumed bitrate for compressed audio when the provider does not report duration (128 kbps)
+const fallbackAudioBytesPerSecond = 16000
+
+export function mediaRequestType(endpoint: string): MediaRequestType | undefined {
+  let pathname: string
+  try {
+    pathname = new URL(endpoint).pathname
+  } catch {
+    return undefined
+  }
+  if (pathname.endsWith('/images/generations')) return 'image'
+  if (pathname.endsWith('/audio/transcriptions') || pathname.endsWith('/audio/translations')) return 'audio'
+  return undefined
+}
+
+function dataUrlBase64(url: string): string | undefined {
+  const match = /^data:[^;,]+;base64,([\s\S]*)$/.exec(url)
+  return match ? match[1] : undefined
+}
+
+// Images in OpenAI (image_url parts), Anthropic (image blocks) and Gemini
+// (inlineData / fileData parts) requests
+export function requestImages(payload: Payload): ImageInput[] {
+  const images: ImageInput[] = []
+
+  const messages = Array.isArray(payload.messages) ? payload.messages : []
+  for (const message of messages) {
+    const content = (message as { content?: unknown })?.content
+    if (!Array.isArray(content)) continue
+    for (const block of content) {
+      if (block?.type === 'image_url') {
+        const imageUrl = typeof block.image_url === 'string' ? { url: block.image_url } : block.image_url || {}
+        images.push({ data: dataUrlBase64(imageUrl.url || ''), detail: imageUrl.detail })
+      } else if (block?.type === 'image') {
+        images.push({ data: block.source?.type === 'base64' ? block.source.data : undefined })
+      }
+    }
+  }
+
+  const contents = Array.isArray(payload.contents) ? payload.contents : []
+  for (const content of contents) {
+    for (const part of (content as { parts?: Payload[] })?.parts || []) {
+      const inline = (part.inlineData || part.inline_data) as { mimeType?: string; mime_type?: string; data?: string } | undefined
+      const mimeType = inline?.mimeType || inline?.mime_type || ''
+      if (inline && mimeType.startsWith('image/')) {
+        images.push({ data: inline.data })
+      } else if (part.fileData || part.file_data) {
+        const file = (part.fileData || part.file_data) as { mimeType?: string; mime_type?: string }
+        if ((file.mimeType || file.mime_type || '').startsWith('image/')) images.push({})
+      }
+    }
+  }
+
+  return images
+}
+
+// Reads width and height from a PNG, GIF, JPEG or WebP header
+export function imageDimensions(base64: string): ImageDimensions | undefined {
+  let bytes: Buffer
+  try {
+    bytes = Buffer.from(base64, 'base64')
+  } catch {
+    return undefined
+  }
+  if (bytes.length < 24) return undefined
+
+  // PNG: IHDR is the first chunk
+  if (bytes.readUInt32BE(0) === 0x89504e47) {
+    return { width: bytes.readUInt32BE(16), height: bytes.readUInt32BE(20) }
+  }
+  // GIF: logical screen size
+  if (bytes.toString('ascii', 0, 3) === 'GIF') {
+    return { width: bytes.readUInt16LE(6), height: bytes.readUInt16LE(8) }
+  }
+  // WebP: lossy, lossless and extended variants
+  if (bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WEBP' && bytes.length >= 30) {
+    const chunk = bytes.toString('ascii', 12, 16)
+    if (chunk === 'VP8 ') {
+      return { width: bytes.readUInt16LE(26) & 0x3fff, height: bytes.readUInt16LE(28) & 0x3fff }
+    }
+    if (chunk === 'VP8L') {
+      const bits = bytes.readUInt32LE(21)
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 }
+    }
+    if (chunk === 'VP8X') {
+      return { width: bytes.readUIntLE(24, 3) + 1, height: bytes.readUIntLE(27, 3) + 1 }
+    }
+    return undefined
+  }
+  // JPEG: walk the segments to the first start-of-frame marker
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return undefined
+      const marker = bytes[offset + 1]
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+      if (isStartOfFrame) {
+        return { width: bytes.readUInt16BE(offset + 7), height: bytes.readUInt16BE(offset + 5) }
+      }
+      offset += 2 + bytes.readUInt16BE(offset + 2)
+    }
+  }
+  return undefined
+}
+
+// Input tokens one image costs on a provider's vision models:
+// OpenAI bills 85 tokens plus 170 per 512px tile after scaling to fit 2048px
+// and a 768px short side (85 total at low detail); Anthropic bills width×height/750
+// after scaling to 1568px and ~1.15MP; Gemini bills 258 tokens per 768px tile,
+// or 258 for images up to 384px on both sides.
+export function imageInputTokens(provider: string | undefined, image: ImageInput): number {
+  const { width, height } = (image.data && imageDimensions(image.data)) || defaultImageDimensions
+
+  if (provider === 'anthropic') {
+    const scale = Math.min(1, 1568 / Math.max(width, height), Math.sqrt(1_150_000 / (width * height)))
+    return Math.ceil((width * scale * height * scale) / 750)
+  }
+
+  if (provider === 'google') {
+    if (width <= 384 && height <= 384) return 258
+    return Math.ceil(width / 768) * Math.ceil(height / 768) * 258
+  }
+
+  if (image.detail === 'low') return 85
+  const fit = Math.min(1, 2048 / Math.max(width, height))
+  const shortSide = Math.min(width, height) * fit
+  const scale = fit * Math.min(1, 768 / shortSide)
+  const tiles = Math.ceil((width * scale) / 512) * Math.ceil((height * scale) / 512)
+  return 85 + 170 * tiles
+}
+
+export function estimateImageInputTokens(provider: string | undefined, payload: Payload): number {
+  return requestImages(payload).reduce((total, image) => total + imageInputTokens(provider, image), 0)
+}
+
+// Images billed for a generation request: as many as were returned, at the
+// requested quality and size
+export function generatedImages(payload: Payload, data: unknown): { count: number; quality?: string; size?: string } {
+  const returned = (data as { data?: unknown[] })?.data
+  const requested = Number(payload.n) || 1
+  return {
+    count: Array.isArray(returned) ? returned.length : requested,
+    quality: typeof payload.quality === 'string' ? payload.quality : undefined,
+    size: typeof payload.size === 'string' ? payload.size : undefined
+  }
+}
+
+// Duration from a transcription response: usage.seconds on newer responses, or
+// the duration field of verbose_json
+export function reportedAudioSeconds(data: unknown): number | undefined {
+  const response = data as { usage?: { type?: string; seconds?: number }; duration?: number } | null
+  if (response?.usage?.type === 'duration' && typeof response.usage.seconds === 'number') {
+    return response.usage.seconds
+  }
+  return typeof response?.duration === 'number' ? response.duration : undefined
+}
+
+// Duration of an uploaded audio file: exact for WAV, otherwise approximated from
+// the file size at a typical compressed bitrate
+export async function estimateAudioSeconds(file: Blob): Promise<number> {
+  const bytes = Buffer.from(await file.arrayBuffer())
+
+  if (bytes.length >= 12 && bytes.toString('ascii', 0, 4) === 'RIFF' && bytes.toString('ascii', 8, 12) === 'WAVE') {
+    let byteRate = 0
+    let offset = 12
+    while (offset + 8 <= bytes.length) {
+      const chunk = bytes.toString('ascii', offset, offset + 4)
+      const size = bytes.readUInt32LE(offset + 4)
+      if (chunk === 'fmt ' && offset + 20 <= bytes.length) {
+        byteRate = bytes.readUInt32LE(offset + 16)
+      } else if (chunk === 'data' && byteRate > 0) {
+        return Math.min(size, bytes.length - offset - 8) / byteRate
+      }
+      offset += 8 + size + (size % 2)
+    }
+  }
+
+  return bytes.length / fallbackAudioBytesPerSecond
+}
@@ -0,0 +1,6 @@
+// True when the upstream speaks the OpenAI wire format regardless of vendor,
+// so responses and stream chunks should be parsed as OpenAI ones
+export function isOpenAICompatibleEndpoint(endpoint: string): boolean {
+  const { pathname } = new URL(endpoint)
+  return pathname.endsWith('/chat/completions') || pathname.endsWith('/embeddings')
+}
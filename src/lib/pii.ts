@@ -0,0 +1,199 @@
+import { emailPattern, mapStrings } from '@/lib/redaction'
+
+// PII filter applied to request payloads before they are forwarded. Per CostLLM key,
+// detected values either block the request, are masked, or are swapped for
+// reversible tokens that are put back into the response.
+
+export type PiiKind = 'email' | 'phone' | 'us_ssn' | 'uk_nino' | 'in_aadhaar'
+
+export const piiKinds: PiiKind[] = ['email', 'phone', 'us_ssn', 'uk_nino', 'in_aadhaar']
+
+export type PiiAction = 'off' | 'block' | 'mask' | 'tokenize'
+
+export const piiActions: PiiAction[] = ['off', 'block', 'mask', 'tokenize']
+
+export interface PiiPolicy {
+  action: PiiAction
+  kinds: PiiKind[]
+}
+
+export interface PiiDetection {
+  kind: PiiKind
+  count: number
+}
+
+export interface PiiScrubResult {
+  detections: PiiDetection[]
+  // Original values by token, filled when the policy tokenizes
+  tokens: Map<string, string>
+}
+
+interface ProxyKeyPiiColumns {
+  pii_action?: string | null
+  pii_types?: string[] | null
+}
+
+interface Detector {
+  kind: PiiKind
+  pattern: RegExp
+  isValid?: (match: string) => boolean
+}
+
+// Verhoeff checksum used by Aadhaar numbers
+const verhoeffD = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 2, 3, 4, 0, 6, 7, 8, 9, 5], [2, 3, 4, 0, 1, 7, 8, 9, 5, 6],
+  [3, 4, 0, 1, 2, 8, 9, 5, 6, 7], [4, 0, 1, 2, 3, 9, 5, 6, 7, 8], [5, 9, 8, 7, 6, 0, 4, 3, 2, 1],
+  [6, 5, 9, 8, 7, 1, 0, 4, 3, 2], [7, 6, 5, 9, 8, 2, 1, 0, 4, 3], [8, 7, 6, 5, 9, 3, 2, 1, 0, 4],
+  [9, 8, 7, 6, 5, 4, 3, 2, 1, 0]
+]
+const verhoeffP = [
+  [0, 1, 2, 3, 4, 5, 6, 7, 8, 9], [1, 5, 7, 6, 2, 8, 3, 0, 9, 4], [5, 8, 0, 3, 7, 9, 6, 1, 4, 2],
+  [8, 9, 1, 6, 0, 4, 3, 5, 2, 7], [9, 4, 5, 3, 1, 2, 6, 8, 7, 0], [4, 2, 8, 6, 5, 7, 3, 9, 0, 1],
+  [2, 7, 9, 3, 8, 0, 6, 4, 1, 5], [7, 0, 4, 6, 9, 1, 3, 2, 5, 8]
+]
+
+export function isVerhoeffValid(digits: string): boolean {
+  let check = 0
+  for (let i = 0; i < digits.length; i++) {
+    check = verhoeffD[check][verhoeffP[i % 8][Number(digits[digits.length - 1 - i])]]
+  }
+  return check === 0
+}
+
+const digitCount = (match: string) => match.replace(/\D/g, '').length
+
+// Applied in order, so national ids are taken before the looser phone pattern sees their digits
+const detectors: Detector[] = [
+  { kind: 'email', pattern: emailPattern },
+  // Dashed SSNs; area 000, 666 and 9xx, group 00 and serial 0000 are never issued
+  { kind: 'us_ssn', pattern: /\b(?!000|666|9\d\d)\d{3}-(?!00)\d{2}-(?!0000)\d{4}\b/g },
+  // National Insurance numbers, excluding prefixes HMRC never allocates
+  {
+    kind: 'uk_nino',
+    pattern: /\b(?!BG|GB|KN|NK|NT|TN|ZZ)[A-CEGHJ-PR-TW-Z][A-CEGHJ-NPR-TW-Z] ?\d{2} ?\d{2} ?\d{2} ?[A-D]\b/g
+  },
+  {
+    kind: 'in_aadhaar',
+    pattern: /\b[2-9]\d{3}[ -]?\d{4}[ -]?\d{4}\b/g,
+    isValid: match => isVerhoeffValid(match.replace(/\D/g, ''))
+  },
+  // International numbers with a leading +, or separated 3-3-4 national numbers.
+  // Bare digit runs are left alone: they are more often ids and timestamps.
+  {
+    kind: 'phone',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?(?:\(\d{1,4}\)[ .-]?)?\d(?:[ .-]?\d){5,12}|(?:\(\d{3}\) ?|\d{3}[ .-])\d{3}[ .-]\d{4})(?!\w)/g,
+    isValid: match => digitCount(match) >= 10 && digitCount(match) <= 15
+  }
+]
+
+const tokenPattern = /\[PII_[A-Z_]+_\d+\]/g
+
+// The end of a streamed text that may be the start of a token split across events
+const partialTokenPattern = /\[(?:P(?:I(?:I(?:_[A-Z_]*\d*)?)?)?)?$/
+
+export function proxyKeyPiiPolicy(key: ProxyKeyPiiColumns): PiiPolicy {
+  return {
+    action: piiActions.includes(key.pii_action as PiiAction) ? key.pii_action as PiiAction : 'off',
+    kinds: (key.pii_types ?? piiKinds).filter((kind): kind is PiiKind => piiKinds.includes(kind as PiiKind))
+  }
+}
+
+// Finds PII in the payload and, unless the policy blocks or is off, replaces it in
+// place with a mask or a token. The same value always gets the same token.
+export function scrubPii(payload: Record<string, unknown>, policy: PiiPolicy): PiiScrubResult {
+  const tokens = new Map<string, string>()
+  if (policy.action === 'off' || policy.kinds.length === 0) {
+    return { detections: [], tokens }
+  }
+
+  const counts = new Map<PiiKind, number>()
+  const tokensByValue = new Map<string, string>()
+  const replace = (kind: PiiKind, match: string) => {
+    counts.set(kind, (counts.get(kind) || 0) + 1)
+    if (policy.action === 'block') return match
+    if (policy.action === 'mask') return `[REDACTED:${kind}]`
+
+    let token = tokensByValue.get(match)
+    if (!token) {
+      const label = kind.toUpperCase()
+      const sameKind = Array.from(tokensByValue.values()).filter(existing => existing.startsWith(`[PII_${label}_`)).length
+      token = `[PII_${label}_${sameKind + 1}]`
+      tokensByValue.set(match, token)
+      tokens.set(token, match)
+    }
+    return token
+  }
+
+  const scrubbed = mapStrings(payload, text => {
+    let result = text
+    for (const detector of detectors) {
+      if (!policy.kinds.includes(detector.kind)) continue
+      result = result.replace(detector.pattern, match =>
+        detector.isValid && !detector.isValid(match) ? match : replace(detector.kind, match))
+    }
+    return result
+  }) as Record<string, unknown>
+
+  if (policy.action !== 'block') {
+    Object.assign(payload, scrubbed)
+  }
+
+  return {
+    detections: piiKinds.filter(kind => counts.has(kind)).map(kind => ({ kind, count: counts.get(kind)! })),
+    tokens
+  }
+}
+
+const restoreText = (text: string, tokens: Map<string, string>) =>
+  text.replace(tokenPattern, token => tokens.get(token) ?? token)
+
+// Puts the original values back wherever a response repeats a token
+export function restorePii<T>(value: T, tokens: Map<string, string>): T {
+  if (tokens.size === 0) return value
+  return mapStrings(value, text => restoreText(text, tokens)) as T
+}
+
+// Restores tokens in streamed events. A token can arrive split over several text
+// deltas, so a trailing partial token is held back and prepended to the next
+// delta at the same position.
+export class PiiStreamRestorer {
+  private tokens: Map<string, string>
+  private pending = new Map<string, string>()
+
+  constructor(tokens: Map<string, string>) {
+    this.tokens = tokens
+  }
+
+  restore<T>(event: T): T {
+    return mapStrings(event, (text, path) => {
+      const combined = (this.pending.get(path) || '') + text
+      this.pending.delete(path)
+      const restored = restoreText(combined, this.tokens)
+      const partial = restored.match(partialTokenPattern)
+      if (!partial) return restored
+      this.pending.set(path, partial[0])
+      return restored.slice(0, restored.length - partial[0].length)
+    }) as T
+  }
+}
+
+// PII columns from a proxy key request body, validated. Fields left out are not returned.
+export function piiFields(body: Record<string, unknown>): { fields: Record<string, unknown> } | { error: string } {
+  const fields: Record<string, unknown> = {}
+  const { pii_action: action, pii_types: kinds } = body
+
+  if (action !== undefined) {
+    if (!piiActions.includes(action as PiiAction)) {
+      return { error: `pii_action must be one of ${piiActions.join(', ')}` }
+    }
+    fields.pii_action = action
+  }
+  if (kinds !== undefined) {
+    if (!Array.isArray(kinds) || kinds.some(kind => !piiKinds.includes(kind))) {
+      return { error: `pii_types must be a list of ${piiKinds.join(', ')}` }
+    }
+    fields.pii_types = kinds
+  }
+
+  return { fields }
+}
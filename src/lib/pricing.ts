@@ -0,0 +1,333 @@
+// Versioned model pricing catalog. Token prices are USD per 1M tokens and keyed by
+// model id; snapshots and aliases are priced as their base model (see
+// catalogModel) unless listed themselves. Image and audio models add per-image
+// and per-minute prices. When a provider changes a price, add a
+// new entry with a later effectiveFrom instead of editing the old one, so costs
+// already logged in api_requests stay traceable to the version that produced them.
+
+export interface ModelPrice {
+  model: string
+  provider: string
+  // ISO date (UTC) from which this price applies
+  effectiveFrom: string
+  input: number
+  output: number
+  // Prompt tokens served from the provider's prompt cache
+  cachedInput?: number
+  // Batch API prices, when the provider offers one
+  batchInput?: number
+  batchOutput?: number
+  // Image generation: USD per image keyed by `${quality}:${size}`. The first key
+  // is the model's default quality and size.
+  imagePrices?: Record<string, number>
+  // Transcription and translation: USD per minute of input audio
+  audioMinute?: number
+  // Most output tokens one response may have, for chat models
+  maxOutputTokens?: number
+  contextWindow: number
+}
+
+// What a request is billed by, recorded as api_requests.unit_type
+export type UnitType = 'tokens' | 'images' | 'audio_seconds'
+
+export interface PricedUsage {
+  inputTokens: number
+  outputTokens: number
+  // Portion of inputTokens read from the provider's prompt cache
+  cachedInputTokens?: number
+  batch?: boolean
+  // Generated images, priced per image by quality and size
+  images?: { count: number; quality?: string; size?: string }
+  // Seconds of input audio, priced per minute
+  audioSeconds?: number
+}
+
+// A negotiated price from pricing_overrides. Scoped to every key of the user or to
+// one proxy key, and to a model, a provider or everything. Either a percentage off
+// the catalog price or absolute per-model prices (USD per 1M tokens), or both.
+export interface PricingOverride {
+  id: string
+  proxy_key_id: string | null
+  provider: string | null
+  model: string | null
+  discount_percent: number | string | null
+  input_price: number | string | null
+  output_price: number | string | null
+}
+
+export interface CostContext {
+  at?: Date
+  overrides?: PricingOverride[]
+  proxyKeyId?: string | null
+  // Provider billing the request, for models missing from the catalog
+  provider?: string
+  // Price models with no catalog entry or override at the provider's most expensive
+  // catalog rates instead of zero, e.g. where a blocking budget has to be enforced
+  chargeUnpriced?: boolean
+}
+
+export interface CostResult {
+  cost: number
+  // Cost at catalog prices, before any override
+  listCost: number
+  // `${model}@${effectiveFrom}`, or null when the model has no catalog entry
+  priceVersion: string | null
+  overrideId: string | null
+  // Neither the catalog nor an override prices the model
+  unpriced: boolean
+}
+
+export const pricingCatalog: ModelPrice[] = [
+  // OpenAI
+  { model: 'gpt-3.5-turbo', provider: 'openai', effectiveFrom: '2023-11-06', input: 1.0, output: 2.0, maxOutputTokens: 4096, contextWindow: 16385 },
+  { model: 'gpt-3.5-turbo', provider: 'openai', effectiveFrom: '2024-01-25', input: 0.5, output: 1.5, batchInput: 0.25, batchOutput: 0.75, maxOutputTokens: 4096, contextWindow: 16385 },
+  { model: 'gpt-3.5-turbo-16k', provider: 'openai', effectiveFrom: '2023-06-13', input: 3.0, output: 4.0, maxOutputTokens: 4096, contextWindow: 16385 },
+  { model: 'gpt-4', provider: 'openai', effectiveFrom: '2023-03-14', input: 30.0, output: 60.0, batchInput: 15.0, batchOutput: 30.0, maxOutputTokens: 8192, contextWindow: 8192 },
+  { model: 'gpt-4-32k', provider: 'openai', effectiveFrom: '2023-03-14', input: 60.0, output: 120.0, batchInput: 30.0, batchOutput: 60.0, maxOutputTokens: 8192, contextWindow: 32768 },
+  { model: 'gpt-4-turbo', provider: 'openai', effectiveFrom: '2024-04-09', input: 10.0, output: 30.0, batchInput: 5.0, batchOutput: 15.0, maxOutputTokens: 4096, contextWindow: 128000 },
+  { model: 'gpt-4o', provider: 'openai', effectiveFrom: '2024-05-13', input: 5.0, output: 15.0, batchInput: 2.5, batchOutput: 7.5, maxOutputTokens: 4096, contextWindow: 128000 },
+  { model: 'gpt-4o', provider: 'openai', effectiveFrom: '2024-10-02', input: 2.5, output: 10.0, cachedInput: 1.25, batchInput: 1.25, batchOutput: 5.0, maxOutputTokens: 16384, contextWindow: 128000 },
+  // The launch snapshot kept its original price when gpt-4o moved to the cheaper one
+  { model: 'gpt-4o-2024-05-13', provider: 'openai', effectiveFrom: '2024-05-13', input: 5.0, output: 15.0, batchInput: 2.5, batchOutput: 7.5, maxOutputTokens: 4096, contextWindow: 128000 },
+  { model: 'gpt-4o-mini', provider: 'openai', effectiveFrom: '2024-07-18', input: 0.15, output: 0.6, cachedInput: 0.075, batchInput: 0.075, batchOutput: 0.3, maxOutputTokens: 16384, contextWindow: 128000 },
+  { model: 'text-embedding-3-small', provider: 'openai', effectiveFrom: '2024-01-25', input: 0.02, output: 0, batchInput: 0.01, contextWindow: 8191 },
+  { model: 'text-embedding-3-large', provider: 'openai', effectiveFrom: '2024-01-25', input: 0.13, output: 0, batchInput: 0.065, contextWindow: 8191 },
+  { model: 'text-embedding-ada-002', provider: 'openai', effectiveFrom: '2022-12-15', input: 0.1, output: 0, batchInput: 0.05, contextWindow: 8191 },
+  {
+    model: 'dall-e-2', provider: 'openai', effectiveFrom: '2023-11-06', input: 0, output: 0, contextWindow: 1000,
+    imagePrices: { 'standard:1024x1024': 0.02, 'standard:512x512': 0.018, 'standard:256x256': 0.016 }
+  },
+  {
+    model: 'dall-e-3', provider: 'openai', effectiveFrom: '2023-11-06', input: 0, output: 0, contextWindow: 4000,
+    imagePrices: {
+      'standard:1024x1024': 0.04, 'standard:1024x1792': 0.08, 'standard:1792x1024': 0.08,
+      'hd:1024x1024': 0.08, 'hd:1024x1792': 0.12, 'hd:1792x1024': 0.12
+    }
+  },
+  {
+    model: 'gpt-image-1', provider: 'openai', effectiveFrom: '2025-04-23', input: 5.0, output: 0, cachedInput: 1.25, contextWindow: 32000,
+    imagePrices: {
+      'medium:1024x1024': 0.042, 'medium:1024x1536': 0.063, 'medium:1536x1024': 0.063,
+      'low:1024x1024': 0.011, 'low:1024x1536': 0.016, 'low:1536x1024': 0.016,
+      'high:1024x1024': 0.167, 'high:1024x1536': 0.25, 'high:1536x1024': 0.25
+    }
+  },
+  { model: 'whisper-1', provider: 'openai', effectiveFrom: '2023-03-01', input: 0, output: 0, audioMinute: 0.006, contextWindow: 0 },
+  { model: 'gpt-4o-transcribe', provider: 'openai', effectiveFrom: '2025-03-20', input: 0, output: 0, audioMinute: 0.006, contextWindow: 16000 },
+  { model: 'gpt-4o-mini-transcribe', provider: 'openai', effectiveFrom: '2025-03-20', input: 0, output: 0, audioMinute: 0.003, contextWindow: 16000 },
+
+  // Anthropic
+  { model: 'claude-3-opus-20240229', provider: 'anthropic', effectiveFrom: '2024-03-04', input: 15.0, output: 75.0, cachedInput: 1.5, batchInput: 7.5, batchOutput: 37.5, maxOutputTokens: 4096, contextWindow: 200000 },
+  { model: 'claude-3-sonnet-20240229', provider: 'anthropic', effectiveFrom: '2024-03-04', input: 3.0, output: 15.0, batchInput: 1.5, batchOutput: 7.5, maxOutputTokens: 4096, contextWindow: 200000 },
+  { model: 'claude-3-haiku-20240307', provider: 'anthropic', effectiveFrom: '2024-03-13', input: 0.25, output: 1.25, cachedInput: 0.03, batchInput: 0.125, batchOutput: 0.625, maxOutputTokens: 4096, contextWindow: 200000 },
+  { model: 'claude-3-5-sonnet-20241022', provider: 'anthropic', effectiveFrom: '2024-10-22', input: 3.0, output: 15.0, cachedInput: 0.3, batchInput: 1.5, batchOutput: 7.5, maxOutputTokens: 8192, contextWindow: 200000 },
+  { model: 'claude-3-5-haiku-20241022', provider: 'anthropic', effectiveFrom: '2024-11-04', input: 0.8, output: 4.0, cachedInput: 0.08, batchInput: 0.4, batchOutput: 2.0, maxOutputTokens: 8192, contextWindow: 200000 },
+
+  // Google
+  { model: 'gemini-pro', provider: 'google', effectiveFrom: '2024-02-15', input: 0.5, output: 1.5, maxOutputTokens: 2048, contextWindow: 32760 },
+  { model: 'gemini-pro-vision', provider: 'google', effectiveFrom: '2024-02-15', input: 0.5, output: 1.5, maxOutputTokens: 4096, contextWindow: 16384 },
+  { model: 'gemini-1.5-pro', provider: 'google', effectiveFrom: '2024-10-01', input: 1.25, output: 5.0, cachedInput: 0.3125, maxOutputTokens: 8192, contextWindow: 2000000 },
+  { model: 'gemini-1.5-flash', provider: 'google', effectiveFrom: '2024-08-12', input: 0.075, output: 0.3, cachedInput: 0.01875, maxOutputTokens: 8192, contextWindow: 1000000 },
+  { model: 'text-embedding-004', provider: 'google', effectiveFrom: '2024-05-14', input: 0, output: 0, contextWindow: 2048 },
+  { model: 'gemini-embedding-001', provider: 'google', effectiveFrom: '2025-07-14', input: 0.15, output: 0, batchInput: 0.075, contextWindow: 2048 }
+]
+
+// Aliases whose catalog model cannot be read off the id
+const modelAliases: Record<string, string> = {
+  'gpt-4-turbo-preview': 'gpt-4-turbo',
+  'gpt-4-1106-preview': 'gpt-4-turbo',
+  'gpt-4-0125-preview': 'gpt-4-turbo'
+}
+
+// Suffixes that name a version of a catalog model: -latest, dated snapshots
+// (-2024-08-06, -20240620, -0613) and Gemini's numbered versions (-002)
+const versionSuffix = /-(latest|\d{4}-\d{2}-\d{2}|\d{8}|\d{4}|\d{3})$/
+
+// The catalog model a model id is priced as: the id itself, or for snapshots and
+// aliases their base model. Anthropic lists dated ids only, so an undated or
+// unlisted Claude version resolves to the family's newest dated entry.
+// Undefined for ids the catalog has no version of.
+export function catalogModel(model: string): string | undefined {
+  const listed = (id: string) => pricingCatalog.some(price => price.model === id)
+  if (listed(model)) return model
+  if (modelAliases[model]) return modelAliases[model]
+
+  const base = model.replace(versionSuffix, '')
+  if (base === model) return undefined
+  if (listed(base)) return base
+  return pricingCatalog
+    .map(price => price.model)
+    .filter(id => id.startsWith(`${base}-`) && /^\d{8}$/.test(id.slice(base.length + 1)))
+    .sort()
+    .pop()
+}
+
+export function priceVersion(price: ModelPrice): string {
+  return `${price.model}@${price.effectiveFrom}`
+}
+
+// The catalog entry in force for a model, or the model it is a snapshot or alias
+// of, at the given time
+export function getModelPrice(model: string, at: Date = new Date()): ModelPrice | undefined {
+  const day = at.toISOString().split('T')[0]
+  const priced = catalogModel(model)
+  return pricingCatalog
+    .filter(price => price.model === priced && price.effectiveFrom <= day)
+    .sort((a, b) => b.effectiveFrom.localeCompare(a.effectiveFrom))[0]
+}
+
+// The provider's most expensive chat model (input plus output per 1M tokens) in
+// force at the given time, the conservative stand-in for a model it does not price
+export function mostExpensivePrice(provider: string, at: Date = new Date()): ModelPrice | undefined {
+  return Array.from(new Set(pricingCatalog.filter(price => price.provider === provider).map(price => price.model)))
+    .map(model => getModelPrice(model, at))
+    .filter((price): price is ModelPrice => !!price && !price.imagePrices && price.audioMinute === undefined && price.output > 0)
+    .sort((a, b) => (b.input + b.output) - (a.input + a.output))[0]
+}
+
+// Most output a request without its own cap can produce: the model's output
+// limit, bounded by what the context window leaves after the input
+export function defaultOutputTokenCap(model: string, inputTokens: number): number {
+  const price = getModelPrice(model)
+  const remaining = Math.max(0, (price?.contextWindow || 0) - inputTokens)
+  return price?.maxOutputTokens !== undefined ? Math.min(price.maxOutputTokens, remaining) : remaining
+}
+
+export function getPriceByVersion(version: string): ModelPrice | undefined {
+  return pricingCatalog.find(price => priceVersion(price) === version)
+}
+
+// Per-image price for a quality and size. Missing or 'auto' values use the model's
+// default; undefined when the model is not an image model or lacks that combination.
+export function imagePrice(price: ModelPrice, quality?: string, size?: string): number | undefined {
+  if (!price.imagePrices) return undefined
+  const [defaultQuality, defaultSize] = Object.keys(price.imagePrices)[0].split(':')
+  const resolvedQuality = !quality || quality === 'auto' ? defaultQuality : quality
+  const resolvedSize = !size || size === 'auto' ? defaultSize : size
+  return price.imagePrices[`${resolvedQuality}:${resolvedSize}`]
+}
+
+// Prices usage against a catalog entry. Cached input tokens are billed at the
+// cached rate (falling back to the normal input rate) and the rest at the input rate.
+// Generated images and audio minutes are added on top of the token cost.
+export function costForPrice(price: ModelPrice, usage: PricedUsage): number {
+  const cachedTokens = Math.min(usage.cachedInputTokens || 0, usage.inputTokens)
+  const uncachedTokens = usage.inputTokens - cachedTokens
+  const inputRate = usage.batch ? price.batchInput ?? price.input : price.input
+  const outputRate = usage.batch ? price.batchOutput ?? price.output : price.output
+  const cachedRate = price.cachedInput ?? inputRate
+
+  const tokenCost = (uncachedTokens * inputRate + cachedTokens * cachedRate + usage.outputTokens * outputRate) / 1_000_000
+  const imageCost = usage.images
+    ? usage.images.count * (imagePrice(price, usage.images.quality, usage.images.size) ?? 0)
+    : 0
+  const audioCost = usage.audioSeconds ? (usage.audioSeconds / 60) * (price.audioMinute ?? 0) : 0
+
+  return tokenCost + imageCost + audioCost
+}
+
+// The unit a request is billed by and how many of them it used
+export function billedUnits(usage: PricedUsage): { unitType: UnitType; units: number } {
+  if (usage.images) return { unitType: 'images', units: usage.images.count }
+  if (usage.audioSeconds !== undefined) return { unitType: 'audio_seconds', units: usage.audioSeconds }
+  return { unitType: 'tokens', units: usage.inputTokens + usage.outputTokens }
+}
+
+// Supabase returns DECIMAL columns as strings
+function overrideNumber(value: number | string | null): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const parsed = typeof value === 'number' ? value : parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// The most specific override that applies: a key-scoped override beats a user-wide
+// one, and a model override beats a provider override, which beats a catch-all.
+// A model override also covers the snapshots and aliases priced as that model.
+export function findPricingOverride(
+  overrides: PricingOverride[],
+  target: { model: string; provider?: string; proxyKeyId?: string | null }
+): PricingOverride | undefined {
+  const specificity = (override: PricingOverride) =>
+    (override.proxy_key_id ? 4 : 0) + (override.model ? 2 : override.provider ? 1 : 0)
+
+  return overrides
+    .filter(override =>
+      (!override.proxy_key_id || override.proxy_key_id === target.proxyKeyId) &&
+      (!override.model || override.model === target.model || override.model === catalogModel(target.model)) &&
+      (!override.provider || override.provider === target.provider)
+    )
+    .sort((a, b) => specificity(b) - specificity(a))[0]
+}
+
+// Absolute prices replace the catalog input/output rates (cached and batch rates
+// then follow them), and a discount is taken off whatever rates remain. Models
+// missing from the catalog can only be priced by an override with both prices.
+export function applyPricingOverride(
+  price: ModelPrice | undefined,
+  model: string,
+  override: PricingOverride
+): ModelPrice | undefined {
+  const inputPrice = overrideNumber(override.input_price)
+  const outputPrice = overrideNumber(override.output_price)
+  const discount = overrideNumber(override.discount_percent)
+
+  let base: ModelPrice | undefined = price
+  if (inputPrice !== null || outputPrice !== null) {
+    const input = inputPrice ?? price?.input
+    const output = outputPrice ?? price?.output
+    if (input === undefined || output === undefined) return price
+    base = {
+      model,
+      provider: price?.provider || override.provider || '',
+      effectiveFrom: price?.effectiveFrom || '',
+      contextWindow: price?.contextWindow || 0,
+      imagePrices: price?.imagePrices,
+      audioMinute: price?.audioMinute,
+      input,
+      output
+    }
+  }
+  if (!base || discount === null) return base
+
+  const factor = 1 - discount / 100
+  const scale = (rate?: number) => rate === undefined ? undefined : rate * factor
+  return {
+    ...base,
+    input: base.input * factor,
+    output: base.output * factor,
+    cachedInput: scale(base.cachedInput),
+    batchInput: scale(base.batchInput),
+    batchOutput: scale(base.batchOutput),
+    imagePrices: base.imagePrices && Object.fromEntries(
+      Object.entries(base.imagePrices).map(([key, rate]) => [key, rate * factor])
+    ),
+    audioMinute: scale(base.audioMinute)
+  }
+}
+
+export function calculateCost(model: string, usage: PricedUsage, context: CostContext = {}): CostResult {
+  const listPrice = getModelPrice(model, context.at)
+  const override = context.overrides
+    ? findPricingOverride(context.overrides, {
+      model,
+      provider: listPrice?.provider ?? context.provider,
+      proxyKeyId: context.proxyKeyId
+    })
+    : undefined
+  const price = override ? applyPricingOverride(listPrice, model, override) : listPrice
+
+  if (!price) {
+    const standIn = context.chargeUnpriced && context.provider ? mostExpensivePrice(context.provider, context.at) : undefined
+    const cost = standIn ? costForPrice(standIn, usage) : 0
+    return { cost, listCost: cost, priceVersion: null, overrideId: null, unpriced: true }
+  }
+
+  const cost = costForPrice(price, usage)
+  return {
+    cost,
+    listCost: listPrice ? costForPrice(listPrice, usage) : cost,
+    priceVersion: listPrice ? priceVersion(listPrice) : null,
+    overrideId: override && price !== listPrice ? override.id : null,
+    unpriced: false
+  }
+}
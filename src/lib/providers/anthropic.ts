@@ -0,0 +1,94 @@
+import {
+  ANTHROPIC_MESSAGES_URL,
+  AnthropicUsage,
+  anthropicHeaders,
+  extractAnthropicOutput,
+  extractAnthropicUsage
+} from '@/lib/anthropic'
+import { anthropicTranslator } from '@/lib/translation'
+import { openaiAdapter } from './openai'
+import { ProviderAdapter } from './types'
+
+// Anthropic Messages API. The message list has the same shape as OpenAI's apart
+// from the top-level system prompt, so text extraction and caching are shared.
+export const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  baseUrl: 'https://api.anthropic.com/v1',
+  hosts: ['api.anthropic.com'],
+  models: ['claude-3-opus-20240229', 'claude-3-sonnet-20240229', 'claude-3-haiku-20240307'],
+  modelPrefixes: ['claude'],
+  openAICompatible: {
+    chat: 'https://api.anthropic.com/v1/chat/completions'
+  },
+  openAITranslator: anthropicTranslator,
+
+  authorize(endpoint, apiKey, incoming) {
+    return { endpoint, headers: anthropicHeaders(apiKey, incoming) }
+  },
+
+  requestModel: openaiAdapter.requestModel,
+
+  // The Messages API rejects requests without max_tokens, so fail before spending a round trip
+  validateRequest(payload) {
+    const error = openaiAdapter.validateRequest(payload)
+    if (error) return error
+    return typeof payload.max_tokens === 'number' ? null : 'Missing max_tokens in request body'
+  },
+
+  inputText: openaiAdapter.inputText,
+  maxOutputTokens: openaiAdapter.maxOutputTokens,
+  withMaxOutputTokens: openaiAdapter.withMaxOutputTokens,
+  cachePrompt: openaiAdapter.cachePrompt,
+  withModel: openaiAdapter.withModel,
+  isStreamingRequest: openaiAdapter.isStreamingRequest,
+
+  // message_start and message_delta already carry usage
+  prepareStreamingRequest(endpoint, payload) {
+    return { endpoint, payload }
+  },
+
+  parseResponse(data) {
+    return {
+      outputText: extractAnthropicOutput(data as Parameters<typeof extractAnthropicOutput>[0]),
+      usage: extractAnthropicUsage(data as Parameters<typeof extractAnthropicUsage>[0])
+    }
+  },
+
+  parseStreamChunk(chunk) {
+    const event = chunk as {
+      type?: string
+      message?: { usage?: AnthropicUsage }
+      delta?: { type?: string; text?: string }
+      usage?: { output_tokens?: number }
+    }
+    switch (event.type) {
+      case 'message_start':
+        return { usage: extractAnthropicUsage(event.message || {}) }
+      case 'content_block_delta':
+        return event.delta?.type === 'text_delta' ? { text: event.delta.text || '' } : {}
+      case 'message_delta':
+        // output_tokens in message_delta is cumulative for the whole message
+        return event.usage?.output_tokens !== undefined
+          ? { usage: { outputTokens: event.usage.output_tokens } }
+          : {}
+      default:
+        return {}
+    }
+  },
+
+  keyValidationRequest(apiKey) {
+    return {
+      url: ANTHROPIC_MESSAGES_URL,
+      init: {
+        method: 'POST',
+        headers: anthropicHeaders(apiKey),
+        body: JSON.stringify({
+          model: 'claude-3-haiku-20240307',
+          max_tokens: 1,
+          messages: [{ role: 'user', content: 'Hi' }]
+        })
+      }
+    }
+  }
+}
@@ -0,0 +1,107 @@
+import {
+  GEMINI_API_BASE,
+  extractGeminiOutput,
+  extractGeminiUsage,
+  geminiEndpoint,
+  geminiInputText,
+  parseGeminiModelPath,
+  withGeminiApiKey,
+  withGeminiModel
+} from '@/lib/gemini'
+import { geminiTranslator } from '@/lib/translation'
+import { ProviderAdapter } from './types'
+
+// Google Generative Language API. Gemini carries the model in the URL path and
+// authenticates with a `key` query parameter.
+export const googleAdapter: ProviderAdapter = {
+  id: 'google',
+  label: 'Google',
+  baseUrl: GEMINI_API_BASE,
+  hosts: ['generativelanguage.googleapis.com'],
+  models: ['gemini-pro', 'gemini-pro-vision', 'text-embedding-004'],
+  modelPrefixes: ['gemini', 'text-embedding-004', 'embedding-'],
+  openAICompatible: {
+    chat: 'https://generativelanguage.googleapis.com/v1beta/openai/chat/completions',
+    embeddings: 'https://generativelanguage.googleapis.com/v1beta/openai/embeddings'
+  },
+  openAITranslator: geminiTranslator,
+
+  authorize(endpoint, apiKey) {
+    return {
+      endpoint: withGeminiApiKey(endpoint, apiKey),
+      headers: { 'Content-Type': 'application/json' }
+    }
+  },
+
+  requestModel(endpoint) {
+    return parseGeminiModelPath(new URL(endpoint).pathname)?.model
+  },
+
+  validateRequest(payload) {
+    return Array.isArray(payload.contents) ? null : 'Missing or invalid model/contents in request body'
+  },
+
+  inputText(payload) {
+    return geminiInputText(payload as Parameters<typeof geminiInputText>[0])
+  },
+
+  maxOutputTokens(payload) {
+    const limit = (payload.generationConfig as { maxOutputTokens?: unknown } | undefined)?.maxOutputTokens
+    return typeof limit === 'number' ? limit : undefined
+  },
+
+  withMaxOutputTokens(payload, tokens) {
+    payload.generationConfig = { ...(payload.generationConfig as Record<string, unknown> | undefined), maxOutputTokens: tokens }
+  },
+
+  cachePrompt(model, payload) {
+    return { model, systemInstruction: payload.systemInstruction, contents: payload.contents }
+  },
+
+  // A routed model rewrites the URL rather than the body
+  withModel(endpoint, _payload, model) {
+    return withGeminiModel(endpoint, model)
+  },
+
+  isStreamingRequest(endpoint) {
+    return endpoint.includes(':streamGenerateContent')
+  },
+
+  // Without alt=sse Gemini streams a JSON array instead of Server-Sent Events
+  prepareStreamingRequest(endpoint, payload) {
+    const url = new URL(endpoint)
+    if (!url.searchParams.has('alt')) url.searchParams.set('alt', 'sse')
+    return { endpoint: url.toString(), payload }
+  },
+
+  parseResponse(data) {
+    return {
+      outputText: extractGeminiOutput(data as Parameters<typeof extractGeminiOutput>[0]),
+      usage: extractGeminiUsage(data as Parameters<typeof extractGeminiUsage>[0])
+    }
+  },
+
+  // streamGenerateContent?alt=sse emits one GenerateContentResponse per event.
+  // usageMetadata is cumulative, the last event carries the final counts.
+  parseStreamChunk(chunk) {
+    const event = chunk as Parameters<typeof extractGeminiUsage>[0]
+    const parts = (chunk as { candidates?: Array<{ content?: { parts?: Array<{ text?: unknown }> } }> })
+      .candidates?.[0]?.content?.parts || []
+    const text = parts.map(part => typeof part.text === 'string' ? part.text : '').join('')
+    return {
+      text,
+      usage: event.usageMetadata ? extractGeminiUsage(event) : undefined
+    }
+  },
+
+  keyValidationRequest(apiKey) {
+    return {
+      url: withGeminiApiKey(geminiEndpoint('gemini-pro', 'generateContent'), apiKey),
+      init: {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ contents: [{ parts: [{ text: 'Hi' }] }] })
+      }
+    }
+  }
+}
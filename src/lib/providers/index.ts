@@ -0,0 +1,32 @@
+import { anthropicAdapter } from './anthropic'
+import { googleAdapter } from './google'
+import { openaiAdapter } from './openai'
+import { ProviderAdapter } from './types'
+
+export type { ProviderAdapter, ProviderUsage, StreamChunkResult, UpstreamRequest, KeyValidationRequest } from './types'
+export { openaiAdapter, anthropicAdapter, googleAdapter }
+
+// The provider registry. Adding a provider means writing an adapter and listing it here;
+// the proxy, key test route and dashboards all read from this list.
+export const providerAdapters: ProviderAdapter[] = [openaiAdapter, anthropicAdapter, googleAdapter]
+
+export const providerIds = providerAdapters.map(adapter => adapter.id)
+
+export function getProviderAdapter(id: string): ProviderAdapter | undefined {
+  return providerAdapters.find(adapter => adapter.id === id.toLowerCase())
+}
+
+export function providerLabel(id: string): string {
+  return getProviderAdapter(id)?.label || id
+}
+
+// Best guess at the vendor serving a model, used to pick between a key's credentials
+export function providerForModel(model: unknown): ProviderAdapter | undefined {
+  if (typeof model !== 'string') return undefined
+  return providerAdapters.find(adapter => adapter.models.includes(model))
+    || providerAdapters.find(adapter => adapter.modelPrefixes.some(prefix => model.startsWith(prefix)))
+}
+
+export function providerForHost(hostname: string): ProviderAdapter | undefined {
+  return providerAdapters.find(adapter => adapter.hosts.includes(hostname))
+}
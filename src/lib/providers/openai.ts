@@ -0,0 +1,143 @@
+import { contentToText, systemPromptText } from '@/lib/anthropic'
+import { ProviderAdapter, ProviderUsage } from './types'
+
+type ChatPayload = { messages?: Array<{ content: unknown }>; system?: unknown }
+
+export interface OpenAIUsageReport {
+  prompt_tokens?: number
+  completion_tokens?: number
+  prompt_tokens_details?: { cached_tokens?: number }
+  completion_tokens_details?: { reasoning_tokens?: number }
+}
+
+// Cached and reasoning tokens are already included in prompt_tokens and completion_tokens
+export function extractOpenAIUsage(usage: OpenAIUsageReport): ProviderUsage {
+  return {
+    inputTokens: usage.prompt_tokens,
+    outputTokens: usage.completion_tokens,
+    cachedInputTokens: usage.prompt_tokens_details?.cached_tokens,
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens
+  }
+}
+
+// OpenAI, and the OpenAI wire format spoken by other vendors' compatible endpoints
+export const openaiAdapter: ProviderAdapter = {
+  id: 'openai',
+  label: 'OpenAI',
+  baseUrl: 'https://api.openai.com/v1',
+  hosts: ['api.openai.com'],
+  models: [
+    'gpt-3.5-turbo', 'gpt-3.5-turbo-16k', 'gpt-4', 'gpt-4-32k', 'gpt-4-turbo',
+    'text-embedding-3-small', 'text-embedding-3-large', 'text-embedding-ada-002'
+  ],
+  modelPrefixes: ['gpt-', 'o1', 'o3', 'o4', 'text-embedding-3', 'text-embedding-ada', 'dall-e', 'whisper', 'tts-'],
+  openAICompatible: {
+    chat: 'https://api.openai.com/v1/chat/completions',
+    embeddings: 'https://api.openai.com/v1/embeddings',
+    imageGenerations: 'https://api.openai.com/v1/images/generations',
+    audioTranscriptions: 'https://api.openai.com/v1/audio/transcriptions',
+    audioTranslations: 'https://api.openai.com/v1/audio/translations'
+  },
+
+  authorize(endpoint, apiKey) {
+    return {
+      endpoint,
+      headers: {
+        'Authorization': `Bearer ${apiKey}`,
+        'Content-Type': 'application/json',
+      }
+    }
+  },
+
+  requestModel(_endpoint, payload) {
+    return typeof payload.model === 'string' ? payload.model : undefined
+  },
+
+  validateRequest(payload) {
+    return Array.isArray(payload.messages) ? null : 'Missing or invalid model/messages in request body'
+  },
+
+  inputText(payload) {
+    const { messages = [], system } = payload as ChatPayload
+    return [systemPromptText(system), ...messages.map(m => contentToText(m.content))].filter(Boolean).join(' ')
+  },
+
+  // max_completion_tokens replaces max_tokens for reasoning models
+  maxOutputTokens(payload) {
+    const limit = payload.max_completion_tokens ?? payload.max_tokens
+    return typeof limit === 'number' ? limit : undefined
+  },
+
+  withMaxOutputTokens(payload, tokens) {
+    if (payload.max_completion_tokens !== undefined) payload.max_completion_tokens = tokens
+    if (payload.max_completion_tokens === undefined || payload.max_tokens !== undefined) payload.max_tokens = tokens
+  },
+
+  cachePrompt(model, payload) {
+    return payload.system !== undefined
+      ? { model, system: payload.system, messages: payload.messages }
+      : { model, messages: payload.messages }
+  },
+
+  withModel(endpoint, payload, model) {
+    payload.model = model
+    return endpoint
+  },
+
+  isStreamingRequest(_endpoint, payload) {
+    return payload.stream === true
+  },
+
+  // Ask for usage in the final chunk so streamed requests are priced from real counts
+  prepareStreamingRequest(endpoint, payload) {
+    const streamOptions = (payload.stream_options as Record<string, unknown>) || {}
+    return {
+      endpoint,
+      payload: { ...payload, stream_options: { ...streamOptions, include_usage: true } }
+    }
+  },
+
+  // outputText covers every choice and tool call so the estimate fallback sees all generated text
+  parseResponse(data) {
+    const response = data as {
+      choices?: Array<{ message?: { content?: string | null; tool_calls?: Array<{ function?: { name?: string; arguments?: string } }> } }>
+      usage?: OpenAIUsageReport
+    }
+    return {
+      outputText: (response.choices || [])
+        .flatMap(choice => [
+          choice.message?.content || '',
+          ...(choice.message?.tool_calls || []).map(call => `${call.function?.name || ''}${call.function?.arguments || ''}`)
+        ])
+        .filter(Boolean)
+        .join(' '),
+      usage: extractOpenAIUsage(response.usage || {})
+    }
+  },
+
+  // chat.completion.chunk
+  parseStreamChunk(chunk) {
+    const event = chunk as {
+      choices?: Array<{ delta?: { content?: unknown; tool_calls?: Array<{ function?: { name?: unknown; arguments?: unknown } }> } }>
+      usage?: OpenAIUsageReport
+    }
+    const text = (event.choices || [])
+      .flatMap(choice => [
+        choice.delta?.content,
+        ...(choice.delta?.tool_calls || []).flatMap(call => [call.function?.name, call.function?.arguments])
+      ])
+      .filter((part): part is string => typeof part === 'string')
+      .join('')
+    return {
+      text: text || undefined,
+      usage: event.usage ? extractOpenAIUsage(event.usage) : undefined
+    }
+  },
+
+  keyValidationRequest(apiKey) {
+    return {
+      url: 'https://api.openai.com/v1/models',
+      init: { method: 'GET', headers: { 'Authorization': `Bearer ${apiKey}` } }
+    }
+  }
+}
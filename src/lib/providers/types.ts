@@ -0,0 +1,78 @@
+import type { OpenAITranslator } from '@/lib/translation'
+
+// cachedInputTokens is the part of inputTokens served from the provider's prompt
+// cache; reasoningTokens is the part of outputTokens spent on hidden reasoning
+export interface ProviderUsage {
+  inputTokens?: number
+  outputTokens?: number
+  cachedInputTokens?: number
+  reasoningTokens?: number
+}
+
+// What a single stream event contributes: new output text and/or usage counts.
+// Usage fields that are present replace earlier values.
+export interface StreamChunkResult {
+  text?: string
+  usage?: ProviderUsage
+}
+
+export interface UpstreamRequest {
+  endpoint: string
+  headers: Record<string, string>
+}
+
+export interface KeyValidationRequest {
+  url: string
+  init: RequestInit
+}
+
+// Everything CostLLM needs to know about one LLM vendor. The wire-format hooks
+// (request, response and stream handling) are also used for traffic to other
+// vendors' OpenAI-compatible endpoints through the openai adapter.
+export interface ProviderAdapter {
+  id: string
+  label: string
+  baseUrl: string
+  // Upstream hostnames the proxy may forward to with this provider's keys
+  hosts: string[]
+  // Models listed by /api/v1/models
+  models: string[]
+  // Prefixes identifying models this provider serves beyond the listed ones
+  modelPrefixes: string[]
+  // Upstream URLs of the vendor's OpenAI-compatible API, used by the /api/v1 routes
+  openAICompatible: {
+    chat?: string
+    embeddings?: string
+    imageGenerations?: string
+    audioTranscriptions?: string
+    audioTranslations?: string
+  }
+  // Converts OpenAI chat requests to the native API and back, so routing rules
+  // can send OpenAI-shaped traffic to this provider's models
+  openAITranslator?: OpenAITranslator
+
+  // Attaches the upstream credential using the vendor's auth scheme
+  authorize(endpoint: string, apiKey: string, incoming?: Headers): UpstreamRequest
+
+  // Request normalization
+  requestModel(endpoint: string, payload: Record<string, unknown>): string | undefined
+  validateRequest(payload: Record<string, unknown>): string | null
+  inputText(payload: Record<string, unknown>): string
+  // The output token cap the request sets, if any
+  maxOutputTokens(payload: Record<string, unknown>): number | undefined
+  withMaxOutputTokens(payload: Record<string, unknown>, tokens: number): void
+  cachePrompt(model: string, payload: Record<string, unknown>): Record<string, unknown>
+  withModel(endpoint: string, payload: Record<string, unknown>, model: string): string
+  isStreamingRequest(endpoint: string, payload: Record<string, unknown>): boolean
+  prepareStreamingRequest(
+    endpoint: string,
+    payload: Record<string, unknown>
+  ): { endpoint: string; payload: Record<string, unknown> }
+
+  // Response parsing
+  parseResponse(data: unknown): { outputText: string; usage: ProviderUsage }
+  parseStreamChunk(chunk: unknown): StreamChunkResult
+
+  // Cheapest authenticated call that proves a key works
+  keyValidationRequest(apiKey: string): KeyValidationRequest
+}
@@ -0,0 +1,64 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto'
+
+// CostLLM-issued keys look like cllm_<8 char lookup id><32 char secret>. The
+// lookup id is stored in the clear as key_prefix so a request can be matched
+// with one indexed query; only a salted hash of the full key is persisted.
+export const PROXY_KEY_PREFIX = 'cllm_'
+
+const LOOKUP_ID_LENGTH = 8
+const SECRET_LENGTH = 32
+const ALPHABET = 'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789'
+
+export interface GeneratedProxyKey {
+  key: string
+  prefix: string
+  salt: string
+  hash: string
+}
+
+function randomString(length: number): string {
+  const bytes = randomBytes(length)
+  let result = ''
+  for (let i = 0; i < length; i++) {
+    // 248 is the largest multiple of 62 below 256, rejection keeps the distribution uniform
+    let byte = bytes[i]
+    while (byte >= 248) byte = randomBytes(1)[0]
+    result += ALPHABET[byte % ALPHABET.length]
+  }
+  return result
+}
+
+export function isProxyKey(key: string): boolean {
+  return key.startsWith(PROXY_KEY_PREFIX) &&
+    key.length === PROXY_KEY_PREFIX.length + LOOKUP_ID_LENGTH + SECRET_LENGTH
+}
+
+export function getProxyKeyPrefix(key: string): string {
+  return key.substring(0, PROXY_KEY_PREFIX.length + LOOKUP_ID_LENGTH)
+}
+
+export function hashProxyKey(key: string, salt: string): string {
+  return createHash('sha256').update(`${salt}:${key}`).digest('hex')
+}
+
+export function generateProxyKey(): GeneratedProxyKey {
+  const key = PROXY_KEY_PREFIX + randomString(LOOKUP_ID_LENGTH) + randomString(SECRET_LENGTH)
+  const salt = randomBytes(16).toString('hex')
+  return {
+    key,
+    prefix: getProxyKeyPrefix(key),
+    salt,
+    hash: hashProxyKey(key, salt)
+  }
+}
+
+export function verifyProxyKey(key: string, salt: string, expectedHash: string): boolean {
+  const actual = Buffer.from(hashProxyKey(key, salt), 'hex')
+  const expected = Buffer.from(expectedHash, 'hex')
+  return actual.length === expected.length && timingSafeEqual(actual, expected)
+}
+
+// Masked form shown in the dashboard, e.g. cllm_ab12cd34****
+export function maskProxyKey(prefix: string): string {
+  return `${prefix}****`
+}
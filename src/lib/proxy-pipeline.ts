@@ -0,0 +1,1604 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createServerSupabaseClient } from '@/lib/supabase-server'
+import AES from 'crypto-js/aes'
+import CryptoJS from 'crypto-js'
+import { proxyLogger, securityLogger, generateRequestId } from '@/lib/logger'
+import {
+  createAccountingStream,
+  createOpenAITranslatingStream,
+  createPiiRestoringStream,
+  createRecordingStream
+} from '@/lib/streaming'
+import { OpenAITranslator } from '@/lib/translation'
+import {
+  billedUnits,
+  calculateCost,
+  defaultOutputTokenCap,
+  getModelPrice,
+  mostExpensivePrice,
+  PricedUsage,
+  PricingOverride
+} from '@/lib/pricing'
+import { failedAttemptCost, FallbackAttempt, fallbackModels, isFallbackStatus } from '@/lib/fallback'
+import { circuitBreakers } from '@/lib/circuit-breaker'
+import {
+  affordableOutputTokens,
+  budgetEnforcement,
+  budgetHeadroom,
+  cheaperChatModels,
+  EnforcedBudget
+} from '@/lib/budget-enforcement'
+import { routeResolver, selectRoutingRule } from '@/lib/routing-rules'
+import { keyPool, retryAfterSeconds } from '@/lib/key-pool'
+import { isOpenAICompatibleEndpoint } from '@/lib/openai-compatible'
+import { estimateTokens, resolveUsage, ResolvedUsage } from '@/lib/usage'
+import { embeddingCacheKey, EmbeddingFormat, embeddingFormatFor } from '@/lib/embeddings'
+import {
+  estimateAudioSeconds,
+  estimateImageInputTokens,
+  generatedImages,
+  mediaRequestType,
+  reportedAudioSeconds
+} from '@/lib/multimodal'
+import {
+  getProviderAdapter,
+  openaiAdapter,
+  ProviderAdapter,
+  providerForHost,
+  providerForModel,
+  UpstreamRequest
+} from '@/lib/providers'
+import { getProxyKeyPrefix, isProxyKey, verifyProxyKey } from '@/lib/proxy-keys'
+import { getRateLimiter } from '@/lib/rate-limit'
+import { CaptureSettings, prepareCapture, proxyKeyCaptureSettings, shouldCapture } from '@/lib/request-capture'
+import { PiiPolicy, proxyKeyPiiPolicy, restorePii, scrubPii } from '@/lib/pii'
+import { applyGuardrails, GuardrailPolicy, proxyKeyGuardrailPolicy } from '@/lib/guardrails'
+import {
+  idempotencyLockMs,
+  idempotencyWindowMs,
+  invalidIdempotencyKey,
+  replayResponse,
+  requestFingerprint,
+  storedResponseHeaders
+} from '@/lib/idempotency'
+import {
+  consumeRequestQuotas,
+  consumeTokenQuota,
+  proxyKeyQuotaLimits,
+  QuotaLimits,
+  QuotaScope,
+  QuotaStatus,
+  rateLimitHeaders,
+  recordTokenUsage,
+  SubscriptionTier,
+  tierQuotaLimits
+} from '@/lib/quotas'
+
+const secretKey = process.env.ENCRYPTION_SECRET!
+
+export type ProxyRequestType = 'chat' | 'embedding' | 'image' | 'audio'
+
+export interface ProxyRequestOptions {
+  // Resolves the upstream URL from the key's provider. When omitted the caller
+  // must supply `endpoint` in the request body (the /api/proxy contract).
+  resolveEndpoint?: (provider: string) => string | undefined
+  requestType?: ProxyRequestType
+}
+
+// Reads the caller's key from wherever the vendor SDKs put it: a Bearer token
+// (OpenAI), x-api-key (Anthropic), or x-goog-api-key / ?key= (Gemini)
+function extractIncomingApiKey(request: NextRequest): string | null {
+  const authHeader = request.headers.get('authorization')
+  if (authHeader && authHeader.startsWith('Bearer ')) {
+    return authHeader.substring(7) // Remove 'Bearer '
+  }
+  return request.headers.get('x-api-key')
+    || request.headers.get('x-goog-api-key')
+    || request.nextUrl.searchParams.get('key')
+}
+
+export type StoredCredential = {
+  id: string
+  user_id: string
+  provider: string
+  api_key: string
+  status: string
+  // Key pool state, see src/lib/key-pool.ts
+  weight?: number | null
+  rate_limited_until?: string | null
+  last_rate_limited_at?: string | null
+  error_count?: number | null
+  rate_limited_count?: number | null
+}
+
+export interface AuthenticatedProxyKey {
+  id: string
+  user_id: string
+  // Active provider credentials this key may spend. Secrets stay encrypted until forwarding.
+  credentials: StoredCredential[]
+  tier: SubscriptionTier
+  // The key's own rate limits, on top of the tier's account-wide ones
+  limits: QuotaLimits
+  // Whether request and response bodies are captured, and how
+  capture: CaptureSettings
+  // What happens to personal data found in requests
+  pii: PiiPolicy
+  // Credential and prompt-injection scanning, and what happens on a finding
+  guardrails: GuardrailPolicy
+}
+
+// Rate limits a request counts against: the account's tier limits and the key's own
+function quotaScopesFor(key: AuthenticatedProxyKey): QuotaScope[] {
+  return [
+    { id: `user:${key.user_id}`, limits: tierQuotaLimits(key.tier) },
+    { id: `key:${key.id}`, limits: key.limits }
+  ]
+}
+
+// Input tokens reserved against tokens-per-minute limits before forwarding;
+// the rest of the request's tokens are recorded once usage is known
+interface TokenQuota {
+  scopes: QuotaScope[]
+  reserved: number
+}
+
+// Resolves the CostLLM-issued key on an incoming request. Returns either the
+// key with its provider credentials or the error response to send back.
+export async function authenticateApiKey(
+  request: NextRequest,
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  requestId: string
+): Promise<{ key: AuthenticatedProxyKey } | { response: NextResponse }> {
+  const incomingApiKey = extractIncomingApiKey(request)
+  if (!incomingApiKey) {
+    proxyLogger.warn('Missing or invalid Authorization header', {
+      request_id: requestId,
+      user_agent: request.headers.get('user-agent'),
+      ip: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+    })
+    return { response: NextResponse.json({ error: 'Missing or invalid Authorization header' }, { status: 401 }) }
+  }
+
+  const invalidKey = () => {
+    proxyLogger.warn('Invalid API key provided', {
+      request_id: requestId,
+      api_key_prefix: incomingApiKey.substring(0, 8) + '...',
+      ip: request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip')
+    })
+    return { response: NextResponse.json({ error: 'Invalid API key' }, { status: 401 }) }
+  }
+
+  if (!isProxyKey(incomingApiKey)) {
+    return invalidKey()
+  }
+
+  // One indexed lookup by the public prefix, then a constant-time hash comparison
+  const { data: proxyKey, error: keyError } = await supabase
+    .from('proxy_keys')
+    .select('*, proxy_key_credentials(api_keys(*)), users(subscription_tier)')
+    .eq('key_prefix', getProxyKeyPrefix(incomingApiKey))
+    .maybeSingle()
+
+  if (keyError) {
+    return { response: NextResponse.json({ error: 'Database error' }, { status: 500 }) }
+  }
+
+  if (!proxyKey || proxyKey.status !== 'active' || !verifyProxyKey(incomingApiKey, proxyKey.key_salt, proxyKey.key_hash)) {
+    return invalidKey()
+  }
+
+  const credentials = ((proxyKey.proxy_key_credentials || []) as Array<{ api_keys: StoredCredential | null }>)
+    .map(link => link.api_keys)
+    .filter((credential): credential is StoredCredential => !!credential && credential.status === 'active')
+
+  // Record last use asynchronously
+  ;(async () => {
+    try {
+      await supabase
+        .from('proxy_keys')
+        .update({ last_used_at: new Date().toISOString() })
+        .eq('id', proxyKey.id)
+    } catch (error) {
+      console.error('Error updating proxy key last use:', error)
+    }
+  })()
+
+  return {
+    key: {
+      id: proxyKey.id,
+      user_id: proxyKey.user_id,
+      credentials,
+      tier: proxyKey.users?.subscription_tier || 'free',
+      limits: proxyKeyQuotaLimits(proxyKey),
+      capture: proxyKeyCaptureSettings(proxyKey),
+      pii: proxyKeyPiiPolicy(proxyKey),
+      guardrails: proxyKeyGuardrailPolicy(proxyKey)
+    }
+  }
+}
+
+export async function handleProxyRequest(request: NextRequest, options: ProxyRequestOptions = {}) {
+  // Filled in by the rate limit checks; every response reports the headroom left
+  const quotaStatuses: QuotaStatus[] = []
+  // Filled in when the request holds an Idempotency-Key, whose response is then stored
+  const idempotency: { claim?: IdempotencyClaim } = {}
+  let response = await proxyRequest(request, options, quotaStatuses, idempotency)
+  if (idempotency.claim) {
+    response = await storeIdempotentResponse(idempotency.claim, response)
+  }
+  for (const [name, value] of Object.entries(rateLimitHeaders(quotaStatuses))) {
+    response.headers.set(name, value)
+  }
+  return response
+}
+
+interface IdempotencyClaim {
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>
+  // The idempotency_keys row held while the request is served
+  id: string
+}
+
+// Takes an Idempotency-Key for this request. A key already used answers with the stored
+// response, 409 while its first request is still being served, or 422 when it was used
+// for a different request. Without an id the request goes ahead unrecorded.
+async function claimIdempotencyKey(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  userId: string,
+  proxyKeyId: string,
+  key: string,
+  fingerprint: string
+): Promise<{ id?: string } | { response: NextResponse }> {
+  // Keys past their window, or held by a request that never finished, can be taken again
+  await supabase
+    .from('idempotency_keys')
+    .delete()
+    .eq('proxy_key_id', proxyKeyId)
+    .eq('idempotency_key', key)
+    .lt('expires_at', new Date().toISOString())
+
+  const { data: claimed, error } = await supabase
+    .from('idempotency_keys')
+    .insert({
+      user_id: userId,
+      proxy_key_id: proxyKeyId,
+      idempotency_key: key,
+      request_hash: fingerprint,
+      expires_at: new Date(Date.now() + idempotencyLockMs).toISOString()
+    })
+    .select('id')
+    .single()
+  if (claimed) {
+    return { id: claimed.id }
+  }
+  // Anything but a unique violation means the key could not be recorded
+  if (error?.code !== '23505') {
+    console.error('Error claiming idempotency key:', error)
+    return {}
+  }
+
+  const { data: existing } = await supabase
+    .from('idempotency_keys')
+    .select('*')
+    .eq('proxy_key_id', proxyKeyId)
+    .eq('idempotency_key', key)
+    .maybeSingle()
+  if (!existing) {
+    return {}
+  }
+  if (existing.request_hash !== fingerprint) {
+    return {
+      response: NextResponse.json({
+        error: 'Idempotency-Key was already used for a different request.'
+      }, { status: 422 })
+    }
+  }
+  if (existing.response_body === null) {
+    return {
+      response: NextResponse.json({
+        error: 'A request with this Idempotency-Key is still being served. Retry later.'
+      }, { status: 409, headers: { 'Retry-After': '1' } })
+    }
+  }
+
+  return {
+    response: replayResponse({
+      status: existing.status_code,
+      headers: existing.response_headers || {},
+      body: AES.decrypt(existing.response_body, secretKey).toString(CryptoJS.enc.Utf8)
+    })
+  }
+}
+
+// Stores a successful response under the request's Idempotency-Key, AES-encrypted
+// since it may hold restored personal data. Streams are stored once fully sent.
+// Failed requests release the key so a retry is served afresh.
+async function storeIdempotentResponse(claim: IdempotencyClaim, response: NextResponse): Promise<NextResponse> {
+  const { supabase, id } = claim
+
+  if (!response.ok) {
+    ;(async () => {
+      try {
+        await supabase.from('idempotency_keys').delete().eq('id', id)
+      } catch (error) {
+        console.error('Error releasing idempotency key:', error)
+      }
+    })()
+    return response
+  }
+
+  const store = async (body: string) => {
+    try {
+      await supabase
+        .from('idempotency_keys')
+        .update({
+          status_code: response.status,
+          response_headers: storedResponseHeaders(response.headers),
+          response_body: AES.encrypt(body, secretKey).toString(),
+          expires_at: new Date(Date.now() + idempotencyWindowMs).toISOString()
+        })
+        .eq('id', id)
+    } catch (error) {
+      console.error('Error storing idempotent response:', error)
+    }
+  }
+
+  if (response.headers.get('content-type')?.startsWith('text/event-stream') && response.body) {
+    return new NextResponse(response.body.pipeThrough(createRecordingStream(store)), {
+      status: response.status,
+      headers: response.headers
+    })
+  }
+
+  await store(await response.clone().text())
+  return response
+}
+
+// Answers 429 for the first limit a request exceeded
+function rateLimitedResponse(exceeded: QuotaStatus) {
+  const message = exceeded.dimension === 'tokens'
+    ? 'Token rate limit exceeded. Try again later.'
+    : exceeded.dimension === 'requests-day'
+      ? 'Daily request quota exceeded. Try again tomorrow.'
+      : 'Rate limit exceeded. Try again later.'
+
+  return NextResponse.json({
+    error: message,
+    scope: exceeded.scope.startsWith('key:') ? 'key' : 'account',
+    dimension: exceeded.dimension
+  }, {
+    status: 429,
+    headers: {
+      'X-RateLimit-Limit': exceeded.limit.toString(),
+      'X-RateLimit-Remaining': '0',
+      'X-RateLimit-Reset': exceeded.resetSeconds.toString(),
+      'Retry-After': exceeded.resetSeconds.toString()
+    }
+  })
+}
+
+// Answers 402 for a spent budget whose breach action stops traffic
+function budgetExceededResponse(
+  budget: EnforcedBudget,
+  error = 'Budget exceeded. Requests are blocked until the budget is raised or reset.'
+) {
+  return NextResponse.json({
+    error,
+    budget_id: budget.id,
+    scope: budget.proxy_key_id ? 'key' : 'account'
+  }, { status: 402 })
+}
+
+// Tells the caller a blocking budget lowered the request's output cap
+function clampedHeaders(maxOutputTokens: number | undefined): Record<string, string> {
+  return maxOutputTokens === undefined ? {} : { 'X-CostLLM-Max-Tokens-Clamped': maxOutputTokens.toString() }
+}
+
+async function proxyRequest(
+  request: NextRequest,
+  options: ProxyRequestOptions,
+  quotaStatuses: QuotaStatus[],
+  idempotency: { claim?: IdempotencyClaim }
+) {
+  const startTime = Date.now()
+  const requestId = generateRequestId()
+
+  try {
+    // Create Supabase client
+    const supabase = await createServerSupabaseClient()
+
+    const auth = await authenticateApiKey(request, supabase, requestId)
+    if ('response' in auth) {
+      return auth.response
+    }
+    const proxyKey = auth.key
+
+    const userId = proxyKey.user_id
+    proxyLogger.info('API key validated', {
+      request_id: requestId,
+      user_id: userId,
+      proxy_key_id: proxyKey.id
+    }, userId, undefined, requestId)
+
+    // Parse request body. Audio uploads are multipart; their text fields form the payload.
+    const form = request.headers.get('content-type')?.startsWith('multipart/form-data')
+      ? await request.formData()
+      : undefined
+    const body = form
+      ? Object.fromEntries(Array.from(form.entries()).filter(([, value]) => typeof value === 'string'))
+      : await request.json()
+    const { endpoint: bodyEndpoint, ...payload } = body
+
+    // Idempotency-Key: a retry of a request already served gets the stored response
+    // back before it counts against rate limits or budgets
+    const idempotencyKey = request.headers.get('idempotency-key')
+    if (idempotencyKey !== null) {
+      const keyError = invalidIdempotencyKey(idempotencyKey)
+      if (keyError) {
+        return NextResponse.json({ error: keyError }, { status: 400 })
+      }
+      const fingerprint = await requestFingerprint(request.nextUrl.pathname, body, form?.get('file'))
+      const claimed = await claimIdempotencyKey(supabase, userId, proxyKey.id, idempotencyKey, fingerprint)
+      if ('response' in claimed) {
+        return claimed.response
+      }
+      if (claimed.id) {
+        idempotency.claim = { supabase, id: claimed.id }
+      }
+    }
+
+    // Rate limiting: per-minute and daily request limits of the tier and the key,
+    // in the store chosen by RATE_LIMIT_STORE
+    const rateLimiter = getRateLimiter()
+    const quotaScopes = quotaScopesFor(proxyKey)
+    quotaStatuses.push(...await consumeRequestQuotas(rateLimiter, quotaScopes))
+    const requestLimitExceeded = quotaStatuses.find(status => !status.allowed)
+    if (requestLimitExceeded) {
+      return rateLimitedResponse(requestLimitExceeded)
+    }
+
+    // Budgets the account or this key has spent: block, throttle, or (below) downgrade
+    const { data: budgets, error: budgetsError } = await supabase
+      .from('budgets')
+      .select('*')
+      .eq('user_id', userId)
+    if (budgetsError) {
+      console.error('Error fetching budgets:', budgetsError)
+    }
+    const enforcement = budgetEnforcement(budgets || [], proxyKey.id)
+    if (enforcement.blocked) {
+      return budgetExceededResponse(enforcement.blocked)
+    }
+    for (const budget of enforcement.throttled) {
+      const throttle = await rateLimiter.consume(`budget:${budget.id}`, { limit: budget.throttle_rpm!, windowMs: 60 * 1000 })
+      if (!throttle.allowed) {
+        return NextResponse.json({
+          error: 'Budget exceeded. Requests are throttled until the budget is raised or reset.',
+          budget_id: budget.id,
+          scope: budget.proxy_key_id ? 'key' : 'account'
+        }, {
+          status: 429,
+          headers: { 'Retry-After': throttle.resetSeconds.toString() }
+        })
+      }
+    }
+
+    // Negotiated prices, applied when the request is costed
+    const { data: pricingOverrides } = await supabase
+      .from('pricing_overrides')
+      .select('*')
+      .eq('user_id', userId)
+
+    // PII filter: personal data is blocked, masked or tokenized before anything else
+    // sees the payload. Multipart audio uploads are forwarded as received.
+    const clientIp = request.headers.get('x-forwarded-for') || request.headers.get('x-real-ip') || undefined
+    const pii = scrubPii(form ? {} : payload, proxyKey.pii)
+    for (const detection of pii.detections) {
+      securityLogger.securityEvent(userId, 'pii_detected', {
+        request_id: requestId,
+        proxy_key_id: proxyKey.id,
+        pii_type: detection.kind,
+        count: detection.count,
+        action: proxyKey.pii.action
+      }, clientIp)
+    }
+    if (proxyKey.pii.action === 'block' && pii.detections.length > 0) {
+      return NextResponse.json({
+        error: 'Request contains personal data and was blocked.',
+        pii_types: pii.detections.map(detection => detection.kind)
+      }, { status: 400 })
+    }
+
+    // Guardrails: leaked credentials and prompt-injection markers are reported,
+    // redacted or blocked, per key
+    const findings = applyGuardrails(form ? {} : payload, proxyKey.guardrails)
+    for (const finding of findings) {
+      securityLogger.securityEvent(userId, 'guardrail_triggered', {
+        request_id: requestId,
+        proxy_key_id: proxyKey.id,
+        check: finding.check,
+        finding: finding.name,
+        count: finding.count,
+        action: proxyKey.guardrails.action
+      }, clientIp)
+    }
+    if (proxyKey.guardrails.action === 'block' && findings.length > 0) {
+      return NextResponse.json({
+        error: 'Request blocked by guardrails.',
+        guardrails: findings.map(finding => ({ check: finding.check, finding: finding.name }))
+      }, { status: 400 })
+    }
+
+    // Keys with capture enabled sample the body as filtered, before routing rewrites it.
+    // It is stored with the response once a chat request has been served.
+    const capturedRequest = !form && shouldCapture(proxyKey.capture) ? JSON.stringify(payload) : undefined
+    const captureOf = (responseBody: string) => capturedRequest === undefined
+      ? undefined
+      : { settings: proxyKey.capture, requestBody: capturedRequest, responseBody }
+
+    // Pick which of the key's provider credentials serves this request
+    let endpoint = bodyEndpoint
+    let matchedKey: StoredCredential | undefined
+    if (options.resolveEndpoint) {
+      // Drop-in routes ignore any endpoint in the body and derive it from the credential,
+      // preferring the vendor that serves the requested model
+      const resolve = options.resolveEndpoint
+      const candidates = proxyKey.credentials.filter(credential => resolve(credential.provider))
+      const preferredProvider = providerForModel(payload.model)?.id
+      matchedKey = candidates.find(credential => credential.provider === preferredProvider) || candidates[0]
+      if (!matchedKey) {
+        return NextResponse.json({ error: 'No provider credential on this key is supported on this endpoint' }, { status: 400 })
+      }
+      endpoint = resolve(matchedKey.provider)
+    }
+
+    if (!endpoint) {
+      return NextResponse.json({ error: 'Missing endpoint in request body' }, { status: 400 })
+    }
+
+    // Security: Validate endpoint URL to prevent SSRF
+    let endpointHost: string
+    try {
+      endpointHost = new URL(endpoint).hostname
+      if (!providerForHost(endpointHost)) {
+        return NextResponse.json({ error: 'Invalid endpoint host' }, { status: 400 })
+      }
+    } catch {
+      return NextResponse.json({ error: 'Invalid endpoint URL' }, { status: 400 })
+    }
+
+    if (!matchedKey) {
+      const expectedProvider = providerForHost(endpointHost)?.id
+      matchedKey = proxyKey.credentials.find(credential => credential.provider === expectedProvider)
+      if (!matchedKey) {
+        return NextResponse.json({ error: 'Endpoint does not match API key provider' }, { status: 400 })
+      }
+    }
+
+    const provider = getProviderAdapter(matchedKey.provider)
+    if (!provider) {
+      return NextResponse.json({ error: `Provider ${matchedKey.provider} is not supported` }, { status: 400 })
+    }
+
+    // Vendors' OpenAI-compatible endpoints speak the OpenAI wire format
+    const format = isOpenAICompatibleEndpoint(endpoint) ? openaiAdapter : provider
+
+    // Embeddings are recognised by endpoint and cached per input
+    const embeddingFormat = embeddingFormatFor(endpoint)
+    const requestType: ProxyRequestType = options.requestType || (embeddingFormat ? 'embedding' : mediaRequestType(endpoint) || 'chat')
+    const embeddingInputs = embeddingFormat?.inputs(payload)
+
+    // Extract model and prompt content for caching
+    const requestedModel = format.requestModel(endpoint, payload)
+    const audioFile = form?.get('file')
+    const requestError = requestType === 'embedding'
+      ? (embeddingInputs ? null : 'Missing or invalid model/input in request body')
+      : requestType === 'image'
+        ? (typeof payload.prompt === 'string' ? null : 'Missing prompt in request body')
+        : requestType === 'audio'
+          ? (audioFile instanceof Blob ? null : 'Missing audio file in multipart request body')
+          : format.validateRequest(payload)
+    if (requestError) {
+      return NextResponse.json({ error: requestError }, { status: 400 })
+    }
+    if (!requestedModel) {
+      return NextResponse.json({ error: 'Missing model in request body' }, { status: 400 })
+    }
+    let model = requestedModel
+
+    // Validate model name
+    if (!providerForModel(model)) {
+      return NextResponse.json({ error: 'Unsupported model' }, { status: 400 })
+    }
+
+    // Estimate input tokens for routing checks; the provider's usage report replaces it once the call returns
+    // Images in vision requests are counted with the serving provider's tile rules
+    const inputText = embeddingFormat && embeddingInputs
+      ? embeddingInputs.map(embeddingFormat.inputText).join(' ')
+      : requestType === 'chat' ? format.inputText(payload) : typeof payload.prompt === 'string' ? payload.prompt : ''
+    const inputTokens = await estimateTokens(inputText, model)
+      + (requestType === 'chat' ? estimateImageInputTokens(providerForModel(model)?.id, payload) : 0)
+
+    // Query optimization rules
+    const { data: rules, error: rulesError } = await supabase
+      .from('optimization_rules')
+      .select('*')
+      .eq('user_id', matchedKey.user_id)
+      .eq('enabled', true)
+
+    if (rulesError) {
+      console.error('Error fetching optimization rules:', rulesError)
+    }
+
+    // A routed model is served by the current credential, or for a cross-vendor
+    // target by a credential of that provider with the request translated
+    let upstreamKey: StoredCredential = matchedKey
+    let routedProvider: ProviderAdapter = provider
+    const resolveRoute = routeResolver({
+      provider,
+      credential: matchedKey,
+      format,
+      requestType,
+      credentials: proxyKey.credentials
+    })
+
+    // Apply model routing if conditions match (first matching rule wins)
+    const originalModel = model
+    let appliedRule = null
+    const routing = selectRoutingRule(rules || [], { model, requestType, inputText, inputTokens }, resolveRoute)
+    if (routing) {
+      model = routing.rule.target_model
+      appliedRule = routing.rule
+      upstreamKey = routing.route.credential
+      routedProvider = routing.route.provider
+      console.log(`Model routed from ${originalModel} to ${model} (${routedProvider.id})`)
+    }
+
+    // Models missing from the catalog are costed at zero unless a blocking budget applies;
+    // then they are charged at their provider's most expensive catalog rates
+    const chargeUnpriced = budgetHeadroom(budgets || [], proxyKey.id) !== null
+    // For budget decisions a model missing from the catalog counts as its provider's most expensive one
+    const pricedAs = (candidate: string) =>
+      getModelPrice(candidate) ? candidate : mostExpensivePrice(providerForModel(candidate)?.id || '')?.model || candidate
+
+    // A spent 'downgrade' budget moves chat requests to the cheapest model this key can reach
+    if (enforcement.downgraded && requestType === 'chat') {
+      for (const cheaper of cheaperChatModels(pricedAs(model))) {
+        const cheaperPrice = getModelPrice(cheaper)
+        const route = providerForModel(cheaper) && cheaperPrice && inputTokens <= cheaperPrice.contextWindow
+          ? resolveRoute(cheaper)
+          : null
+        if (!route) continue
+        console.log(`Budget ${enforcement.downgraded.id} exceeded, model downgraded from ${model} to ${cheaper} (${route.provider.id})`)
+        model = cheaper
+        upstreamKey = route.credential
+        routedProvider = route.provider
+        break
+      }
+    }
+
+    // Blocking budgets: lower the output cap so the worst-case cost fits what they
+    // have left, and reject requests whose input alone would not fit
+    const headroom = requestType === 'chat' ? budgetHeadroom(budgets || [], proxyKey.id) : null
+    const worstCaseCost = (candidate: string, candidateProvider: string | undefined) => (outputTokens: number) =>
+      calculateCost(candidate, { inputTokens, outputTokens }, {
+        overrides: pricingOverrides || [],
+        proxyKeyId: proxyKey.id,
+        provider: candidateProvider,
+        chargeUnpriced
+      }).cost
+    let clampedOutputTokens: number | undefined
+    if (headroom) {
+      const affordable = affordableOutputTokens(worstCaseCost(model, upstreamKey.provider), headroom.remaining)
+      if (affordable < 1) {
+        return budgetExceededResponse(headroom.budget, 'Request would exceed the remaining budget.')
+      }
+      // An unpriced model's output limit is unknown, so without its own cap it is always capped
+      const requested = format.maxOutputTokens(payload)
+        ?? (getModelPrice(model) ? defaultOutputTokenCap(model, inputTokens) : Infinity)
+      if (affordable < requested) {
+        format.withMaxOutputTokens(payload, affordable)
+        clampedOutputTokens = affordable
+        console.log(`Budget ${headroom.budget.id} has $${headroom.remaining.toFixed(4)} left, output capped from ${requested} to ${affordable} tokens`)
+      }
+    }
+
+    // Update payload (or, for path-routed providers, the endpoint) with routed model
+    endpoint = format.withModel(endpoint, payload, model)
+
+    // Streamed responses are cached as raw SSE, so keep them apart from JSON entries
+    const streaming = format.isStreamingRequest(endpoint, payload)
+
+    // Tokens-per-minute limits: reserve the estimated input now, the rest after the call
+    const tokenStatuses = await consumeTokenQuota(rateLimiter, quotaScopes, inputTokens)
+    quotaStatuses.push(...tokenStatuses)
+    const tokenLimitExceeded = tokenStatuses.find(status => !status.allowed)
+    if (tokenLimitExceeded) {
+      return rateLimitedResponse(tokenLimitExceeded)
+    }
+    const tokenQuota: TokenQuota = { scopes: quotaScopes, reserved: inputTokens }
+
+    if (requestType === 'image' || requestType === 'audio') {
+      return proxyMediaRequest({
+        supabase,
+        request,
+        requestType,
+        form,
+        format,
+        endpoint,
+        payload,
+        upstreamKey,
+        credentials: proxyKey.credentials,
+        proxyKeyId: proxyKey.id,
+        pricingOverrides: pricingOverrides || [],
+        chargeUnpriced,
+        model,
+        originalModel,
+        appliedRule,
+        inputTokens,
+        tokenQuota,
+        startTime
+      })
+    }
+
+    if (embeddingFormat && embeddingInputs) {
+      return proxyEmbeddingRequest({
+        supabase,
+        request,
+        embeddingFormat,
+        inputs: embeddingInputs,
+        format,
+        endpoint,
+        payload,
+        upstreamKey,
+        credentials: proxyKey.credentials,
+        proxyKeyId: proxyKey.id,
+        pricingOverrides: pricingOverrides || [],
+        chargeUnpriced,
+        model,
+        originalModel,
+        appliedRule,
+        tokenQuota,
+        startTime
+      })
+    }
+
+    // Generate hash for prompt + model
+    const prompt = format.cachePrompt(model, payload)
+    const hashInput = JSON.stringify(streaming ? { ...prompt, stream: true } : prompt)
+    const requestHash = CryptoJS.SHA256(hashInput).toString()
+
+    // Check cache
+    const { data: cacheEntry } = await supabase
+      .from('cache_entries')
+      .select('*')
+      .eq('request_hash', requestHash)
+      .eq('user_id', matchedKey.user_id)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle()
+
+    if (cacheEntry) {
+      // Cache hit: log request asynchronously and return cached response
+      ;(async () => {
+        try {
+          await supabase
+            .from('api_requests')
+            .insert({
+              user_id: upstreamKey.user_id,
+              api_key_id: upstreamKey.id,
+              proxy_key_id: proxyKey.id,
+              provider: upstreamKey.provider,
+              model,
+              request_type: requestType,
+              tokens_used: 0,
+              input_tokens: 0,
+              output_tokens: 0,
+              cost: 0,
+              savings: 0,
+              latency: Date.now() - startTime,
+              status: 'cached'
+            })
+        } catch (error) {
+          console.error('Error logging cached request:', error)
+        }
+      })()
+
+      if (streaming) {
+        const cached = pii.tokens.size > 0
+          ? new Response(cacheEntry.response).body!.pipeThrough(createPiiRestoringStream(pii.tokens))
+          : cacheEntry.response
+        return new NextResponse(cached, {
+          headers: {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'X-CostLLM-Cached': 'true',
+            'X-CostLLM-Cost': '0',
+            'X-CostLLM-Tokens': '0'
+          }
+        })
+      }
+
+      return NextResponse.json(restorePii(JSON.parse(cacheEntry.response), pii.tokens), {
+        headers: {
+          'X-CostLLM-Cached': 'true',
+          'X-CostLLM-Cost': '0',
+          'X-CostLLM-Tokens': '0'
+        }
+      })
+    }
+
+    // Forward upstream, moving down the applied rule's fallbackChain while the
+    // provider errors (5xx, 429 after retries), times out or has its circuit open
+    // While downgraded, only fallbacks cheaper than the served model are tried, and
+    // under a blocking budget only those whose worst case still fits
+    const allowedFallbacks = enforcement.downgraded ? cheaperChatModels(pricedAs(model)) : null
+    const fitsHeadroom = (candidate: string) => {
+      if (!headroom) return true
+      const outputCap = format.maxOutputTokens(payload)
+        ?? (getModelPrice(candidate) ? defaultOutputTokenCap(candidate, inputTokens) : Infinity)
+      return worstCaseCost(candidate, providerForModel(candidate)?.id)(outputCap) <= headroom.remaining
+    }
+    const candidates = [model, ...fallbackModels(appliedRule?.conditions, model)
+      .filter(candidate => (!allowedFallbacks || allowedFallbacks.includes(candidate)) && fitsHeadroom(candidate))]
+    const fallbackAttempts: FallbackAttempt[] = []
+    let attemptCount = 0
+    let forwarded: Awaited<ReturnType<typeof forwardWithKeyPool>> | undefined
+    let translator: OpenAITranslator | undefined
+    for (const candidate of candidates) {
+      let route: { provider: ProviderAdapter; credential: StoredCredential } | null = { provider: routedProvider, credential: upstreamKey }
+      if (candidate !== model) {
+        const candidatePrice = getModelPrice(candidate)
+        const fits = !candidatePrice || inputTokens <= candidatePrice.contextWindow
+        route = providerForModel(candidate) && fits ? resolveRoute(candidate) : null
+        if (!route) {
+          console.warn(`Skipping fallback ${candidate}: not reachable with this key or too small for the prompt`)
+          continue
+        }
+      }
+
+      // Cross-vendor routes: rewrite the OpenAI-shaped request for the target provider
+      let upstreamFormat = format
+      let upstreamEndpoint = format.withModel(endpoint, payload, candidate)
+      let upstreamPayload: Record<string, unknown> = payload
+      translator = undefined
+      if (route.provider !== provider) {
+        if (route.provider.openAITranslator) {
+          translator = route.provider.openAITranslator
+          ;({ endpoint: upstreamEndpoint, payload: upstreamPayload } = translator.toNativeRequest(payload, candidate, streaming))
+          upstreamFormat = route.provider
+        } else if (route.provider.openAICompatible.chat) {
+          upstreamEndpoint = route.provider.openAICompatible.chat
+        }
+      }
+
+      const prepared = streaming
+        ? upstreamFormat.prepareStreamingRequest(upstreamEndpoint, upstreamPayload)
+        : { endpoint: upstreamEndpoint, payload: upstreamPayload }
+      const attemptStart = Date.now()
+      attemptCount++
+      forwarded = await forwardWithKeyPool({
+        supabase,
+        poolId: `${proxyKey.id}:${route.credential.provider}`,
+        credentials: proxyKey.credentials.filter(credential => credential.provider === route.credential.provider),
+        model: candidate,
+        authorize: apiKey => upstreamFormat.authorize(prepared.endpoint, apiKey, request.headers),
+        payload: prepared.payload,
+        streaming
+      })
+      if (!('error' in forwarded)) {
+        model = candidate
+        upstreamKey = forwarded.credential
+        break
+      }
+      if (!isFallbackStatus(forwarded.error.status)) break
+
+      const { status } = forwarded.error
+      const { error } = await forwarded.error.clone().json()
+      fallbackAttempts.push({
+        model: candidate,
+        provider: route.credential.provider,
+        status,
+        error,
+        latency: Date.now() - attemptStart,
+        cost: failedAttemptCost(candidate, status, inputTokens, {
+          overrides: pricingOverrides || [],
+          proxyKeyId: proxyKey.id,
+          provider: route.credential.provider,
+          chargeUnpriced
+        })
+      })
+      console.warn(`${candidate} failed with ${status}, trying the next fallback model`)
+    }
+
+    if (!forwarded || 'error' in forwarded) {
+      const failed = forwarded?.error || NextResponse.json({ error: 'No model in the fallback chain is reachable' }, { status: 502 })
+      failed.headers.set('X-CostLLM-Attempts', attemptCount.toString())
+      return failed
+    }
+    const { response } = forwarded
+
+    if (streaming && response.body) {
+      // Pipe provider SSE chunks straight through and account once the stream ends,
+      // or for what was streamed when the client disconnects first
+      const accounting = createAccountingStream(format.id, async (result) => {
+        const usage = await resolveUsage(result.usage, {
+          inputTokens,
+          outputText: requestType === 'embedding' ? null : result.outputText,
+          model
+        })
+
+        recordCompletedRequest({
+          supabase,
+          apiKey: upstreamKey,
+          proxyKeyId: proxyKey.id,
+          pricingOverrides: pricingOverrides || [],
+          chargeUnpriced,
+          model,
+          originalModel,
+          appliedRule,
+          requestType,
+          // A cut-off stream is not a response worth replaying
+          cacheEntries: result.cancelled ? [] : [{ requestHash, response: result.raw }],
+          usage,
+          tokenQuota,
+          fallbackAttempts,
+          latency: Date.now() - startTime,
+          capture: captureOf(result.raw)
+        })
+      })
+
+      // Translated streams are rewritten into OpenAI chunks before accounting and caching
+      const body = translator
+        ? response.body.pipeThrough(createOpenAITranslatingStream(translator, model))
+        : response.body
+
+      // Accounting and the cache see the tokens; the caller gets the original values back
+      const accounted = body.pipeThrough(accounting)
+      return new NextResponse(pii.tokens.size > 0 ? accounted.pipeThrough(createPiiRestoringStream(pii.tokens)) : accounted, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache',
+          'X-CostLLM-Cached': 'false',
+          'X-CostLLM-Attempts': attemptCount.toString(),
+          ...clampedHeaders(clampedOutputTokens)
+        }
+      })
+    }
+
+    const upstreamData = await response.json()
+    const data = translator ? translator.toOpenAIResponse(upstreamData, model) : upstreamData
+
+    // Price from the provider's usage report, estimating only what it leaves out
+    const { outputText, usage: reportedUsage } = format.parseResponse(data)
+    const usage = await resolveUsage(reportedUsage, {
+      inputTokens,
+      outputText: requestType === 'embedding' ? null : outputText,
+      model
+    })
+
+    const { cost } = recordCompletedRequest({
+      supabase,
+      apiKey: upstreamKey,
+      proxyKeyId: proxyKey.id,
+      pricingOverrides: pricingOverrides || [],
+      chargeUnpriced,
+      model,
+      originalModel,
+      appliedRule,
+      requestType,
+      cacheEntries: [{ requestHash, response: JSON.stringify(data) }],
+      usage,
+      tokenQuota,
+      fallbackAttempts,
+      latency: Date.now() - startTime,
+      capture: captureOf(JSON.stringify(data))
+    })
+
+    return NextResponse.json(restorePii(data, pii.tokens), {
+      headers: {
+        'X-CostLLM-Cached': 'false',
+        'X-CostLLM-Cost': cost.toString(),
+        'X-CostLLM-Tokens': (usage.inputTokens + usage.outputTokens).toString(),
+        'X-CostLLM-Usage-Source': usage.source,
+        'X-CostLLM-Attempts': attemptCount.toString(),
+        ...clampedHeaders(clampedOutputTokens)
+      }
+    })
+
+  } catch (error) {
+    console.error('Proxy error:', error)
+    return NextResponse.json({ error: 'Internal server error' }, { status: 500 })
+  }
+}
+
+interface CompletedRequest {
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>
+  apiKey: { id: string; user_id: string; provider: string }
+  proxyKeyId: string
+  pricingOverrides: PricingOverride[]
+  // Price models missing from the catalog at their provider's top rates, under a blocking budget
+  chargeUnpriced: boolean
+  model: string
+  originalModel: string
+  appliedRule: { id: string; savings_usd?: number } | null
+  requestType: ProxyRequestType
+  // Responses to cache: the whole response, or one vector per new embedding input
+  cacheEntries: Array<{ requestHash: string; response: string }>
+  usage: ResolvedUsage
+  // Generated images or seconds of audio, for requests not billed by tokens
+  media?: Pick<PricedUsage, 'images' | 'audioSeconds'>
+  tokenQuota: TokenQuota
+  // Calls that failed before this one served the request, from the fallback chain
+  fallbackAttempts?: FallbackAttempt[]
+  latency: number
+  // 'cached' when every embedding input was served from the cache
+  status?: 'success' | 'cached'
+  // Bodies to store in request_captures, for sampled requests of keys with capture enabled
+  capture?: { settings: CaptureSettings; requestBody: string; responseBody: string }
+}
+
+// Prices a finished upstream call and fires the bookkeeping writes (rule savings,
+// budgets, cache, request log). Shared by the JSON, streaming and embedding paths.
+function recordCompletedRequest(completed: CompletedRequest): { cost: number; savings: number } {
+  const { supabase, apiKey, model, originalModel, appliedRule } = completed
+  const { inputTokens, outputTokens, cachedInputTokens, reasoningTokens } = completed.usage
+
+  const pricing = {
+    overrides: completed.pricingOverrides,
+    proxyKeyId: completed.proxyKeyId,
+    provider: apiKey.provider,
+    chargeUnpriced: completed.chargeUnpriced
+  }
+  const pricedUsage: PricedUsage = { inputTokens, outputTokens, cachedInputTokens, ...completed.media }
+  const served = calculateCost(model, pricedUsage, pricing)
+  const { listCost, priceVersion, overrideId, unpriced } = served
+  const { unitType, units } = billedUnits(pricedUsage)
+  if (unpriced) {
+    console.warn(completed.chargeUnpriced
+      ? `No catalog price for model ${model}, charging its provider's most expensive catalog rates`
+      : `No catalog price for model ${model}, logging request as unpriced with zero cost`)
+  }
+
+  // Failed fallback attempts are part of what the request cost
+  const fallbackAttempts = completed.fallbackAttempts || []
+  const fallbackCost = fallbackAttempts.reduce((total, attempt) => total + attempt.cost, 0)
+  const cost = served.cost + fallbackCost
+
+  // Calculate savings if model was routed
+  let savings = 0
+  if (appliedRule) {
+    const originalCost = calculateCost(originalModel, pricedUsage, pricing).cost
+    savings = originalCost - served.cost
+
+    // Update rule savings asynchronously
+    ;(async () => {
+      try {
+        const currentSavings = appliedRule.savings_usd || 0
+        await supabase
+          .from('optimization_rules')
+          .update({ savings_usd: currentSavings + savings })
+          .eq('id', appliedRule.id)
+      } catch (error) {
+        console.error('Error updating rule savings:', error)
+      }
+    })()
+  }
+
+  // Add the spend to the account's and this key's budgets asynchronously. One
+  // atomic increment, so concurrent requests never overwrite each other's spend.
+  if (cost > 0) {
+    ;(async () => {
+      try {
+        const { error } = await supabase.rpc('record_budget_spend', {
+          p_user_id: apiKey.user_id,
+          p_proxy_key_id: completed.proxyKeyId,
+          p_cost: cost
+        })
+        if (error) {
+          console.error('Error updating budgets:', error)
+        }
+      } catch (error) {
+        console.error('Error updating budgets:', error)
+      }
+    })()
+  }
+
+  // Count tokens beyond the reservation against tokens-per-minute limits
+  const unreservedTokens = inputTokens + outputTokens - completed.tokenQuota.reserved
+  if (unreservedTokens > 0) {
+    ;(async () => {
+      try {
+        await recordTokenUsage(getRateLimiter(), completed.tokenQuota.scopes, unreservedTokens)
+      } catch (error) {
+        console.error('Error recording token usage:', error)
+      }
+    })()
+  }
+
+  // Store response in cache asynchronously
+  if (completed.cacheEntries.length > 0) {
+    ;(async () => {
+      try {
+        const expiresAt = new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString()
+        await supabase
+          .from('cache_entries')
+          .insert(completed.cacheEntries.map(entry => ({
+            user_id: apiKey.user_id,
+            request_hash: entry.requestHash,
+            response: entry.response,
+            expires_at: expiresAt
+          })))
+      } catch (error) {
+        console.error('Error storing cache:', error)
+      }
+    })()
+  }
+
+  // Log request asynchronously, then its captured bodies
+  ;(async () => {
+    try {
+      const { data: logged } = await supabase
+        .from('api_requests')
+        .insert({
+          user_id: apiKey.user_id,
+          api_key_id: apiKey.id,
+          proxy_key_id: completed.proxyKeyId,
+          provider: apiKey.provider,
+          model,
+          request_type: completed.requestType,
+          tokens_used: inputTokens + outputTokens,
+          input_tokens: inputTokens,
+          output_tokens: outputTokens,
+          cached_input_tokens: cachedInputTokens,
+          reasoning_tokens: reasoningTokens,
+          unit_type: unitType,
+          units,
+          cost: cost,
+          savings: savings,
+          price_version: priceVersion,
+          list_cost: listCost,
+          usage_source: completed.usage.source,
+          pricing_override_id: overrideId,
+          unpriced,
+          attempt: fallbackAttempts.length + 1,
+          fallback_attempts: fallbackAttempts.length > 0 ? fallbackAttempts : null,
+          fallback_cost: fallbackCost,
+          latency: completed.latency,
+          status: completed.status || 'success'
+        })
+        .select('id')
+        .single()
+
+      if (completed.capture && logged) {
+        // Redacted before anything is stored, then encrypted at rest
+        const capture = prepareCapture(completed.capture.settings, completed.capture.requestBody, completed.capture.responseBody)
+        await supabase
+          .from('request_captures')
+          .insert({
+            user_id: apiKey.user_id,
+            api_request_id: logged.id,
+            proxy_key_id: completed.proxyKeyId,
+            request_body: AES.encrypt(capture.requestBody, secretKey).toString(),
+            response_body: AES.encrypt(capture.responseBody, secretKey).toString(),
+            redactions: capture.redactions,
+            expires_at: capture.expiresAt
+          })
+      }
+    } catch (error) {
+      console.error('Error logging request:', error)
+    }
+  })()
+
+  return { cost, savings }
+}
+
+type Forwarded = { response: Response; credential: StoredCredential } | { error: NextResponse }
+
+interface KeyPoolForward {
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>
+  // `${proxyKeyId}:${provider}`, so each CostLLM key rotates its own credentials
+  poolId: string
+  // The CostLLM key's credentials for one provider
+  credentials: StoredCredential[]
+  model: string
+  authorize: (apiKey: string) => UpstreamRequest
+  payload: Record<string, unknown> | FormData
+  streaming: boolean
+}
+
+// Forwards with the pool's credentials in key pool order. A credential answering
+// 429 or 401 is taken out of rotation and the next one is tried at once; provider
+// 429s are only retried with backoff on the last credential left.
+async function forwardWithKeyPool(forward: KeyPoolForward): Promise<Forwarded> {
+  const credentials = keyPool.order(forward.poolId, forward.credentials)
+  if (credentials.length === 0) {
+    return { error: NextResponse.json({ error: 'No usable provider credential on this key' }, { status: 503 }) }
+  }
+  const provider = credentials[0].provider
+
+  return forwardThroughCircuit(provider, forward.model, async canRetry => {
+    let error: NextResponse | undefined
+    for (const [index, credential] of credentials.entries()) {
+      const last = index === credentials.length - 1
+      const realApiKey = AES.decrypt(credential.api_key, secretKey).toString(CryptoJS.enc.Utf8)
+      const forwarded = await forwardUpstream(
+        forward.authorize(realApiKey),
+        forward.payload,
+        forward.streaming,
+        reason => canRetry() && (reason === 'network' || last)
+      )
+      if (!('error' in forwarded)) {
+        return { response: forwarded.response, credential }
+      }
+
+      error = forwarded.error
+      recordCredentialError(forward.supabase, credential, error)
+      if (error.status !== 401 && error.status !== 429) break
+      if (!last) console.warn(`Provider key ${credential.id} answered ${error.status}, trying the next key in the pool`)
+    }
+    return { error: error! }
+  })
+}
+
+// Counts a credential's failed call for the API keys page and takes rate-limited
+// (429) and rejected (401) credentials out of rotation
+function recordCredentialError(
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>,
+  credential: StoredCredential,
+  failure: NextResponse
+) {
+  const now = new Date()
+  const update: Record<string, string | number> = {
+    error_count: (credential.error_count || 0) + 1,
+    last_error_status: failure.status,
+    last_error_at: now.toISOString()
+  }
+  if (failure.status === 429) {
+    const until = keyPool.markRateLimited(credential.id, retryAfterSeconds(failure.headers.get('Retry-After')), now.getTime())
+    update.rate_limited_count = (credential.rate_limited_count || 0) + 1
+    update.last_rate_limited_at = now.toISOString()
+    update.rate_limited_until = until.toISOString()
+  } else if (failure.status === 401) {
+    keyPool.markInvalid(credential.id)
+    update.status = 'invalid'
+  }
+
+  ;(async () => {
+    try {
+      await supabase
+        .from('api_keys')
+        .update(update)
+        .eq('id', credential.id)
+    } catch (error) {
+      console.error('Error recording provider key error:', error)
+    }
+  })()
+}
+
+// Runs send through the provider/model's circuit breaker: fails fast with 503
+// while the circuit is open, stops retries once it opens, and reports the outcome.
+// Alternates only come from the applied rule's fallbackChain, which treats the 503
+// like any provider outage; without one the 503 goes back to the caller.
+async function forwardThroughCircuit(
+  provider: string,
+  model: string,
+  send: (canRetry: () => boolean) => Promise<Forwarded>
+): Promise<Forwarded> {
+  if (!circuitBreakers.allowRequest(provider, model)) {
+    const retryAfter = circuitBreakers.retryAfterSeconds(provider, model)
+    return {
+      error: NextResponse.json(
+        { error: `${model} on ${provider} is failing, circuit open. Try again later.` },
+        { status: 503, headers: { 'Retry-After': retryAfter.toString() } }
+      )
+    }
+  }
+
+  const start = Date.now()
+  try {
+    const forwarded = await send(() => circuitBreakers.allowRetry(provider, model))
+    const ok = !('error' in forwarded) || !isFallbackStatus(forwarded.error.status)
+    circuitBreakers.record(provider, model, ok, Date.now() - start)
+    return forwarded
+  } catch (error) {
+    circuitBreakers.record(provider, model, false, Date.now() - start)
+    throw error
+  }
+}
+
+// Sends the request upstream, retrying provider 429s with exponential backoff and
+// network errors while canRetry allows. Returns the successful response or the
+// error response to send back: timeouts as 408, network errors as 502.
+async function forwardUpstream(
+  upstream: UpstreamRequest,
+  payload: Record<string, unknown> | FormData,
+  streaming: boolean,
+  canRetry: (reason: 'rate-limited' | 'network') => boolean = () => true
+): Promise<{ response: Response } | { error: NextResponse }> {
+  // fetch sets the multipart Content-Type (with its boundary) for form bodies
+  const multipart = payload instanceof FormData
+  const headers = multipart
+    ? Object.fromEntries(Object.entries(upstream.headers).filter(([name]) => name.toLowerCase() !== 'content-type'))
+    : upstream.headers
+  const body = multipart ? payload : JSON.stringify(payload)
+
+  let response: Response | undefined
+  let retryCount = 0
+  const maxRetries = 3
+
+  while (retryCount <= maxRetries) {
+    // Streams may legitimately run longer than 30s, so only bound the wait for headers
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), 30000) // 30 second timeout
+    try {
+      response = await fetch(upstream.endpoint, {
+        method: 'POST',
+        headers,
+        body,
+        signal: controller.signal,
+      })
+      if (streaming) clearTimeout(timeout)
+
+      if (response.status === 429 && retryCount < maxRetries && canRetry('rate-limited')) {
+        // Exponential backoff: wait 2^retryCount seconds
+        const waitTime = Math.pow(2, retryCount) * 1000
+        console.log(`Rate limited, retrying in ${waitTime}ms (attempt ${retryCount + 1}/${maxRetries})`)
+        await new Promise(resolve => setTimeout(resolve, waitTime))
+        retryCount++
+        continue
+      }
+      break
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        return { error: NextResponse.json({ error: 'Request timeout' }, { status: 408 }) }
+      }
+      if (retryCount < maxRetries && canRetry('network')) {
+        retryCount++
+        continue
+      }
+      // An unreachable provider is answered like a provider outage, so the fallback chain moves on
+      const message = error instanceof Error ? error.message : String(error)
+      return { error: NextResponse.json({ error: `Provider unreachable: ${message}` }, { status: 502 }) }
+    } finally {
+      if (!streaming) clearTimeout(timeout)
+    }
+  }
+
+  if (!response || !response.ok) {
+    const errorText = response ? await response.text() : 'No response'
+    if (response?.status === 429) {
+      // Keep the provider's Retry-After so the key pool knows when the key recovers
+      const retryAfter = response.headers.get('retry-after')
+      return {
+        error: NextResponse.json(
+          { error: 'Rate limit exceeded by provider after retries' },
+          { status: 429, headers: retryAfter ? { 'Retry-After': retryAfter } : undefined }
+        )
+      }
+    }
+    return { error: NextResponse.json({ error: `Provider API error: ${errorText}` }, { status: response?.status || 500 }) }
+  }
+
+  return { response }
+}
+
+interface EmbeddingProxyRequest {
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>
+  request: NextRequest
+  embeddingFormat: EmbeddingFormat
+  inputs: unknown[]
+  format: ProviderAdapter
+  endpoint: string
+  payload: Record<string, unknown>
+  upstreamKey: StoredCredential
+  // All of the CostLLM key's credentials; those of upstreamKey's provider form its pool
+  credentials: StoredCredential[]
+  proxyKeyId: string
+  pricingOverrides: PricingOverride[]
+  chargeUnpriced: boolean
+  model: string
+  originalModel: string
+  appliedRule: { id: string; savings_usd?: number } | null
+  tokenQuota: TokenQuota
+  startTime: number
+}
+
+// Embeddings are cached per input. Only inputs missing from the cache (once each,
+// even if repeated in the batch) are sent upstream and billed; the response is
+// reassembled in the caller's order from cached and fresh vectors.
+async function proxyEmbeddingRequest(embedding: EmbeddingProxyRequest) {
+  const { supabase, embeddingFormat, inputs, model, upstreamKey } = embedding
+  let servingKey = upstreamKey
+
+  const options = embeddingFormat.options(embedding.payload)
+  const keys = inputs.map(input => embeddingCacheKey(model, options, input))
+
+  const { data: cached } = await supabase
+    .from('cache_entries')
+    .select('request_hash, response')
+    .in('request_hash', Array.from(new Set(keys)))
+    .eq('user_id', upstreamKey.user_id)
+    .gt('expires_at', new Date().toISOString())
+
+  const vectors = new Map<string, unknown>()
+  for (const entry of cached || []) {
+    vectors.set(entry.request_hash, JSON.parse(entry.response))
+  }
+
+  // Index of the first occurrence of every input that still needs embedding
+  const missing: number[] = []
+  const pending = new Set<string>()
+  keys.forEach((key, index) => {
+    if (vectors.has(key) || pending.has(key)) return
+    pending.add(key)
+    missing.push(index)
+  })
+
+  let usage: ResolvedUsage = { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, reasoningTokens: 0, source: 'provider' }
+  const cacheEntries: Array<{ requestHash: string; response: string }> = []
+
+  if (missing.length > 0) {
+    const missingInputs = missing.map(index => inputs[index])
+    const forwarded = await forwardWithKeyPool({
+      supabase,
+      poolId: `${embedding.proxyKeyId}:${upstreamKey.provider}`,
+      credentials: embedding.credentials.filter(credential => credential.provider === upstreamKey.provider),
+      model,
+      authorize: apiKey => embedding.format.authorize(embedding.endpoint, apiKey, embedding.request.headers),
+      payload: embeddingFormat.withInputs(embedding.payload, missingInputs, model),
+      streaming: false
+    })
+    if ('error' in forwarded) {
+      return forwarded.error
+    }
+    servingKey = forwarded.credential
+
+    const parsed = embeddingFormat.parseResponse(await forwarded.response.json())
+    if (parsed.embeddings.length !== missingInputs.length) {
+      return NextResponse.json({ error: 'Provider returned an unexpected number of embeddings' }, { status: 502 })
+    }
+
+    missing.forEach((index, position) => {
+      vectors.set(keys[index], parsed.embeddings[position])
+      cacheEntries.push({ requestHash: keys[index], response: JSON.stringify(parsed.embeddings[position]) })
+    })
+
+    // Gemini embed responses carry no usage, so those are estimated
+    const estimatedTokens = await estimateTokens(missingInputs.map(embeddingFormat.inputText).join(' '), model)
+    usage = await resolveUsage({ inputTokens: parsed.inputTokens }, { inputTokens: estimatedTokens, outputText: null, model })
+  }
+
+  const { cost } = recordCompletedRequest({
+    supabase,
+    apiKey: servingKey,
+    proxyKeyId: embedding.proxyKeyId,
+    pricingOverrides: embedding.pricingOverrides,
+    chargeUnpriced: embedding.chargeUnpriced,
+    model,
+    originalModel: embedding.originalModel,
+    appliedRule: embedding.appliedRule,
+    requestType: 'embedding',
+    cacheEntries,
+    usage,
+    tokenQuota: embedding.tokenQuota,
+    latency: Date.now() - embedding.startTime,
+    status: missing.length === 0 ? 'cached' : 'success'
+  })
+
+  return NextResponse.json(embeddingFormat.buildResponse(model, keys.map(key => vectors.get(key)), usage.inputTokens), {
+    headers: {
+      'X-CostLLM-Cached': missing.length === 0 ? 'true' : 'false',
+      'X-CostLLM-Cached-Inputs': (inputs.length - missing.length).toString(),
+      'X-CostLLM-Cost': cost.toString(),
+      'X-CostLLM-Tokens': usage.inputTokens.toString(),
+      'X-CostLLM-Usage-Source': usage.source
+    }
+  })
+}
+
+interface MediaProxyRequest {
+  supabase: Awaited<ReturnType<typeof createServerSupabaseClient>>
+  request: NextRequest
+  requestType: 'image' | 'audio'
+  // The multipart body of audio requests
+  form?: FormData
+  format: ProviderAdapter
+  endpoint: string
+  payload: Record<string, unknown>
+  upstreamKey: StoredCredential
+  // All of the CostLLM key's credentials; those of upstreamKey's provider form its pool
+  credentials: StoredCredential[]
+  proxyKeyId: string
+  pricingOverrides: PricingOverride[]
+  chargeUnpriced: boolean
+  model: string
+  originalModel: string
+  appliedRule: { id: string; savings_usd?: number } | null
+  inputTokens: number
+  tokenQuota: TokenQuota
+  startTime: number
+}
+
+// Image generation is billed per image and transcription per minute of audio.
+// Neither is cached: generations differ on every call and uploads are large.
+async function proxyMediaRequest(media: MediaProxyRequest) {
+  const { model, payload, form } = media
+
+  let body: Record<string, unknown> | FormData = payload
+  if (media.requestType === 'audio' && form) {
+    // Forward the upload as multipart with the (possibly routed) model
+    body = new FormData()
+    for (const [name, value] of Array.from(form.entries())) {
+      if (name !== 'endpoint' && name !== 'model') body.append(name, value)
+    }
+    body.set('model', model)
+  }
+
+  const provider = media.upstreamKey.provider
+  const forwarded = await forwardWithKeyPool({
+    supabase: media.supabase,
+    poolId: `${media.proxyKeyId}:${provider}`,
+    credentials: media.credentials.filter(credential => credential.provider === provider),
+    model,
+    authorize: apiKey => media.format.authorize(media.endpoint, apiKey, media.request.headers),
+    payload: body,
+    streaming: false
+  })
+  if ('error' in forwarded) {
+    return forwarded.error
+  }
+
+  // Transcriptions may be plain text, SRT or VTT depending on response_format
+  const contentType = forwarded.response.headers.get('content-type') || 'application/json'
+  const raw = await forwarded.response.text()
+  let data: unknown = null
+  if (contentType.includes('json')) {
+    try {
+      data = JSON.parse(raw)
+    } catch {
+      data = null
+    }
+  }
+
+  let usage: ResolvedUsage
+  let mediaUsage: Pick<PricedUsage, 'images' | 'audioSeconds'>
+  if (media.requestType === 'image') {
+    // gpt-image models also bill prompt tokens and report them
+    const reported = (data as { usage?: { input_tokens?: number } } | null)?.usage?.input_tokens
+    usage = await resolveUsage({ inputTokens: reported }, { inputTokens: media.inputTokens, outputText: null, model })
+    mediaUsage = { images: generatedImages(payload, data) }
+  } else {
+    const seconds = reportedAudioSeconds(data)
+    usage = { inputTokens: 0, outputTokens: 0, cachedInputTokens: 0, reasoningTokens: 0, source: seconds === undefined ? 'estimated' : 'provider' }
+    mediaUsage = { audioSeconds: seconds ?? await estimateAudioSeconds(form?.get('file') as Blob) }
+  }
+
+  const { cost } = recordCompletedRequest({
+    supabase: media.supabase,
+    apiKey: forwarded.credential,
+    proxyKeyId: media.proxyKeyId,
+    pricingOverrides: media.pricingOverrides,
+    chargeUnpriced: media.chargeUnpriced,
+    model,
+    originalModel: media.originalModel,
+    appliedRule: media.appliedRule,
+    requestType: media.requestType,
+    cacheEntries: [],
+    usage,
+    media: mediaUsage,
+    tokenQuota: media.tokenQuota,
+    latency: Date.now() - media.startTime
+  })
+  const { unitType, units } = billedUnits({ inputTokens: 0, outputTokens: 0, ...mediaUsage })
+
+  return new NextResponse(raw, {
+    headers: {
+      'Content-Type': contentType,
+      'X-CostLLM-Cached': 'false',
+      'X-CostLLM-Cost': cost.toString(),
+      'X-CostLLM-Tokens': (usage.inputTokens + usage.outputTokens).toString(),
+      'X-CostLLM-Unit-Type': unitType,
+      'X-CostLLM-Units': units.toString(),
+      'X-CostLLM-Usage-Source': usage.source
+    }
+  })
+}
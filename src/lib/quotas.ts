@@ -0,0 +1,135 @@
+import { RateLimiter, RateLimitResult } from '@/lib/rate-limit'
+
+export type SubscriptionTier = 'free' | 'starter' | 'pro' | 'enterprise'
+
+// null means no limit on that dimension
+export interface QuotaLimits {
+  requestsPerMinute: number | null
+  tokensPerMinute: number | null
+  requestsPerDay: number | null
+}
+
+// Account-wide limits per subscription tier. requestsPerDay is the tier's
+// request allowance shown by /api/stripe/subscription.
+export const tierQuotas: Record<SubscriptionTier, QuotaLimits> = {
+  free: { requestsPerMinute: 100, tokensPerMinute: 100_000, requestsPerDay: 100 },
+  starter: { requestsPerMinute: 300, tokensPerMinute: 500_000, requestsPerDay: 1_000 },
+  pro: { requestsPerMinute: 1_000, tokensPerMinute: 2_000_000, requestsPerDay: 10_000 },
+  enterprise: { requestsPerMinute: 3_000, tokensPerMinute: 10_000_000, requestsPerDay: 100_000 }
+}
+
+export function tierQuotaLimits(tier: string | null | undefined): QuotaLimits {
+  return tierQuotas[tier as SubscriptionTier] || tierQuotas.free
+}
+
+export type QuotaDimension = 'requests' | 'tokens' | 'requests-day'
+
+const dimensions: Record<QuotaDimension, { limit: keyof QuotaLimits; windowMs: number; header: string }> = {
+  requests: { limit: 'requestsPerMinute', windowMs: 60 * 1000, header: 'Requests' },
+  tokens: { limit: 'tokensPerMinute', windowMs: 60 * 1000, header: 'Tokens' },
+  'requests-day': { limit: 'requestsPerDay', windowMs: 24 * 60 * 60 * 1000, header: 'Requests-Day' }
+}
+
+export const quotaDimensions = Object.keys(dimensions) as QuotaDimension[]
+
+// A set of limits counted under one id: the account (`user:<id>`, tier limits)
+// or a single CostLLM key (`key:<id>`, its own limits)
+export interface QuotaScope {
+  id: string
+  limits: QuotaLimits
+}
+
+export interface QuotaStatus extends RateLimitResult {
+  scope: string
+  dimension: QuotaDimension
+}
+
+// Per-key limits as stored on proxy_keys
+export interface ProxyKeyLimitColumns {
+  rpm_limit?: number | null
+  tpm_limit?: number | null
+  daily_request_limit?: number | null
+}
+
+export function proxyKeyQuotaLimits(key: ProxyKeyLimitColumns): QuotaLimits {
+  return {
+    requestsPerMinute: key.rpm_limit ?? null,
+    tokensPerMinute: key.tpm_limit ?? null,
+    requestsPerDay: key.daily_request_limit ?? null
+  }
+}
+
+async function consumeDimensions(
+  limiter: RateLimiter,
+  scopes: QuotaScope[],
+  dimensionNames: QuotaDimension[],
+  amount: number
+): Promise<QuotaStatus[]> {
+  const statuses: QuotaStatus[] = []
+  for (const scope of scopes) {
+    for (const dimension of dimensionNames) {
+      const limit = scope.limits[dimensions[dimension].limit]
+      if (limit === null) continue
+      const result = await limiter.consume(`${scope.id}:${dimension}`, { limit, windowMs: dimensions[dimension].windowMs }, amount)
+      statuses.push({ ...result, scope: scope.id, dimension })
+      // Stop at the first exceeded limit so later ones are not charged
+      if (!result.allowed) return statuses
+    }
+  }
+  return statuses
+}
+
+// Counts one request against the per-minute and daily request limits of every scope
+export function consumeRequestQuotas(limiter: RateLimiter, scopes: QuotaScope[]): Promise<QuotaStatus[]> {
+  return consumeDimensions(limiter, scopes, ['requests', 'requests-day'], 1)
+}
+
+// Reserves the request's estimated input tokens against the tokens-per-minute limits
+export function consumeTokenQuota(limiter: RateLimiter, scopes: QuotaScope[], tokens: number): Promise<QuotaStatus[]> {
+  return consumeDimensions(limiter, scopes, ['tokens'], tokens)
+}
+
+// Adds tokens used beyond the reservation once the provider has reported usage.
+// They may take a scope over its limit; later requests then wait for the window.
+export async function recordTokenUsage(limiter: RateLimiter, scopes: QuotaScope[], tokens: number): Promise<void> {
+  if (tokens <= 0) return
+  for (const scope of scopes) {
+    const limit = scope.limits.tokensPerMinute
+    if (limit === null) continue
+    await limiter.record(`${scope.id}:tokens`, { limit, windowMs: dimensions.tokens.windowMs }, tokens)
+  }
+}
+
+// Current usage of every limited dimension, for the dashboard
+export async function peekQuotas(limiter: RateLimiter, scope: QuotaScope): Promise<QuotaStatus[]> {
+  const statuses: QuotaStatus[] = []
+  for (const dimension of quotaDimensions) {
+    const limit = scope.limits[dimensions[dimension].limit]
+    if (limit === null) continue
+    const result = await limiter.peek(`${scope.id}:${dimension}`, { limit, windowMs: dimensions[dimension].windowMs })
+    statuses.push({ ...result, scope: scope.id, dimension })
+  }
+  return statuses
+}
+
+// X-RateLimit-{Limit,Remaining,Reset}-{Requests,Tokens,Requests-Day}. When both the
+// account and the key limit a dimension, the one with less headroom is reported.
+// Reset is in seconds.
+export function rateLimitHeaders(statuses: QuotaStatus[]): Record<string, string> {
+  const tightest = new Map<QuotaDimension, QuotaStatus>()
+  for (const status of statuses) {
+    const current = tightest.get(status.dimension)
+    if (!current || status.remaining < current.remaining) {
+      tightest.set(status.dimension, status)
+    }
+  }
+
+  const headers: Record<string, string> = {}
+  tightest.forEach((status, dimension) => {
+    const suffix = dimensions[dimension].header
+    headers[`X-RateLimit-Limit-${suffix}`] = status.limit.toString()
+    headers[`X-RateLimit-Remaining-${suffix}`] = status.remaining.toString()
+    headers[`X-RateLimit-Reset-${suffix}`] = status.resetSeconds.toString()
+  })
+  return headers
+}
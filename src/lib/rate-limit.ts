@@ -0,0 +1,225 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { RedisClient } from '@/lib/redis'
+
+export interface RateLimitResult {
+  allowed: boolean
+  limit: number
+  remaining: number
+  // Seconds until the window frees up capacity
+  resetSeconds: number
+}
+
+export interface RateLimitWindow {
+  limit: number
+  windowMs: number
+}
+
+// Counts usage (requests, tokens) per key. Implementations must be safe to share
+// between concurrent requests; the shared ones are also consistent across instances.
+export interface RateLimiter {
+  // Adds amount if it fits under the limit
+  consume(key: string, window: RateLimitWindow, amount?: number): Promise<RateLimitResult>
+  // Adds amount regardless of the limit, for usage only known after the fact
+  record(key: string, window: RateLimitWindow, amount: number): Promise<void>
+  // Current usage, without counting anything
+  peek(key: string, window: RateLimitWindow): Promise<RateLimitResult>
+}
+
+export type RateLimitStore = 'memory' | 'postgres' | 'redis'
+
+function result(allowed: boolean, window: RateLimitWindow, count: number, resetMs: number): RateLimitResult {
+  return {
+    allowed,
+    limit: window.limit,
+    remaining: Math.max(0, window.limit - count),
+    resetSeconds: Math.max(0, Math.ceil(resetMs / 1000))
+  }
+}
+
+// Sliding log per process. Exact, but every serverless instance keeps its own
+// counts, so it only suits single-instance deployments and development.
+export class MemoryRateLimiter implements RateLimiter {
+  private entries = new Map<string, Array<{ at: number; amount: number }>>()
+
+  async consume(key: string, window: RateLimitWindow, amount = 1): Promise<RateLimitResult> {
+    const { entries, used, now } = this.current(key, window)
+    if (used + amount > window.limit) {
+      return result(false, window, used, this.resetMs(entries, window, now))
+    }
+    this.add(key, entries, now, amount)
+    return result(true, window, used + amount, this.resetMs(entries, window, now))
+  }
+
+  async record(key: string, window: RateLimitWindow, amount: number): Promise<void> {
+    const { entries, now } = this.current(key, window)
+    this.add(key, entries, now, amount)
+  }
+
+  async peek(key: string, window: RateLimitWindow): Promise<RateLimitResult> {
+    const { entries, used, now } = this.current(key, window)
+    return result(used < window.limit, window, used, this.resetMs(entries, window, now))
+  }
+
+  private current(key: string, window: RateLimitWindow) {
+    const now = Date.now()
+    const entries = (this.entries.get(key) || []).filter(entry => entry.at > now - window.windowMs)
+    if (entries.length > 0) {
+      this.entries.set(key, entries)
+    } else {
+      this.entries.delete(key)
+    }
+    return { entries, used: entries.reduce((total, entry) => total + entry.amount, 0), now }
+  }
+
+  private add(key: string, entries: Array<{ at: number; amount: number }>, now: number, amount: number) {
+    if (amount <= 0) return
+    entries.push({ at: now, amount })
+    this.entries.set(key, entries)
+  }
+
+  // Capacity frees up when the oldest entry leaves the window
+  private resetMs(entries: Array<{ at: number }>, window: RateLimitWindow, now: number): number {
+    return entries.length > 0 ? entries[0].at + window.windowMs - now : window.windowMs
+  }
+}
+
+// Fixed windows in the rate_limit_counters table, counted atomically by the
+// consume_rate_limit function (see supabase_migration.sql)
+export class PostgresRateLimiter implements RateLimiter {
+  constructor(private supabase: SupabaseClient) {}
+
+  async consume(key: string, window: RateLimitWindow, amount = 1): Promise<RateLimitResult> {
+    return this.call(key, window, amount, true)
+  }
+
+  async record(key: string, window: RateLimitWindow, amount: number): Promise<void> {
+    await this.call(key, window, amount, false)
+  }
+
+  async peek(key: string, window: RateLimitWindow): Promise<RateLimitResult> {
+    const current = await this.call(key, window, 0, true)
+    return { ...current, allowed: current.remaining > 0 }
+  }
+
+  private async call(key: string, window: RateLimitWindow, amount: number, enforce: boolean): Promise<RateLimitResult> {
+    const { data, error } = await this.supabase.rpc('consume_rate_limit', {
+      p_key: key,
+      p_limit: window.limit,
+      p_window_ms: window.windowMs,
+      p_amount: amount,
+      p_enforce: enforce
+    })
+    if (error) {
+      throw new Error(`Rate limit query failed: ${error.message}`)
+    }
+
+    const row = (Array.isArray(data) ? data[0] : data) as { allowed: boolean; current_count: number; reset_ms: number }
+    return result(row.allowed, window, row.current_count, row.reset_ms)
+  }
+}
+
+// Checks and increments in one round trip so concurrent requests cannot both
+// take the last slot. The window starts at a key's first use.
+// ARGV: limit, window ms, amount, enforce ('1' to refuse amounts over the limit)
+const redisConsumeScript = `
+local current = tonumber(redis.call('GET', KEYS[1]) or '0')
+local amount = tonumber(ARGV[3])
+if ARGV[4] == '1' and current + amount > tonumber(ARGV[1]) then
+  return {0, current, redis.call('PTTL', KEYS[1])}
+end
+if amount > 0 then
+  current = redis.call('INCRBY', KEYS[1], amount)
+  if redis.call('PTTL', KEYS[1]) < 0 then
+    redis.call('PEXPIRE', KEYS[1], ARGV[2])
+  end
+end
+return {1, current, redis.call('PTTL', KEYS[1])}
+`
+
+// Fixed windows in Redis (or any server speaking its protocol)
+export class RedisRateLimiter implements RateLimiter {
+  constructor(private client: RedisClient, private prefix = 'costllm:ratelimit:') {}
+
+  async consume(key: string, window: RateLimitWindow, amount = 1): Promise<RateLimitResult> {
+    return this.eval(key, window, amount, true)
+  }
+
+  async record(key: string, window: RateLimitWindow, amount: number): Promise<void> {
+    await this.eval(key, window, amount, false)
+  }
+
+  async peek(key: string, window: RateLimitWindow): Promise<RateLimitResult> {
+    const current = await this.eval(key, window, 0, true)
+    return { ...current, allowed: current.remaining > 0 }
+  }
+
+  private async eval(key: string, window: RateLimitWindow, amount: number, enforce: boolean): Promise<RateLimitResult> {
+    const reply = await this.client.command([
+      'EVAL', redisConsumeScript, 1, this.prefix + key, window.limit, window.windowMs, amount, enforce ? 1 : 0
+    ])
+    const [allowed, count, ttl] = reply as number[]
+    return result(allowed === 1, window, count, ttl > 0 ? ttl : window.windowMs)
+  }
+}
+
+// A shared store that is down should not take the proxy down with it, so
+// errors let the request through and are logged
+class FailOpenRateLimiter implements RateLimiter {
+  constructor(private store: RateLimiter, private name: RateLimitStore) {}
+
+  async consume(key: string, window: RateLimitWindow, amount = 1): Promise<RateLimitResult> {
+    try {
+      return await this.store.consume(key, window, amount)
+    } catch (error) {
+      console.error(`Rate limiter (${this.name}) unavailable, allowing request:`, error)
+      return result(true, window, 0, window.windowMs)
+    }
+  }
+
+  async record(key: string, window: RateLimitWindow, amount: number): Promise<void> {
+    try {
+      await this.store.record(key, window, amount)
+    } catch (error) {
+      console.error(`Rate limiter (${this.name}) unavailable, usage not recorded:`, error)
+    }
+  }
+
+  async peek(key: string, window: RateLimitWindow): Promise<RateLimitResult> {
+    try {
+      return await this.store.peek(key, window)
+    } catch (error) {
+      console.error(`Rate limiter (${this.name}) unavailable:`, error)
+      return result(true, window, 0, window.windowMs)
+    }
+  }
+}
+
+export function createRateLimiter(store: RateLimitStore): RateLimiter {
+  switch (store) {
+    case 'postgres':
+      return new FailOpenRateLimiter(new PostgresRateLimiter(createClient(
+        process.env.NEXT_PUBLIC_SUPABASE_URL!,
+        process.env.SUPABASE_SERVICE_ROLE_KEY!
+      )), store)
+    case 'redis':
+      return new FailOpenRateLimiter(new RedisRateLimiter(
+        new RedisClient(process.env.REDIS_URL || 'redis://localhost:6379')
+      ), store)
+    default:
+      return new MemoryRateLimiter()
+  }
+}
+
+let rateLimiter: RateLimiter | null = null
+
+// The limiter selected by RATE_LIMIT_STORE (memory, postgres or redis; memory by default)
+export function getRateLimiter(): RateLimiter {
+  if (!rateLimiter) {
+    const store = (process.env.RATE_LIMIT_STORE || 'memory').toLowerCase()
+    if (store !== 'memory' && store !== 'postgres' && store !== 'redis') {
+      console.warn(`Unknown RATE_LIMIT_STORE "${store}", using in-memory rate limiting`)
+    }
+    rateLimiter = createRateLimiter(store as RateLimitStore)
+  }
+  return rateLimiter
+}
@@ -0,0 +1,106 @@
+// Redacts sensitive values from captured request and response bodies before they
+// are stored. Matches are replaced with [REDACTED:<kind>].
+
+export type RedactionKind = 'email' | 'card_number' | 'secret'
+
+export const redactionKinds: RedactionKind[] = ['email', 'card_number', 'secret']
+
+export interface RedactionRules {
+  // Built-in patterns to apply
+  kinds: RedactionKind[]
+  // Custom regular expressions, replaced as [REDACTED:custom]
+  patterns: string[]
+}
+
+// Only starts at the beginning of a run, so long bodies without an @ stay linear
+export const emailPattern = /(?<![A-Za-z0-9._%+-])[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g
+
+// Credentials by name, most specific first: provider and platform keys, CostLLM
+// keys, bearer tokens and private keys. The guardrails report them by name.
+export const secretPatterns: Array<{ name: string; pattern: RegExp }> = [
+  { name: 'anthropic_key', pattern: /sk-ant-[A-Za-z0-9_-]{20,}/g },
+  { name: 'openai_key', pattern: /sk-(?!ant-)(?:proj-)?[A-Za-z0-9_-]{20,}/g },
+  { name: 'costllm_key', pattern: /cllm_[A-Za-z0-9]{40}/g },
+  { name: 'aws_access_key', pattern: /(?:AKIA|ASIA)[0-9A-Z]{16}/g },
+  { name: 'aws_secret_key', pattern: /aws_secret_access_key\s*[=:]\s*["']?[A-Za-z0-9/+=]{40}/gi },
+  { name: 'google_api_key', pattern: /AIza[0-9A-Za-z_-]{35}/g },
+  { name: 'github_token', pattern: /gh[pousr]_[A-Za-z0-9]{36,}/g },
+  { name: 'slack_token', pattern: /xox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: 'bearer_token', pattern: /Bearer [A-Za-z0-9._~+/-]{16,}=*/g },
+  { name: 'private_key', pattern: /-----BEGIN (?:[A-Z]+ )?PRIVATE KEY-----[\s\S]*?-----END (?:[A-Z]+ )?PRIVATE KEY-----/g }
+]
+
+const builtInPatterns: Record<RedactionKind, RegExp[]> = {
+  email: [emailPattern],
+  // 13-19 digits, optionally grouped by spaces or dashes; Luhn-checked below
+  card_number: [/\b\d(?:[ -]?\d){12,18}\b/g],
+  secret: secretPatterns.map(secret => secret.pattern)
+}
+
+// Card numbers pass the Luhn checksum; other long digit runs (ids, timestamps) are kept
+function isLuhnValid(digits: string): boolean {
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
+
+// Error message for a custom pattern that is not a usable regular expression
+export function invalidRedactionPattern(pattern: string): string | null {
+  if (!pattern) return 'Redaction patterns must not be empty'
+  try {
+    if (new RegExp(pattern).test('')) return `Redaction pattern ${pattern} matches empty text`
+  } catch {
+    return `Redaction pattern ${pattern} is not a valid regular expression`
+  }
+  return null
+}
+
+// Applies the rules to text, returning the redacted text and how many values were replaced.
+// Invalid custom patterns are skipped.
+export function redact(text: string, rules: RedactionRules): { text: string; redactions: number } {
+  let redactions = 0
+  let result = text
+
+  for (const kind of rules.kinds) {
+    for (const pattern of builtInPatterns[kind]) {
+      result = result.replace(pattern, match => {
+        if (kind === 'card_number' && !isLuhnValid(match.replace(/[ -]/g, ''))) return match
+        redactions++
+        return `[REDACTED:${kind}]`
+      })
+    }
+  }
+
+  for (const pattern of rules.patterns) {
+    if (invalidRedactionPattern(pattern)) continue
+    result = result.replace(new RegExp(pattern, 'g'), () => {
+      redactions++
+      return '[REDACTED:custom]'
+    })
+  }
+
+  return { text: result, redactions }
+}
+
+// Rewrites every string in a JSON value, e.g. a request payload. Inline file and
+// image data ('data' fields and data: URLs) is skipped.
+export function mapStrings(value: unknown, fn: (text: string, path: string) => string, path = ''): unknown {
+  if (typeof value === 'string') {
+    return value.startsWith('data:') ? value : fn(value, path)
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => mapStrings(item, fn, `${path}.${index}`))
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, key === 'data' ? item : mapStrings(item, fn, `${path}.${key}`)]))
+  }
+  return value
+}
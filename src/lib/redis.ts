@@ -0,0 +1,178 @@
+import net from 'node:net'
+import tls from 'node:tls'
+
+// Minimal Redis client speaking RESP2 over a single connection. CostLLM only needs
+// a handful of commands (EVAL for rate limiting), which doesn't justify a driver
+// dependency. Works with Redis and protocol-compatible servers (Valkey, KeyDB, Dragonfly).
+
+export type RedisValue = string | number | null | RedisValue[]
+
+export class RedisError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RedisError'
+  }
+}
+
+export function encodeCommand(args: Array<string | number>): string {
+  return `*${args.length}\r\n` + args.map(arg => {
+    const value = String(arg)
+    return `$${Buffer.byteLength(value)}\r\n${value}\r\n`
+  }).join('')
+}
+
+// Parses one reply from the start of buffer. Returns undefined when the buffer
+// does not yet hold a complete reply.
+export function parseReply(buffer: Buffer, offset = 0): { value: RedisValue | RedisError; offset: number } | undefined {
+  const lineEnd = buffer.indexOf('\r\n', offset)
+  if (lineEnd === -1) return undefined
+  const type = String.fromCharCode(buffer[offset])
+  const line = buffer.toString('utf8', offset + 1, lineEnd)
+  const next = lineEnd + 2
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next }
+    case '-':
+      return { value: new RedisError(line), offset: next }
+    case ':':
+      return { value: parseInt(line, 10), offset: next }
+    case '$': {
+      const length = parseInt(line, 10)
+      if (length === -1) return { value: null, offset: next }
+      if (buffer.length < next + length + 2) return undefined
+      return { value: buffer.toString('utf8', next, next + length), offset: next + length + 2 }
+    }
+    case '*': {
+      const count = parseInt(line, 10)
+      if (count === -1) return { value: null, offset: next }
+      const items: RedisValue[] = []
+      let position = next
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position)
+        if (!item) return undefined
+        // Errors nested in arrays (e.g. inside EXEC) surface as their message
+        items.push(item.value instanceof RedisError ? item.value.message : item.value)
+        position = item.offset
+      }
+      return { value: items, offset: position }
+    }
+    default:
+      throw new RedisError(`Unexpected reply type: ${type}`)
+  }
+}
+
+type Pending = { resolve: (value: RedisValue) => void; reject: (error: Error) => void }
+
+export class RedisClient {
+  private socket: net.Socket | null = null
+  private connecting: Promise<net.Socket> | null = null
+  private buffer = Buffer.alloc(0)
+  private pending: Pending[] = []
+
+  constructor(private url: string, private timeoutMs = 2000) {}
+
+  async command(args: Array<string | number>): Promise<RedisValue> {
+    const socket = await this.connect()
+    return new Promise((resolve, reject) => {
+      // A server that accepts connections but stops replying must not stall callers.
+      // Destroying the socket fails this and every other pending command.
+      const timer = setTimeout(() => socket.destroy(new RedisError('Redis command timed out')), this.timeoutMs)
+      this.pending.push({
+        resolve: value => {
+          clearTimeout(timer)
+          resolve(value)
+        },
+        reject: error => {
+          clearTimeout(timer)
+          reject(error)
+        }
+      })
+      socket.write(encodeCommand(args))
+    })
+  }
+
+  close() {
+    this.socket?.end()
+    this.socket = null
+  }
+
+  private connect(): Promise<net.Socket> {
+    if (this.socket) return Promise.resolve(this.socket)
+    if (this.connecting) return this.connecting
+
+    const url = new URL(this.url)
+    const secure = url.protocol === 'rediss:'
+    const options = { host: url.hostname || 'localhost', port: Number(url.port) || 6379 }
+
+    this.connecting = new Promise<net.Socket>((resolve, reject) => {
+      const socket = secure ? tls.connect({ ...options, servername: options.host }) : net.connect(options)
+      socket.setTimeout(this.timeoutMs)
+
+      socket.once(secure ? 'secureConnect' : 'connect', async () => {
+        socket.setTimeout(0)
+        this.socket = socket
+        this.connecting = null
+        try {
+          // AUTH and SELECT from redis://[user:password@]host:port/db
+          if (url.password) {
+            const auth = url.username ? ['AUTH', decodeURIComponent(url.username), decodeURIComponent(url.password)] : ['AUTH', decodeURIComponent(url.password)]
+            await this.command(auth)
+          }
+          const db = url.pathname.slice(1)
+          if (db) await this.command(['SELECT', db])
+          resolve(socket)
+        } catch (error) {
+          this.close()
+          reject(error)
+        }
+      })
+      socket.on('data', chunk => this.onData(socket, chunk))
+      socket.on('timeout', () => socket.destroy(new RedisError('Redis connection timed out')))
+      socket.on('error', error => {
+        this.connecting = null
+        this.failPending(error)
+        reject(error)
+      })
+      socket.on('close', () => {
+        // A dropped connection may already have been replaced
+        if (this.socket && this.socket !== socket) return
+        this.socket = null
+        this.buffer = Buffer.alloc(0)
+        this.failPending(new RedisError('Redis connection closed'))
+      })
+    })
+    return this.connecting
+  }
+
+  private onData(socket: net.Socket, chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk])
+    try {
+      let reply = parseReply(this.buffer)
+      while (reply) {
+        this.buffer = this.buffer.subarray(reply.offset)
+        const pending = this.pending.shift()
+        if (reply.value instanceof RedisError) {
+          pending?.reject(reply.value)
+        } else {
+          pending?.resolve(reply.value)
+        }
+        reply = this.buffer.length > 0 ? parseReply(this.buffer) : undefined
+      }
+    } catch (error) {
+      // Thrown from an event handler this would crash the process. Replies can't be
+      // matched to commands after a malformed one, so fail them all and drop the
+      // connection; the next command reconnects.
+      if (this.socket === socket) this.socket = null
+      this.buffer = Buffer.alloc(0)
+      this.failPending(error instanceof Error ? error : new RedisError(String(error)))
+      socket.destroy()
+    }
+  }
+
+  private failPending(error: Error) {
+    const pending = this.pending
+    this.pending = []
+    pending.forEach(request => request.reject(error))
+  }
+}
@@ -0,0 +1,111 @@
+import { invalidRedactionPattern, redact, RedactionKind, redactionKinds, RedactionRules } from '@/lib/redaction'
+
+// Opt-in, per-key capture of request and response bodies. Bodies are redacted
+// here; the caller encrypts them before they are stored in request_captures.
+
+export interface CaptureSettings {
+  enabled: boolean
+  // Share of requests captured, 0 to 1
+  sampleRate: number
+  retentionDays: number
+  redaction: RedactionRules
+}
+
+interface ProxyKeyCaptureColumns {
+  capture_enabled?: boolean | null
+  capture_sample_rate?: number | string | null
+  capture_retention_days?: number | null
+  capture_redact?: string[] | null
+  capture_redact_patterns?: string[] | null
+}
+
+export const defaultRetentionDays = 30
+// Request logs themselves are kept for 90 days, and their captures go with them
+export const maxRetentionDays = 90
+
+// Longest body stored; anything beyond is cut off
+export const maxCapturedLength = 100_000
+
+export function proxyKeyCaptureSettings(key: ProxyKeyCaptureColumns): CaptureSettings {
+  return {
+    enabled: !!key.capture_enabled,
+    sampleRate: Number(key.capture_sample_rate ?? 1),
+    retentionDays: key.capture_retention_days ?? defaultRetentionDays,
+    redaction: {
+      kinds: (key.capture_redact ?? redactionKinds).filter((kind): kind is RedactionKind =>
+        redactionKinds.includes(kind as RedactionKind)),
+      patterns: key.capture_redact_patterns ?? []
+    }
+  }
+}
+
+// Whether to capture this request, drawing against the sample rate
+export function shouldCapture(settings: CaptureSettings, random: () => number = Math.random): boolean {
+  return settings.enabled && settings.sampleRate > 0 && random() < settings.sampleRate
+}
+
+function truncate(text: string): string {
+  return text.length > maxCapturedLength ? `${text.slice(0, maxCapturedLength)}…[truncated]` : text
+}
+
+// Redacted, length-limited bodies ready to encrypt, with when they expire
+export function prepareCapture(
+  settings: CaptureSettings,
+  requestBody: string,
+  responseBody: string,
+  now: Date = new Date()
+): { requestBody: string; responseBody: string; redactions: number; expiresAt: string } {
+  const request = redact(requestBody, settings.redaction)
+  const response = redact(responseBody, settings.redaction)
+  return {
+    requestBody: truncate(request.text),
+    responseBody: truncate(response.text),
+    redactions: request.redactions + response.redactions,
+    expiresAt: new Date(now.getTime() + settings.retentionDays * 24 * 60 * 60 * 1000).toISOString()
+  }
+}
+
+// Capture columns from a proxy key request body, validated. Fields left out are not returned.
+export function captureFields(body: Record<string, unknown>): { fields: Record<string, unknown> } | { error: string } {
+  const fields: Record<string, unknown> = {}
+  const {
+    capture_enabled: enabled,
+    capture_sample_rate: sampleRate,
+    capture_retention_days: retentionDays,
+    capture_redact: kinds,
+    capture_redact_patterns: patterns
+  } = body
+
+  if (enabled !== undefined) {
+    if (typeof enabled !== 'boolean') return { error: 'capture_enabled must be a boolean' }
+    fields.capture_enabled = enabled
+  }
+  if (sampleRate !== undefined) {
+    if (typeof sampleRate !== 'number' || sampleRate < 0 || sampleRate > 1) {
+      return { error: 'capture_sample_rate must be a number between 0 and 1' }
+    }
+    fields.capture_sample_rate = sampleRate
+  }
+  if (retentionDays !== undefined) {
+    if (typeof retentionDays !== 'number' || !Number.isInteger(retentionDays) || retentionDays < 1 || retentionDays > maxRetentionDays) {
+      return { error: `capture_retention_days must be an integer between 1 and ${maxRetentionDays}` }
+    }
+    fields.capture_retention_days = retentionDays
+  }
+  if (kinds !== undefined) {
+    if (!Array.isArray(kinds) || kinds.some(kind => !redactionKinds.includes(kind))) {
+      return { error: `capture_redact must be a list of ${redactionKinds.join(', ')}` }
+    }
+    fields.capture_redact = kinds
+  }
+  if (patterns !== undefined) {
+    if (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string')) {
+      return { error: 'capture_redact_patterns must be a list of regular expressions' }
+    }
+    const invalid = patterns.map(invalidRedactionPattern).find(Boolean)
+    if (invalid) return { error: invalid }
+    fields.capture_redact_patterns = patterns
+  }
+
+  return { fields }
+}
@@ -0,0 +1,106 @@
+import { getModelPrice } from '@/lib/pricing'
+import { openaiAdapter, ProviderAdapter, providerForModel } from '@/lib/providers'
+
+// An enabled optimization_rules row
+export interface RoutingRule {
+  id: string
+  source_model: string
+  target_model: string
+  conditions: {
+    requestType?: string
+    promptLength?: number
+    keywords?: string[]
+    timeOfDay?: string
+    fallbackChain?: unknown
+  } | null
+}
+
+// What rule conditions are checked against
+export interface RoutableRequest {
+  model: string
+  requestType: string
+  inputText: string
+  inputTokens: number
+}
+
+export interface Route<C> {
+  provider: ProviderAdapter
+  credential: C
+}
+
+// Whether a rule applies to the request: same source model and every condition met
+export function ruleMatches(rule: RoutingRule, request: RoutableRequest, now: Date = new Date()): boolean {
+  if (rule.source_model !== request.model) return false
+  const conditions = rule.conditions || {}
+
+  // Check request type
+  if (conditions.requestType && conditions.requestType !== request.requestType) {
+    return false
+  }
+
+  // Check prompt length
+  if (conditions.promptLength && request.inputText.length >= conditions.promptLength) {
+    return false
+  }
+
+  // Check keywords
+  if (conditions.keywords && conditions.keywords.length > 0) {
+    const text = request.inputText.toLowerCase()
+    if (!conditions.keywords.some(k => text.includes(k.toLowerCase()))) return false
+  }
+
+  // Check time of day
+  if (conditions.timeOfDay) {
+    const hour = now.getUTCHours()
+    if (conditions.timeOfDay === 'off-peak') {
+      if (!(hour >= 22 || hour <= 5)) return false
+    } else if (conditions.timeOfDay === 'business-hours') {
+      if (!(hour >= 9 && hour <= 17)) return false
+    } else {
+      return false // unknown timeOfDay
+    }
+  }
+
+  // Skip targets whose context window cannot hold the prompt
+  const targetPrice = getModelPrice(rule.target_model)
+  return !(targetPrice && request.inputTokens > targetPrice.contextWindow)
+}
+
+// A routed model is served by the request's own credential, or for a cross-vendor
+// target by a credential of that provider with the request translated. Only
+// OpenAI-format chat requests can be translated.
+export function routeResolver<C extends { provider: string }>(origin: {
+  provider: ProviderAdapter
+  credential: C
+  format: ProviderAdapter
+  requestType: string
+  credentials: C[]
+}): (model: string) => Route<C> | null {
+  return targetModel => {
+    const target = providerForModel(targetModel)
+    if (!target || target.id === origin.provider.id) return { provider: origin.provider, credential: origin.credential }
+    if (origin.format !== openaiAdapter || origin.requestType !== 'chat') return null
+    if (target !== openaiAdapter && !target.openAITranslator) return null
+    const credential = origin.credentials.find(c => c.provider === target.id)
+    return credential ? { provider: target, credential } : null
+  }
+}
+
+// The first rule that matches the request and whose target is reachable
+export function selectRoutingRule<R extends RoutingRule, C>(
+  rules: R[],
+  request: RoutableRequest,
+  resolveRoute: (model: string) => Route<C> | null
+): { rule: R; route: Route<C> } | null {
+  for (const rule of rules) {
+    if (!ruleMatches(rule, request)) continue
+    const route = resolveRoute(rule.target_model)
+    if (!route) {
+      // No credential for the target provider, or the request format cannot be translated
+      console.warn(`Skipping rule ${rule.id}: ${rule.target_model} is not reachable with this key`)
+      continue
+    }
+    return { rule, route }
+  }
+  return null
+}
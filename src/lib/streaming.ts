@@ -0,0 +1,262 @@
+import { getProviderAdapter, ProviderAdapter, ProviderUsage } from '@/lib/providers'
+import { OpenAITranslator, StreamTranslationState, openAIUsageChunk } from '@/lib/translation'
+import { PiiStreamRestorer } from '@/lib/pii'
+
+export interface SSEEvent {
+  event?: string
+  data: string
+}
+
+export type StreamUsage = ProviderUsage
+
+export interface StreamResult {
+  outputText: string
+  usage: StreamUsage
+  // Raw SSE body as received from the provider, used for caching
+  raw: string
+  // The stream was cancelled (client disconnected) or aborted before it ended, so
+  // output, usage and raw only cover what had arrived by then
+  cancelled: boolean
+}
+
+// Incremental Server-Sent Events parser. Chunks may split events (or lines)
+// at arbitrary byte boundaries, so anything after the last blank line is
+// buffered until the next chunk arrives.
+export class SSEParser {
+  private buffer = ''
+
+  feed(chunk: string): SSEEvent[] {
+    this.buffer += chunk.replace(/\r\n/g, '\n')
+    const events: SSEEvent[] = []
+
+    let boundary = this.buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const block = this.buffer.slice(0, boundary)
+      this.buffer = this.buffer.slice(boundary + 2)
+      const event = parseBlock(block)
+      if (event) events.push(event)
+      boundary = this.buffer.indexOf('\n\n')
+    }
+
+    return events
+  }
+
+  flush(): SSEEvent[] {
+    const block = this.buffer
+    this.buffer = ''
+    const event = parseBlock(block)
+    return event ? [event] : []
+  }
+}
+
+function parseBlock(block: string): SSEEvent | null {
+  let eventName: string | undefined
+  const dataLines: string[] = []
+
+  for (const line of block.split('\n')) {
+    if (!line || line.startsWith(':')) continue
+    const separator = line.indexOf(':')
+    const field = separator === -1 ? line : line.slice(0, separator)
+    let value = separator === -1 ? '' : line.slice(separator + 1)
+    if (value.startsWith(' ')) value = value.slice(1)
+
+    if (field === 'event') eventName = value
+    else if (field === 'data') dataLines.push(value)
+  }
+
+  if (dataLines.length === 0) return null
+  return { event: eventName, data: dataLines.join('\n') }
+}
+
+// Accumulates output text and usage from provider-specific stream events
+export class StreamAccumulator {
+  private adapter: ProviderAdapter
+  private output = ''
+  private usage: StreamUsage = {}
+
+  constructor(provider: string) {
+    const adapter = getProviderAdapter(provider)
+    if (!adapter) throw new Error(`Unknown provider: ${provider}`)
+    this.adapter = adapter
+  }
+
+  handle(event: SSEEvent): void {
+    if (event.data === '[DONE]') return
+
+    let chunk
+    try {
+      chunk = JSON.parse(event.data)
+    } catch {
+      return
+    }
+
+    const { text, usage } = this.adapter.parseStreamChunk(chunk)
+    if (text) this.output += text
+    if (usage) {
+      for (const field of ['inputTokens', 'outputTokens', 'cachedInputTokens', 'reasoningTokens'] as const) {
+        if (usage[field] !== undefined) this.usage[field] = usage[field]
+      }
+    }
+  }
+
+  get outputText(): string {
+    return this.output
+  }
+
+  get reportedUsage(): StreamUsage {
+    return { ...this.usage }
+  }
+}
+
+// Passes provider bytes through unchanged while accounting for them. onComplete
+// runs once the upstream stream has ended, or with what has arrived so far when
+// the stream is cancelled first: tokens the provider already sent are billed.
+export function createAccountingStream(
+  provider: string,
+  onComplete: (result: StreamResult) => void | Promise<void>
+): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder()
+  const parser = new SSEParser()
+  const accumulator = new StreamAccumulator(provider)
+  let raw = ''
+  let completed = false
+
+  const consume = (text: string) => {
+    raw += text
+    for (const event of parser.feed(text)) accumulator.handle(event)
+  }
+
+  const complete = async (cancelled: boolean) => {
+    if (completed) return
+    completed = true
+    try {
+      await onComplete({
+        outputText: accumulator.outputText,
+        usage: accumulator.reportedUsage,
+        raw,
+        cancelled
+      })
+    } catch (error) {
+      console.error('Error finalizing streamed request:', error)
+    }
+  }
+
+  // lib.dom does not type the transformer's cancel hook yet; Node runs it when the
+  // readable side is cancelled or the writable side aborted, where flush never runs
+  const transformer: Transformer<Uint8Array, Uint8Array> & { cancel: (reason: unknown) => Promise<void> } = {
+    transform(chunk, controller) {
+      controller.enqueue(chunk)
+      consume(decoder.decode(chunk, { stream: true }))
+    },
+    async flush() {
+      consume(decoder.decode())
+      for (const event of parser.flush()) accumulator.handle(event)
+      await complete(false)
+    },
+    // A trailing partial event is left out, it cannot be parsed
+    async cancel() {
+      await complete(true)
+    }
+  }
+  return new TransformStream(transformer)
+}
+
+// Passes bytes through unchanged and hands the whole body to onComplete once the
+// stream has ended, e.g. to store a response for Idempotency-Key retries
+export function createRecordingStream(
+  onComplete: (raw: string) => void | Promise<void>
+): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder()
+  let raw = ''
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      controller.enqueue(chunk)
+      raw += decoder.decode(chunk, { stream: true })
+    },
+    async flush() {
+      raw += decoder.decode()
+      try {
+        await onComplete(raw)
+      } catch (error) {
+        console.error('Error recording streamed response:', error)
+      }
+    }
+  })
+}
+
+// Rewrites a native SSE stream from a cross-vendor route into OpenAI
+// chat.completion.chunk events. A final usage chunk is always emitted (as with
+// stream_options.include_usage) followed by [DONE].
+export function createOpenAITranslatingStream(
+  translator: OpenAITranslator,
+  model: string
+): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder()
+  const encoder = new TextEncoder()
+  const parser = new SSEParser()
+  const state: StreamTranslationState = {
+    id: `chatcmpl-${Date.now()}`,
+    created: Math.floor(Date.now() / 1000),
+    model,
+    usage: {},
+    toolIndexes: {},
+    toolCount: 0
+  }
+
+  const translate = (events: SSEEvent[], controller: TransformStreamDefaultController<Uint8Array>) => {
+    for (const event of events) {
+      let data
+      try {
+        data = JSON.parse(event.data)
+      } catch {
+        continue
+      }
+      for (const translated of translator.toOpenAIStreamChunks(data, state)) {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(translated)}\n\n`))
+      }
+    }
+  }
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      translate(parser.feed(decoder.decode(chunk, { stream: true })), controller)
+    },
+    flush(controller) {
+      translate([...parser.feed(decoder.decode()), ...parser.flush()], controller)
+      controller.enqueue(encoder.encode(`data: ${JSON.stringify(openAIUsageChunk(state))}\n\ndata: [DONE]\n\n`))
+    }
+  })
+}
+
+// Puts PII tokens back into the text of streamed events, see src/lib/pii.ts.
+// Events are re-serialized; non-JSON data such as [DONE] passes through as is.
+export function createPiiRestoringStream(tokens: Map<string, string>): TransformStream<Uint8Array, Uint8Array> {
+  const decoder = new TextDecoder()
+  const encoder = new TextEncoder()
+  const parser = new SSEParser()
+  const restorer = new PiiStreamRestorer(tokens)
+
+  const restore = (events: SSEEvent[], controller: TransformStreamDefaultController<Uint8Array>) => {
+    for (const event of events) {
+      let data = event.data
+      try {
+        data = JSON.stringify(restorer.restore(JSON.parse(event.data)))
+      } catch {
+        // Not JSON
+      }
+      const name = event.event ? `event: ${event.event}\n` : ''
+      const lines = data.split('\n').map(line => `data: ${line}`).join('\n')
+      controller.enqueue(encoder.encode(`${name}${lines}\n\n`))
+    }
+  }
+
+  return new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      restore(parser.feed(decoder.decode(chunk, { stream: true })), controller)
+    },
+    flush(controller) {
+      restore([...parser.feed(decoder.decode()), ...parser.flush()], controller)
+    }
+  })
+}
@@ -0,0 +1,529 @@
+import { ANTHROPIC_MESSAGES_URL, AnthropicUsage, extractAnthropicUsage } from '@/lib/anthropic'
+import { extractGeminiUsage, geminiEndpoint, GeminiUsageMetadata } from '@/lib/gemini'
+import type { ProviderUsage } from '@/lib/providers/types'
+
+// Translation between the OpenAI chat completions format and other vendors'
+// native formats. Routing rules may send an OpenAI-shaped request to a Claude or
+// Gemini model; the request is rewritten for the target API and the answer is
+// rewritten back so the caller never sees the difference.
+
+type Payload = Record<string, unknown>
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } | string }
+
+type OpenAIToolCall = { id: string; type?: 'function'; function: { name: string; arguments: string } }
+
+type OpenAIMessage = {
+  role: 'system' | 'developer' | 'user' | 'assistant' | 'tool'
+  content?: string | OpenAIContentPart[] | null
+  tool_calls?: OpenAIToolCall[]
+  tool_call_id?: string
+  name?: string
+}
+
+type OpenAITool = { type?: 'function'; function: { name: string; description?: string; parameters?: Payload } }
+
+type OpenAIToolChoice = 'auto' | 'none' | 'required' | { type: 'function'; function: { name: string } }
+
+export interface OpenAIUsage {
+  prompt_tokens: number
+  completion_tokens: number
+  total_tokens: number
+  prompt_tokens_details?: { cached_tokens: number }
+  completion_tokens_details?: { reasoning_tokens: number }
+}
+
+// Mutable per-stream bookkeeping shared between translated chunks
+export interface StreamTranslationState {
+  id: string
+  created: number
+  model: string
+  usage: ProviderUsage
+  // Anthropic content block index -> OpenAI tool_calls index
+  toolIndexes: Record<number, number>
+  toolCount: number
+}
+
+export interface OpenAITranslator {
+  // OpenAI chat payload -> the provider's native endpoint and body
+  toNativeRequest(payload: Payload, model: string, streaming: boolean): { endpoint: string; payload: Payload }
+  // Native response body -> chat.completion
+  toOpenAIResponse(data: unknown, model: string): Payload
+  // Native stream event -> zero or more chat.completion.chunk deltas
+  toOpenAIStreamChunks(chunk: unknown, state: StreamTranslationState): Payload[]
+}
+
+function stopSequences(stop: unknown): string[] | undefined {
+  if (typeof stop === 'string') return [stop]
+  if (Array.isArray(stop) && stop.length > 0) return stop.filter((s): s is string => typeof s === 'string')
+  return undefined
+}
+
+function partsOf(content: OpenAIMessage['content']): OpenAIContentPart[] {
+  if (typeof content === 'string') return content ? [{ type: 'text', text: content }] : []
+  return Array.isArray(content) ? content : []
+}
+
+function textOf(content: OpenAIMessage['content']): string {
+  return partsOf(content)
+    .map(part => part.type === 'text' ? part.text : '')
+    .filter(Boolean)
+    .join('\n')
+}
+
+function imageUrlOf(part: OpenAIContentPart): string | undefined {
+  if (part.type !== 'image_url') return undefined
+  return typeof part.image_url === 'string' ? part.image_url : part.image_url?.url
+}
+
+// data:image/png;base64,xxxx -> { mediaType: 'image/png', data: 'xxxx' }
+function parseDataUrl(url: string): { mediaType: string; data: string } | null {
+  const match = url.match(/^data:([^;,]+);base64,(.*)$/)
+  return match ? { mediaType: match[1], data: match[2] } : null
+}
+
+function parseArguments(args: string): Payload {
+  try {
+    const parsed = JSON.parse(args || '{}')
+    return parsed && typeof parsed === 'object' ? parsed : { value: parsed }
+  } catch {
+    return {}
+  }
+}
+
+function systemText(messages: OpenAIMessage[]): string {
+  return messages
+    .filter(m => m.role === 'system' || m.role === 'developer')
+    .map(m => textOf(m.content))
+    .filter(Boolean)
+    .join('\n\n')
+}
+
+function openAIUsage(usage: ProviderUsage): OpenAIUsage {
+  const inputTokens = usage.inputTokens || 0
+  const outputTokens = usage.outputTokens || 0
+  return {
+    prompt_tokens: inputTokens,
+    completion_tokens: outputTokens,
+    total_tokens: inputTokens + outputTokens,
+    ...(usage.cachedInputTokens !== undefined && { prompt_tokens_details: { cached_tokens: usage.cachedInputTokens } }),
+    ...(usage.reasoningTokens !== undefined && { completion_tokens_details: { reasoning_tokens: usage.reasoningTokens } })
+  }
+}
+
+export function openAIUsageChunk(state: StreamTranslationState): Payload {
+  return {
+    id: state.id,
+    object: 'chat.completion.chunk',
+    created: state.created,
+    model: state.model,
+    choices: [],
+    usage: openAIUsage(state.usage)
+  }
+}
+
+function chunk(state: StreamTranslationState, delta: Payload, finishReason: string | null = null): Payload {
+  return {
+    id: state.id,
+    object: 'chat.completion.chunk',
+    created: state.created,
+    model: state.model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }]
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Anthropic
+// ---------------------------------------------------------------------------
+
+type AnthropicBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: Payload }
+  | { type: 'tool_use'; id: string; name: string; input: Payload }
+  | { type: 'tool_result'; tool_use_id: string; content: string }
+
+const anthropicFinishReasons: Record<string, string> = {
+  end_turn: 'stop',
+  stop_sequence: 'stop',
+  max_tokens: 'length',
+  tool_use: 'tool_calls'
+}
+
+function toAnthropicBlocks(message: OpenAIMessage): AnthropicBlock[] {
+  if (message.role === 'tool') {
+    return [{ type: 'tool_result', tool_use_id: message.tool_call_id || '', content: textOf(message.content) }]
+  }
+
+  const blocks: AnthropicBlock[] = []
+  for (const part of partsOf(message.content)) {
+    if (part.type === 'text') {
+      if (part.text) blocks.push({ type: 'text', text: part.text })
+      continue
+    }
+    const url = imageUrlOf(part)
+    if (!url) continue
+    const inline = parseDataUrl(url)
+    blocks.push({
+      type: 'image',
+      source: inline
+        ? { type: 'base64', media_type: inline.mediaType, data: inline.data }
+        : { type: 'url', url }
+    })
+  }
+  for (const call of message.tool_calls || []) {
+    blocks.push({ type: 'tool_use', id: call.id, name: call.function.name, input: parseArguments(call.function.arguments) })
+  }
+  return blocks
+}
+
+export function openAIToAnthropicRequest(payload: Payload, model: string): Payload {
+  const messages = (payload.messages || []) as OpenAIMessage[]
+
+  // Anthropic wants strictly alternating user/assistant turns, and tool results
+  // travel inside user turns, so consecutive same-role messages are merged
+  const converted: Array<{ role: 'user' | 'assistant'; content: AnthropicBlock[] }> = []
+  for (const message of messages) {
+    if (message.role === 'system' || message.role === 'developer') continue
+    const role = message.role === 'assistant' ? 'assistant' : 'user'
+    const blocks = toAnthropicBlocks(message)
+    if (blocks.length === 0) continue
+    const previous = converted[converted.length - 1]
+    if (previous && previous.role === role) {
+      previous.content.push(...blocks)
+    } else {
+      converted.push({ role, content: blocks })
+    }
+  }
+
+  const request: Payload = {
+    model,
+    messages: converted,
+    // Required by the Messages API
+    max_tokens: payload.max_tokens ?? payload.max_completion_tokens ?? 4096
+  }
+
+  const system = systemText(messages)
+  if (system) request.system = system
+  if (payload.temperature !== undefined) request.temperature = payload.temperature
+  if (payload.top_p !== undefined) request.top_p = payload.top_p
+  if (payload.stream !== undefined) request.stream = payload.stream
+  const stop = stopSequences(payload.stop)
+  if (stop) request.stop_sequences = stop
+  if (typeof payload.user === 'string') request.metadata = { user_id: payload.user }
+
+  const tools = payload.tools as OpenAITool[] | undefined
+  if (Array.isArray(tools) && tools.length > 0) {
+    request.tools = tools.map(tool => ({
+      name: tool.function.name,
+      description: tool.function.description,
+      input_schema: tool.function.parameters || { type: 'object', properties: {} }
+    }))
+  }
+
+  const toolChoice = payload.tool_choice as OpenAIToolChoice | undefined
+  if (toolChoice === 'auto') request.tool_choice = { type: 'auto' }
+  else if (toolChoice === 'required') request.tool_choice = { type: 'any' }
+  else if (toolChoice === 'none') request.tool_choice = { type: 'none' }
+  else if (toolChoice && typeof toolChoice === 'object') request.tool_choice = { type: 'tool', name: toolChoice.function.name }
+
+  return request
+}
+
+export function anthropicToOpenAIResponse(data: unknown, model: string): Payload {
+  const response = data as {
+    id?: string
+    content?: AnthropicBlock[]
+    stop_reason?: string
+    usage?: AnthropicUsage
+  }
+  const blocks = response.content || []
+  const text = blocks.map(block => block.type === 'text' ? block.text : '').join('')
+  const toolCalls = blocks
+    .filter((block): block is Extract<AnthropicBlock, { type: 'tool_use' }> => block.type === 'tool_use')
+    .map(block => ({
+      id: block.id,
+      type: 'function',
+      function: { name: block.name, arguments: JSON.stringify(block.input || {}) }
+    }))
+
+  return {
+    id: response.id || `chatcmpl-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+      },
+      finish_reason: anthropicFinishReasons[response.stop_reason || ''] || 'stop'
+    }],
+    usage: openAIUsage(extractAnthropicUsage(response))
+  }
+}
+
+export function anthropicToOpenAIStreamChunks(data: unknown, state: StreamTranslationState): Payload[] {
+  const event = data as {
+    type?: string
+    index?: number
+    message?: { id?: string; usage?: AnthropicUsage }
+    content_block?: { type?: string; id?: string; name?: string }
+    delta?: { type?: string; text?: string; partial_json?: string; stop_reason?: string }
+    usage?: { output_tokens?: number }
+  }
+
+  switch (event.type) {
+    case 'message_start':
+      if (event.message?.id) state.id = event.message.id
+      state.usage = extractAnthropicUsage(event.message || {})
+      return [chunk(state, { role: 'assistant', content: '' })]
+    case 'content_block_start':
+      if (event.content_block?.type === 'tool_use') {
+        const index = state.toolCount++
+        state.toolIndexes[event.index ?? 0] = index
+        return [chunk(state, {
+          tool_calls: [{
+            index,
+            id: event.content_block.id,
+            type: 'function',
+            function: { name: event.content_block.name, arguments: '' }
+          }]
+        })]
+      }
+      return []
+    case 'content_block_delta':
+      if (event.delta?.type === 'text_delta') {
+        return [chunk(state, { content: event.delta.text || '' })]
+      }
+      if (event.delta?.type === 'input_json_delta') {
+        return [chunk(state, {
+          tool_calls: [{
+            index: state.toolIndexes[event.index ?? 0] ?? 0,
+            function: { arguments: event.delta.partial_json || '' }
+          }]
+        })]
+      }
+      return []
+    case 'message_delta':
+      if (event.usage?.output_tokens !== undefined) state.usage.outputTokens = event.usage.output_tokens
+      return event.delta?.stop_reason
+        ? [chunk(state, {}, anthropicFinishReasons[event.delta.stop_reason] || 'stop')]
+        : []
+    default:
+      return []
+  }
+}
+
+export const anthropicTranslator: OpenAITranslator = {
+  toNativeRequest(payload, model) {
+    return { endpoint: ANTHROPIC_MESSAGES_URL, payload: openAIToAnthropicRequest(payload, model) }
+  },
+  toOpenAIResponse: anthropicToOpenAIResponse,
+  toOpenAIStreamChunks: anthropicToOpenAIStreamChunks
+}
+
+// ---------------------------------------------------------------------------
+// Gemini
+// ---------------------------------------------------------------------------
+
+type GeminiPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } }
+  | { fileData: { mimeType: string; fileUri: string } }
+  | { functionCall: { name: string; args: Payload } }
+  | { functionResponse: { name: string; response: Payload } }
+
+const geminiFinishReasons: Record<string, string> = {
+  STOP: 'stop',
+  MAX_TOKENS: 'length',
+  SAFETY: 'content_filter',
+  RECITATION: 'content_filter',
+  BLOCKLIST: 'content_filter',
+  PROHIBITED_CONTENT: 'content_filter',
+  SPII: 'content_filter'
+}
+
+const imageMimeTypes: Record<string, string> = {
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg'
+}
+
+function toGeminiParts(message: OpenAIMessage, toolNames: Record<string, string>): GeminiPart[] {
+  if (message.role === 'tool') {
+    const name = message.name || toolNames[message.tool_call_id || ''] || 'tool'
+    return [{ functionResponse: { name, response: { content: textOf(message.content) } } }]
+  }
+
+  const parts: GeminiPart[] = []
+  for (const part of partsOf(message.content)) {
+    if (part.type === 'text') {
+      if (part.text) parts.push({ text: part.text })
+      continue
+    }
+    const url = imageUrlOf(part)
+    if (!url) continue
+    const inline = parseDataUrl(url)
+    if (inline) {
+      parts.push({ inlineData: { mimeType: inline.mediaType, data: inline.data } })
+    } else {
+      const extension = url.split('?')[0].split('.').pop()?.toLowerCase() || ''
+      parts.push({ fileData: { mimeType: imageMimeTypes[extension] || 'image/jpeg', fileUri: url } })
+    }
+  }
+  for (const call of message.tool_calls || []) {
+    parts.push({ functionCall: { name: call.function.name, args: parseArguments(call.function.arguments) } })
+  }
+  return parts
+}
+
+export function openAIToGeminiRequest(payload: Payload): Payload {
+  const messages = (payload.messages || []) as OpenAIMessage[]
+
+  // Tool results only carry the call id, Gemini wants the function name
+  const toolNames: Record<string, string> = {}
+  for (const message of messages) {
+    for (const call of message.tool_calls || []) toolNames[call.id] = call.function.name
+  }
+
+  const contents: Array<{ role: 'user' | 'model'; parts: GeminiPart[] }> = []
+  for (const message of messages) {
+    if (message.role === 'system' || message.role === 'developer') continue
+    const role = message.role === 'assistant' ? 'model' : 'user'
+    const parts = toGeminiParts(message, toolNames)
+    if (parts.length === 0) continue
+    const previous = contents[contents.length - 1]
+    if (previous && previous.role === role) {
+      previous.parts.push(...parts)
+    } else {
+      contents.push({ role, parts })
+    }
+  }
+
+  const request: Payload = { contents }
+
+  const system = systemText(messages)
+  if (system) request.systemInstruction = { parts: [{ text: system }] }
+
+  const generationConfig: Payload = {}
+  const maxTokens = payload.max_tokens ?? payload.max_completion_tokens
+  if (maxTokens !== undefined) generationConfig.maxOutputTokens = maxTokens
+  if (payload.temperature !== undefined) generationConfig.temperature = payload.temperature
+  if (payload.top_p !== undefined) generationConfig.topP = payload.top_p
+  const stop = stopSequences(payload.stop)
+  if (stop) generationConfig.stopSequences = stop
+  if (Object.keys(generationConfig).length > 0) request.generationConfig = generationConfig
+
+  const tools = payload.tools as OpenAITool[] | undefined
+  if (Array.isArray(tools) && tools.length > 0) {
+    request.tools = [{
+      functionDeclarations: tools.map(tool => ({
+        name: tool.function.name,
+        description: tool.function.description,
+        parameters: tool.function.parameters
+      }))
+    }]
+  }
+
+  const toolChoice = payload.tool_choice as OpenAIToolChoice | undefined
+  if (toolChoice === 'auto') request.toolConfig = { functionCallingConfig: { mode: 'AUTO' } }
+  else if (toolChoice === 'required') request.toolConfig = { functionCallingConfig: { mode: 'ANY' } }
+  else if (toolChoice === 'none') request.toolConfig = { functionCallingConfig: { mode: 'NONE' } }
+  else if (toolChoice && typeof toolChoice === 'object') {
+    request.toolConfig = { functionCallingConfig: { mode: 'ANY', allowedFunctionNames: [toolChoice.function.name] } }
+  }
+
+  return request
+}
+
+type GeminiCandidate = { content?: { parts?: GeminiPart[] }; finishReason?: string }
+
+function geminiToolCalls(parts: GeminiPart[], offset = 0) {
+  return parts
+    .filter((part): part is Extract<GeminiPart, { functionCall: unknown }> => 'functionCall' in part)
+    .map((part, i) => ({
+      index: offset + i,
+      id: `call_${offset + i}`,
+      type: 'function',
+      function: { name: part.functionCall.name, arguments: JSON.stringify(part.functionCall.args || {}) }
+    }))
+}
+
+function geminiText(parts: GeminiPart[]): string {
+  return parts.map(part => 'text' in part ? part.text : '').join('')
+}
+
+export function geminiToOpenAIResponse(data: unknown, model: string): Payload {
+  const response = data as {
+    candidates?: GeminiCandidate[]
+    usageMetadata?: GeminiUsageMetadata
+  }
+  const candidate = response.candidates?.[0]
+  const parts = candidate?.content?.parts || []
+  const text = geminiText(parts)
+  const toolCalls = geminiToolCalls(parts).map(call => ({ id: call.id, type: call.type, function: call.function }))
+
+  return {
+    id: `chatcmpl-${Date.now()}`,
+    object: 'chat.completion',
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{
+      index: 0,
+      message: {
+        role: 'assistant',
+        content: text || null,
+        ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+      },
+      finish_reason: toolCalls.length > 0 ? 'tool_calls' : geminiFinishReasons[candidate?.finishReason || ''] || 'stop'
+    }],
+    usage: openAIUsage(extractGeminiUsage(response))
+  }
+}
+
+export function geminiToOpenAIStreamChunks(data: unknown, state: StreamTranslationState): Payload[] {
+  const event = data as {
+    candidates?: GeminiCandidate[]
+    usageMetadata?: GeminiUsageMetadata
+  }
+  // usageMetadata is cumulative, the last event carries the final counts
+  if (event.usageMetadata) {
+    state.usage = extractGeminiUsage(event)
+  }
+
+  const candidate = event.candidates?.[0]
+  const parts = candidate?.content?.parts || []
+  const chunks: Payload[] = []
+
+  const text = geminiText(parts)
+  if (text) chunks.push(chunk(state, { content: text }))
+
+  const toolCalls = geminiToolCalls(parts, state.toolCount)
+  if (toolCalls.length > 0) {
+    state.toolCount += toolCalls.length
+    chunks.push(chunk(state, { tool_calls: toolCalls }))
+  }
+
+  if (candidate?.finishReason) {
+    const finishReason = state.toolCount > 0 ? 'tool_calls' : geminiFinishReasons[candidate.finishReason] || 'stop'
+    chunks.push(chunk(state, {}, finishReason))
+  }
+  return chunks
+}
+
+export const geminiTranslator: OpenAITranslator = {
+  toNativeRequest(payload, model, streaming) {
+    return {
+      endpoint: geminiEndpoint(model, streaming ? 'streamGenerateContent' : 'generateContent'),
+      payload: openAIToGeminiRequest(payload)
+    }
+  },
+  toOpenAIResponse: geminiToOpenAIResponse,
+  toOpenAIStreamChunks: geminiToOpenAIStreamChunks
+}
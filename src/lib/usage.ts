@@ -0,0 +1,62 @@
+import type { TiktokenModel } from 'tiktoken'
+import type { ProviderUsage } from '@/lib/providers'
+
+// Where a request's token counts came from: the provider's own usage report,
+// a local tiktoken estimate, or provider counts for one side and an estimate for the other
+export type UsageSource = 'provider' | 'estimated' | 'mixed'
+
+export interface ResolvedUsage {
+  inputTokens: number
+  outputTokens: number
+  // Parts of inputTokens and outputTokens; only known from provider reports
+  cachedInputTokens: number
+  reasoningTokens: number
+  source: UsageSource
+}
+
+// tiktoken estimate for when a provider does not report usage, and for pre-flight
+// checks such as routing rules. It only sees text, so it misses per-message
+// overhead, tool schemas and images, and Claude and Gemini use other tokenizers.
+export async function estimateTokens(text: string, model: string): Promise<number> {
+  if (!text) return 0
+  try {
+    const { encoding_for_model, get_encoding } = await import('tiktoken')
+    let encoding
+    try {
+      encoding = encoding_for_model(model as TiktokenModel)
+    } catch {
+      // Not an OpenAI model tiktoken knows
+      encoding = get_encoding('cl100k_base')
+    }
+    const tokens = encoding.encode(text)
+    encoding.free()
+    return tokens.length
+  } catch (error) {
+    console.warn('Error counting tokens with tiktoken, falling back to approximation:', error)
+    return Math.ceil(text.length / 4)
+  }
+}
+
+// Provider-reported counts win; each missing side falls back to an estimate.
+// outputText is null for requests that produce no output tokens (embeddings).
+export async function resolveUsage(
+  reported: ProviderUsage,
+  fallback: { inputTokens: number; outputText: string | null; model: string }
+): Promise<ResolvedUsage> {
+  const outputReported = reported.outputTokens !== undefined || fallback.outputText === null
+  const inputTokens = reported.inputTokens ?? fallback.inputTokens
+  const outputTokens = reported.outputTokens ?? (fallback.outputText === null ? 0 : await estimateTokens(fallback.outputText, fallback.model))
+
+  const inputReported = reported.inputTokens !== undefined
+  const source: UsageSource = inputReported && outputReported
+    ? 'provider'
+    : inputReported || reported.outputTokens !== undefined ? 'mixed' : 'estimated'
+
+  return {
+    inputTokens,
+    outputTokens,
+    cachedInputTokens: Math.min(reported.cachedInputTokens || 0, inputTokens),
+    reasoningTokens: Math.min(reported.reasoningTokens || 0, outputTokens),
+    source
+  }
+}
@@ -6,6 +6,12 @@ export interface Budget {
   alertThreshold: number
   status: 'active' | 'paused' | 'exceeded'
   notificationChannels: string[]
+  // What the proxy does once currentSpend reaches budgetLimit
+  breachAction: 'alert' | 'block' | 'downgrade' | 'throttle'
+  // Requests per minute allowed while a throttled budget is exceeded
+  throttleRpm: number | null
+  // The CostLLM key this budget covers, or null for all keys
+  proxyKeyId: string | null
   createdAt: string
   updatedAt: string
 }
@@ -15,4 +21,7 @@ export interface BudgetFormData {
   budgetLimit: number
   alertThreshold: number
   notificationChannels: string[]
+  breachAction: Budget['breachAction']
+  throttleRpm?: number | null
+  proxyKeyId?: string | null
 }
\ No newline at end of file
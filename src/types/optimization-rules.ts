@@ -40,7 +40,7 @@ export interface RuleTestRequest {
     role: string
     content: string | unknown
   }>
-  requestType?: 'chat' | 'completion' | 'embedding'
+  requestType?: 'chat' | 'completion' | 'embedding' | 'image' | 'audio'
 }
 
 export interface RuleTestResult {
@@ -53,6 +53,12 @@ export interface RuleTestResult {
   evaluation: {
     inputLength: number
     requestType: string
+    estimatedTokens: number
+    sourceCost: number
+    targetCost: number
+    // Pricing catalog versions used for the estimates, null for unpriced models
+    sourcePriceVersion: string | null
+    targetPriceVersion: string | null
     currentHour: number
   }
 }
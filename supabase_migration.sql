@@ -7,7 +7,6 @@
 
 CREATE TYPE subscription_tier AS ENUM ('free', 'starter', 'pro', 'enterprise');
 CREATE TYPE subscription_status AS ENUM ('active', 'canceled', 'past_due');
-CREATE TYPE provider AS ENUM ('openai', 'anthropic', 'google');
 CREATE TYPE status AS ENUM ('success', 'error', 'cached');
 CREATE TYPE budget_type AS ENUM ('daily', 'weekly', 'monthly');
 CREATE TYPE budget_status AS ENUM ('active', 'paused', 'exceeded');
@@ -29,27 +28,156 @@ CREATE TABLE users (
 CREATE TABLE api_keys (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-  provider provider NOT NULL,
+  -- Provider adapter id (see src/lib/providers); validated by the API rather than an enum
+  provider TEXT NOT NULL,
   api_key TEXT NOT NULL,
   nickname TEXT,
+  -- 'active', 'inactive', or 'invalid' once the provider rejected the key (401)
   status TEXT DEFAULT 'active',
+  -- Share of its CostLLM keys' traffic relative to other keys of the same provider
+  weight INTEGER DEFAULT 1,
+  -- Failed upstream calls, and the 429s that take the key out of rotation until rate_limited_until
+  error_count INTEGER DEFAULT 0,
+  last_error_status INTEGER,
+  last_error_at TIMESTAMPTZ,
+  rate_limited_count INTEGER DEFAULT 0,
+  last_rate_limited_at TIMESTAMPTZ,
+  rate_limited_until TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- CostLLM-issued cllm_ keys. Only a salted SHA-256 hash of the key is stored;
+-- key_prefix (cllm_ + 8 char lookup id) is kept in the clear for lookup and display.
+CREATE TABLE proxy_keys (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL UNIQUE,
+  key_salt TEXT NOT NULL,
+  key_hash TEXT NOT NULL,
+  status TEXT DEFAULT 'active',
+  -- The key's own rate limits on top of the subscription tier's; NULL means none
+  rpm_limit INTEGER,
+  tpm_limit INTEGER,
+  daily_request_limit INTEGER,
+  -- Opt-in capture of request and response bodies into request_captures: the
+  -- share of requests sampled, how long captures are kept, and what is redacted
+  -- first (built-in 'email', 'card_number', 'secret' plus custom regexes)
+  capture_enabled BOOLEAN DEFAULT false,
+  capture_sample_rate DECIMAL(4,3) DEFAULT 1 CHECK (capture_sample_rate >= 0 AND capture_sample_rate <= 1),
+  capture_retention_days INTEGER DEFAULT 30,
+  capture_redact TEXT[] DEFAULT '{email,card_number,secret}',
+  capture_redact_patterns TEXT[] DEFAULT '{}',
+  -- PII filter before forwarding: 'off', 'block', 'mask' or 'tokenize' (reversible
+  -- tokens swapped back in the response), and which detectors run
+  pii_action TEXT DEFAULT 'off',
+  pii_types TEXT[] DEFAULT '{email,phone,us_ssn,uk_nino,in_aadhaar}',
+  -- Guardrails before forwarding: 'off', 'warn' (audit log only), 'redact' or 'block',
+  -- and which checks run
+  guardrail_action TEXT DEFAULT 'warn',
+  guardrail_checks TEXT[] DEFAULT '{credentials,prompt_injection}',
+  last_used_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Provider credentials a proxy key may spend
+CREATE TABLE proxy_key_credentials (
+  proxy_key_id UUID REFERENCES proxy_keys(id) ON DELETE CASCADE,
+  api_key_id UUID REFERENCES api_keys(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (proxy_key_id, api_key_id)
+);
+
+-- Negotiated prices. proxy_key_id NULL applies to all of the user's keys; model and
+-- provider NULL match everything. Prices are USD per 1M tokens.
+CREATE TABLE pricing_overrides (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  proxy_key_id UUID REFERENCES proxy_keys(id) ON DELETE CASCADE,
+  provider TEXT,
+  model TEXT,
+  discount_percent DECIMAL(5,2) CHECK (discount_percent >= 0 AND discount_percent <= 100),
+  input_price DECIMAL(12,6) CHECK (input_price >= 0),
+  output_price DECIMAL(12,6) CHECK (output_price >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
 CREATE TABLE api_requests (
    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
    user_id UUID REFERENCES users(id) ON DELETE CASCADE,
    api_key_id UUID REFERENCES api_keys(id) ON DELETE CASCADE,
-   provider provider NOT NULL,
+   proxy_key_id UUID REFERENCES proxy_keys(id) ON DELETE SET NULL,
+   provider TEXT NOT NULL,
    model TEXT NOT NULL,
    tokens_used INTEGER,
+   -- tokens_used split by kind. cached_input_tokens is part of input_tokens and
+   -- reasoning_tokens part of output_tokens
+   input_tokens INTEGER,
+   output_tokens INTEGER,
+   cached_input_tokens INTEGER DEFAULT 0,
+   reasoning_tokens INTEGER DEFAULT 0,
    cost DECIMAL(10,4),
    savings DECIMAL(10,4) DEFAULT 0,
+   -- Pricing catalog version (model@effective-from) that produced cost
+   price_version TEXT,
+   -- The model has no catalog entry or override: cost is 0, or under a blocking budget
+   -- the provider's most expensive catalog rates
+   unpriced BOOLEAN DEFAULT FALSE,
+   -- Cost at catalog prices, and the negotiated override applied to cost, if any
+   list_cost DECIMAL(10,4),
+   pricing_override_id UUID REFERENCES pricing_overrides(id) ON DELETE SET NULL,
+   -- 'provider' (usage reported by the provider), 'estimated' (tiktoken) or 'mixed'
+   usage_source TEXT,
+   -- 'chat', 'embedding', 'image' or 'audio'
+   request_type TEXT DEFAULT 'chat',
+   -- What the request is billed by ('tokens', 'images' or 'audio_seconds') and how many
+   unit_type TEXT DEFAULT 'tokens',
+   units DECIMAL(12,2),
+   -- Which model of the fallback chain served the request (1 = the routed model),
+   -- the calls that failed before it and their cost, which is included in cost
+   attempt INTEGER DEFAULT 1,
+   fallback_attempts JSONB,
+   fallback_cost DECIMAL(10,4) DEFAULT 0,
    latency INTEGER,
    status status DEFAULT 'success',
    created_at TIMESTAMPTZ DEFAULT NOW()
  );
 
+-- Redacted request and response bodies of captured requests, AES-encrypted with
+-- ENCRYPTION_SECRET. Removed by the cleanup-cache cron once expires_at passes.
+CREATE TABLE request_captures (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  api_request_id UUID REFERENCES api_requests(id) ON DELETE CASCADE UNIQUE,
+  proxy_key_id UUID REFERENCES proxy_keys(id) ON DELETE CASCADE,
+  request_body TEXT,
+  response_body TEXT,
+  -- Values replaced by redaction across both bodies
+  redactions INTEGER DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL
+);
+
+-- Responses stored under a client's Idempotency-Key, per CostLLM key, and replayed
+-- to retries of the same request. response_body is NULL while the first request is
+-- in flight, then AES-encrypted with ENCRYPTION_SECRET. Removed by the cleanup-cache
+-- cron once expires_at passes.
+CREATE TABLE idempotency_keys (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  proxy_key_id UUID REFERENCES proxy_keys(id) ON DELETE CASCADE NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  -- SHA-256 of the route and request body, to reject reuse for a different request
+  request_hash TEXT NOT NULL,
+  status_code INTEGER,
+  response_headers JSONB,
+  response_body TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  expires_at TIMESTAMPTZ NOT NULL,
+  UNIQUE (proxy_key_id, idempotency_key)
+);
+
 CREATE TABLE cache_entries (
   id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
@@ -64,10 +192,18 @@ CREATE TABLE budgets (
   user_id UUID REFERENCES users(id) ON DELETE CASCADE,
   type TEXT NOT NULL,
   budget_limit DECIMAL(10,2) NOT NULL,
-  current_spend DECIMAL(10,2) DEFAULT 0,
+  -- 4 decimals like api_requests.cost, so sub-cent requests add up
+  current_spend DECIMAL(10,4) DEFAULT 0,
   alert_threshold DECIMAL(5,2) NOT NULL,
   status budget_status DEFAULT 'active',
   notification_channels TEXT[] DEFAULT '{}',
+  -- What the proxy does once spend reaches the limit: 'alert' (notify only),
+  -- 'block' (reject with 402), 'downgrade' (cheaper models only) or 'throttle'
+  breach_action TEXT DEFAULT 'alert',
+  -- Requests per minute allowed while a 'throttle' budget is breached
+  throttle_rpm INTEGER,
+  -- Limits spend through one CostLLM key (e.g. a team's); NULL covers all keys
+  proxy_key_id UUID REFERENCES proxy_keys(id) ON DELETE CASCADE,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -96,6 +232,14 @@ CREATE TABLE audit_logs (
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Shared rate limit windows, used when RATE_LIMIT_STORE=postgres
+CREATE TABLE rate_limit_counters (
+  key TEXT NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (key, window_start)
+);
+
 -- ========================================
 -- Row Level Security Policies
 -- ========================================
@@ -134,6 +278,41 @@ CREATE POLICY "Users can update own api_keys" ON api_keys
 CREATE POLICY "Users can delete own api_keys" ON api_keys
   FOR DELETE USING (auth.uid() = user_id);
 
+-- Enable RLS on proxy_keys table
+ALTER TABLE proxy_keys ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own proxy_keys
+CREATE POLICY "Users can view own proxy_keys" ON proxy_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can insert their own proxy_keys
+CREATE POLICY "Users can insert own proxy_keys" ON proxy_keys
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own proxy_keys
+CREATE POLICY "Users can update own proxy_keys" ON proxy_keys
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Users can delete their own proxy_keys
+CREATE POLICY "Users can delete own proxy_keys" ON proxy_keys
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Enable RLS on proxy_key_credentials table
+ALTER TABLE proxy_key_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Users can manage credential mappings of their own proxy_keys
+CREATE POLICY "Users can view own proxy_key_credentials" ON proxy_key_credentials
+  FOR SELECT USING (EXISTS (SELECT 1 FROM proxy_keys WHERE proxy_keys.id = proxy_key_id AND proxy_keys.user_id = auth.uid()));
+
+CREATE POLICY "Users can insert own proxy_key_credentials" ON proxy_key_credentials
+  FOR INSERT WITH CHECK (
+    EXISTS (SELECT 1 FROM proxy_keys WHERE proxy_keys.id = proxy_key_id AND proxy_keys.user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM api_keys WHERE api_keys.id = api_key_id AND api_keys.user_id = auth.uid())
+  );
+
+CREATE POLICY "Users can delete own proxy_key_credentials" ON proxy_key_credentials
+  FOR DELETE USING (EXISTS (SELECT 1 FROM proxy_keys WHERE proxy_keys.id = proxy_key_id AND proxy_keys.user_id = auth.uid()));
+
 -- Enable RLS on api_requests table
 ALTER TABLE api_requests ENABLE ROW LEVEL SECURITY;
 
@@ -145,6 +324,55 @@ CREATE POLICY "Users can view own api_requests" ON api_requests
 CREATE POLICY "Users can insert own api_requests" ON api_requests
   FOR INSERT WITH CHECK (auth.uid() = user_id);
 
+-- Enable RLS on pricing_overrides table
+ALTER TABLE pricing_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own pricing_overrides
+CREATE POLICY "Users can view own pricing_overrides" ON pricing_overrides
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can insert their own pricing_overrides
+CREATE POLICY "Users can insert own pricing_overrides" ON pricing_overrides
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own pricing_overrides
+CREATE POLICY "Users can update own pricing_overrides" ON pricing_overrides
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Users can delete their own pricing_overrides
+CREATE POLICY "Users can delete own pricing_overrides" ON pricing_overrides
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Enable RLS on request_captures table
+ALTER TABLE request_captures ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own request_captures
+CREATE POLICY "Users can view own request_captures" ON request_captures
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can insert their own request_captures
+CREATE POLICY "Users can insert own request_captures" ON request_captures
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Enable RLS on idempotency_keys table
+ALTER TABLE idempotency_keys ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own idempotency_keys
+CREATE POLICY "Users can view own idempotency_keys" ON idempotency_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Users can insert their own idempotency_keys
+CREATE POLICY "Users can insert own idempotency_keys" ON idempotency_keys
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own idempotency_keys
+CREATE POLICY "Users can update own idempotency_keys" ON idempotency_keys
+  FOR UPDATE USING (auth.uid() = user_id);
+
+-- Users can delete their own idempotency_keys
+CREATE POLICY "Users can delete own idempotency_keys" ON idempotency_keys
+  FOR DELETE USING (auth.uid() = user_id);
+
 -- Enable RLS on cache_entries table
 ALTER TABLE cache_entries ENABLE ROW LEVEL SECURITY;
 
@@ -213,6 +441,10 @@ CREATE POLICY "Users can view own audit_logs" ON audit_logs
 CREATE POLICY "System can insert audit_logs" ON audit_logs
   FOR INSERT WITH CHECK (true);
 
+-- Enable RLS on rate_limit_counters table. It is only reached through
+-- consume_rate_limit with the service role, so there are no policies.
+ALTER TABLE rate_limit_counters ENABLE ROW LEVEL SECURITY;
+
 -- ========================================
 -- Indexes
 -- ========================================
@@ -223,10 +455,20 @@ CREATE INDEX idx_users_created_at ON users(created_at);
 CREATE INDEX idx_api_keys_user_id ON api_keys(user_id);
 CREATE INDEX idx_api_keys_provider ON api_keys(provider);
 
+CREATE INDEX idx_proxy_keys_user_id ON proxy_keys(user_id);
+CREATE INDEX idx_proxy_key_credentials_api_key_id ON proxy_key_credentials(api_key_id);
+
+CREATE INDEX idx_pricing_overrides_user_id ON pricing_overrides(user_id);
+
 CREATE INDEX idx_api_requests_user_id ON api_requests(user_id);
 CREATE INDEX idx_api_requests_api_key_id ON api_requests(api_key_id);
 CREATE INDEX idx_api_requests_created_at ON api_requests(created_at);
 
+CREATE INDEX idx_request_captures_user_id ON request_captures(user_id);
+CREATE INDEX idx_request_captures_expires_at ON request_captures(expires_at);
+CREATE INDEX idx_idempotency_keys_user_id ON idempotency_keys(user_id);
+CREATE INDEX idx_idempotency_keys_expires_at ON idempotency_keys(expires_at);
+
 CREATE INDEX idx_cache_entries_user_id ON cache_entries(user_id);
 CREATE INDEX idx_cache_entries_request_hash ON cache_entries(request_hash);
 CREATE INDEX idx_cache_entries_expires_at ON cache_entries(expires_at);
@@ -241,6 +483,95 @@ CREATE INDEX idx_audit_logs_created_at ON audit_logs(created_at);
 CREATE INDEX idx_audit_logs_level ON audit_logs(level);
 CREATE INDEX idx_audit_logs_source ON audit_logs(source);
 
+-- ========================================
+-- Functions
+-- ========================================
+
+-- Adds p_amount (requests or tokens) to key's current fixed window. With p_enforce
+-- the amount is only added if the window stays within p_limit, so rejected
+-- requests do not extend the block; without it the amount is always added (usage
+-- known after the fact). p_amount 0 reads the window. Older windows of the key are
+-- dropped on the way.
+DROP FUNCTION IF EXISTS consume_rate_limit(TEXT, INTEGER, INTEGER);
+CREATE OR REPLACE FUNCTION consume_rate_limit(
+  p_key TEXT,
+  p_limit INTEGER,
+  p_window_ms INTEGER,
+  p_amount INTEGER DEFAULT 1,
+  p_enforce BOOLEAN DEFAULT TRUE
+)
+RETURNS TABLE (allowed BOOLEAN, current_count INTEGER, reset_ms INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_now_ms BIGINT := (EXTRACT(EPOCH FROM clock_timestamp()) * 1000)::BIGINT;
+  v_window_start_ms BIGINT := v_now_ms - (v_now_ms % p_window_ms);
+  v_window_start TIMESTAMPTZ := to_timestamp(v_window_start_ms / 1000.0);
+  v_reset_ms INTEGER := (v_window_start_ms + p_window_ms - v_now_ms)::INTEGER;
+  v_count INTEGER;
+BEGIN
+  DELETE FROM rate_limit_counters WHERE key = p_key AND window_start < v_window_start;
+
+  IF NOT p_enforce OR p_amount <= p_limit THEN
+    INSERT INTO rate_limit_counters AS c (key, window_start, count)
+    VALUES (p_key, v_window_start, p_amount)
+    ON CONFLICT (key, window_start) DO UPDATE SET count = c.count + p_amount
+    WHERE NOT p_enforce OR c.count + p_amount <= p_limit
+    RETURNING c.count INTO v_count;
+  END IF;
+
+  IF v_count IS NULL THEN
+    SELECT c.count INTO v_count FROM rate_limit_counters c WHERE c.key = p_key AND c.window_start = v_window_start;
+    RETURN QUERY SELECT FALSE, COALESCE(v_count, 0), v_reset_ms;
+  ELSE
+    RETURN QUERY SELECT TRUE, v_count, v_reset_ms;
+  END IF;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION consume_rate_limit(TEXT, INTEGER, INTEGER, INTEGER, BOOLEAN) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION consume_rate_limit(TEXT, INTEGER, INTEGER, INTEGER, BOOLEAN) TO service_role;
+
+-- Replaces a proxy key's credential mapping in one transaction, so a failed insert
+-- leaves the previous credentials attached. Runs as the caller: the
+-- proxy_key_credentials policies still decide which keys and credentials qualify.
+CREATE OR REPLACE FUNCTION replace_proxy_key_credentials(p_proxy_key_id UUID, p_api_key_ids UUID[])
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM proxy_key_credentials WHERE proxy_key_id = p_proxy_key_id;
+  INSERT INTO proxy_key_credentials (proxy_key_id, api_key_id)
+  SELECT DISTINCT p_proxy_key_id, ids.api_key_id FROM unnest(p_api_key_ids) AS ids(api_key_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION replace_proxy_key_credentials(UUID, UUID[]) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION replace_proxy_key_credentials(UUID, UUID[]) TO authenticated, service_role;
+
+-- Adds a served request's cost to the budgets it counts against: the account-wide
+-- ones and those of the CostLLM key that made it. The increment happens in place,
+-- so concurrent requests never overwrite each other's spend. Exceeded budgets keep
+-- counting and paused ones are skipped. Runs as the caller, under the budgets policies.
+CREATE OR REPLACE FUNCTION record_budget_spend(p_user_id UUID, p_proxy_key_id UUID, p_cost DECIMAL)
+RETURNS VOID
+LANGUAGE sql
+SET search_path = public
+AS $$
+  UPDATE budgets
+  SET current_spend = COALESCE(current_spend, 0) + p_cost,
+      status = CASE WHEN COALESCE(current_spend, 0) + p_cost > budget_limit THEN 'exceeded' ELSE 'active' END::budget_status,
+      updated_at = NOW()
+  WHERE user_id = p_user_id
+    AND status IN ('active', 'exceeded')
+    AND (proxy_key_id IS NULL OR proxy_key_id = p_proxy_key_id);
+$$;
+
+REVOKE ALL ON FUNCTION record_budget_spend(UUID, UUID, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_budget_spend(UUID, UUID, DECIMAL) TO authenticated, service_role;
 
 -- ========================================
 -- Idempotent Updates
@@ -257,4 +588,115 @@ BEGIN
     IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'optimization_rules' AND column_name = 'savings') THEN
         ALTER TABLE optimization_rules RENAME COLUMN savings TO savings_usd;
     END IF;
+
+    -- Attribute requests to the CostLLM key that made them
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_requests' AND column_name = 'proxy_key_id') THEN
+        ALTER TABLE api_requests ADD COLUMN proxy_key_id UUID REFERENCES proxy_keys(id) ON DELETE SET NULL;
+        CREATE INDEX idx_api_requests_proxy_key_id ON api_requests(proxy_key_id);
+    END IF;
+
+    -- Trace each cost to the pricing catalog entry that produced it
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_requests' AND column_name = 'price_version') THEN
+        ALTER TABLE api_requests ADD COLUMN price_version TEXT;
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_requests' AND column_name = 'unpriced') THEN
+        ALTER TABLE api_requests ADD COLUMN unpriced BOOLEAN DEFAULT FALSE;
+    END IF;
+
+    -- Record negotiated pricing alongside the catalog cost
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_requests' AND column_name = 'list_cost') THEN
+        ALTER TABLE api_requests ADD COLUMN list_cost DECIMAL(10,4);
+    END IF;
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_requests' AND column_name = 'pricing_override_id') THEN
+        ALTER TABLE api_requests ADD COLUMN pricing_override_id UUID REFERENCES pricing_overrides(id) ON DELETE SET NULL;
+    END IF;
+
+    -- Record whether token counts came from the provider or a tiktoken estimate
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_requests' AND column_name = 'usage_source') THEN
+        ALTER TABLE api_requests ADD COLUMN usage_source TEXT;
+    END IF;
+
+    -- Split token usage into input, output, cached input and reasoning
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_requests' AND column_name = 'input_tokens') THEN
+        ALTER TABLE api_requests ADD COLUMN input_tokens INTEGER;
+        ALTER TABLE api_requests ADD COLUMN output_tokens INTEGER;
+        ALTER TABLE api_requests ADD COLUMN cached_input_tokens INTEGER DEFAULT 0;
+        ALTER TABLE api_requests ADD COLUMN reasoning_tokens INTEGER DEFAULT 0;
+    END IF;
+
+    -- Tell embedding requests apart from chat completions
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_requests' AND column_name = 'request_type') THEN
+        ALTER TABLE api_requests ADD COLUMN request_type TEXT DEFAULT 'chat';
+    END IF;
+
+    -- Bill image generation per image and audio per second alongside tokens
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_requests' AND column_name = 'unit_type') THEN
+        ALTER TABLE api_requests ADD COLUMN unit_type TEXT DEFAULT 'tokens';
+        ALTER TABLE api_requests ADD COLUMN units DECIMAL(12,2);
+    END IF;
+
+    -- Record fallback chain attempts and what the failed ones cost
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_requests' AND column_name = 'attempt') THEN
+        ALTER TABLE api_requests ADD COLUMN attempt INTEGER DEFAULT 1;
+        ALTER TABLE api_requests ADD COLUMN fallback_attempts JSONB;
+        ALTER TABLE api_requests ADD COLUMN fallback_cost DECIMAL(10,4) DEFAULT 0;
+    END IF;
+
+    -- Load balance across provider keys and track their errors
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'api_keys' AND column_name = 'weight') THEN
+        ALTER TABLE api_keys ADD COLUMN weight INTEGER DEFAULT 1;
+        ALTER TABLE api_keys ADD COLUMN error_count INTEGER DEFAULT 0;
+        ALTER TABLE api_keys ADD COLUMN last_error_status INTEGER;
+        ALTER TABLE api_keys ADD COLUMN last_error_at TIMESTAMPTZ;
+        ALTER TABLE api_keys ADD COLUMN rate_limited_count INTEGER DEFAULT 0;
+        ALTER TABLE api_keys ADD COLUMN last_rate_limited_at TIMESTAMPTZ;
+        ALTER TABLE api_keys ADD COLUMN rate_limited_until TIMESTAMPTZ;
+    END IF;
+
+    -- Enforce budgets in the proxy, optionally per CostLLM key
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'budgets' AND column_name = 'breach_action') THEN
+        ALTER TABLE budgets ADD COLUMN breach_action TEXT DEFAULT 'alert';
+        ALTER TABLE budgets ADD COLUMN throttle_rpm INTEGER;
+        ALTER TABLE budgets ADD COLUMN proxy_key_id UUID REFERENCES proxy_keys(id) ON DELETE CASCADE;
+    END IF;
+
+    -- Spend is added per request, so keep sub-cent costs
+    IF EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'budgets' AND column_name = 'current_spend' AND numeric_scale < 4) THEN
+        ALTER TABLE budgets ALTER COLUMN current_spend TYPE DECIMAL(10,4);
+    END IF;
+
+    -- Opt-in request and response capture per CostLLM key
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'proxy_keys' AND column_name = 'capture_enabled') THEN
+        ALTER TABLE proxy_keys ADD COLUMN capture_enabled BOOLEAN DEFAULT false;
+        ALTER TABLE proxy_keys ADD COLUMN capture_sample_rate DECIMAL(4,3) DEFAULT 1 CHECK (capture_sample_rate >= 0 AND capture_sample_rate <= 1);
+        ALTER TABLE proxy_keys ADD COLUMN capture_retention_days INTEGER DEFAULT 30;
+        ALTER TABLE proxy_keys ADD COLUMN capture_redact TEXT[] DEFAULT '{email,card_number,secret}';
+        ALTER TABLE proxy_keys ADD COLUMN capture_redact_patterns TEXT[] DEFAULT '{}';
+    END IF;
+
+    -- Per-key PII filtering before requests are forwarded
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'proxy_keys' AND column_name = 'pii_action') THEN
+        ALTER TABLE proxy_keys ADD COLUMN pii_action TEXT DEFAULT 'off';
+        ALTER TABLE proxy_keys ADD COLUMN pii_types TEXT[] DEFAULT '{email,phone,us_ssn,uk_nino,in_aadhaar}';
+    END IF;
+
+    -- Per-key credential and prompt-injection guardrails
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'proxy_keys' AND column_name = 'guardrail_action') THEN
+        ALTER TABLE proxy_keys ADD COLUMN guardrail_action TEXT DEFAULT 'warn';
+        ALTER TABLE proxy_keys ADD COLUMN guardrail_checks TEXT[] DEFAULT '{credentials,prompt_injection}';
+    END IF;
+
+    -- Per-key requests-per-minute, tokens-per-minute and daily request limits
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'proxy_keys' AND column_name = 'rpm_limit') THEN
+        ALTER TABLE proxy_keys ADD COLUMN rpm_limit INTEGER;
+        ALTER TABLE proxy_keys ADD COLUMN tpm_limit INTEGER;
+        ALTER TABLE proxy_keys ADD COLUMN daily_request_limit INTEGER;
+    END IF;
+
+    -- Providers come from the adapter registry, so drop the fixed provider enum
+    IF EXISTS (SELECT 1 FROM pg_type WHERE typname = 'provider') THEN
+        ALTER TABLE api_keys ALTER COLUMN provider TYPE TEXT;
+        ALTER TABLE api_requests ALTER COLUMN provider TYPE TEXT;
+        DROP TYPE provider;
+    END IF;
 END $$;
\ No newline at end of file
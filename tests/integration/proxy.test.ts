@@ -65,6 +65,7 @@ describe('/api/proxy integration tests', () => {
     gt: vi.fn().mockReturnThis(),
     maybeSingle: vi.fn().mockResolvedValue(null),
     upsert: vi.fn().mockResolvedValue({}),
+    rpc: vi.fn().mockResolvedValue({ error: null }),
   }
 
   beforeEach(async () => {
@@ -390,7 +391,7 @@ describe('/api/proxy integration tests', () => {
   })
 
   describe('budget integration', () => {
-    it('should call budget check API when cost > 0', async () => {
+    it('should add the cost to budgets when cost > 0', async () => {
       server.use(
         http.post('https://api.openai.com/v1/chat/completions', () => {
           return HttpResponse.json({
@@ -412,15 +413,12 @@ describe('/api/proxy integration tests', () => {
 
       await POST(request)
 
-      // Verify budget check was called
-      expect(global.fetch).toHaveBeenCalledWith(
-        '/api/budgets/check',
+      // Verify budget spend was recorded
+      expect(mockSupabaseClient.rpc).toHaveBeenCalledWith(
+        'record_budget_spend',
         expect.objectContaining({
-          method: 'POST',
-          body: JSON.stringify({
-            user_id: testUserId,
-            cost_usd: expect.any(Number)
-          })
+          p_user_id: testUserId,
+          p_cost: expect.any(Number)
         })
       )
     })
@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  anthropicHeaders,
+  contentToText,
+  extractAnthropicOutput,
+  extractAnthropicUsage,
+  systemPromptText,
+  ANTHROPIC_VERSION
+} from '@/lib/anthropic'
+
+describe('Anthropic helpers', () => {
+  describe('anthropicHeaders', () => {
+    it('should authenticate with x-api-key and the default version', () => {
+      const headers = anthropicHeaders('sk-ant-test')
+      expect(headers['x-api-key']).toBe('sk-ant-test')
+      expect(headers['anthropic-version']).toBe(ANTHROPIC_VERSION)
+      expect(headers).not.toHaveProperty('Authorization')
+    })
+
+    it('should forward the caller pinned version and beta flags', () => {
+      const incoming = new Headers({
+        'anthropic-version': '2024-01-01',
+        'anthropic-beta': 'prompt-caching-2024-07-31'
+      })
+      const headers = anthropicHeaders('sk-ant-test', incoming)
+      expect(headers['anthropic-version']).toBe('2024-01-01')
+      expect(headers['anthropic-beta']).toBe('prompt-caching-2024-07-31')
+    })
+  })
+
+  describe('contentToText', () => {
+    it('should return plain string content unchanged', () => {
+      expect(contentToText('Hello')).toBe('Hello')
+    })
+
+    it('should join text blocks and skip non-text blocks', () => {
+      const content = [
+        { type: 'text', text: 'Describe' },
+        { type: 'image', source: { type: 'base64', data: 'aGVsbG8=' } },
+        { type: 'text', text: 'this image' }
+      ]
+      expect(contentToText(content)).toBe('Describe this image')
+    })
+  })
+
+  describe('systemPromptText', () => {
+    it('should handle string and block system prompts', () => {
+      expect(systemPromptText('Be brief')).toBe('Be brief')
+      expect(systemPromptText([{ type: 'text', text: 'Be brief' }])).toBe('Be brief')
+      expect(systemPromptText(undefined)).toBe('')
+    })
+  })
+
+  describe('response parsing', () => {
+    const response = {
+      content: [
+        { type: 'text', text: 'Hello' },
+        { type: 'tool_use' },
+        { type: 'text', text: ' again' }
+      ],
+      usage: { input_tokens: 12, output_tokens: 15 }
+    }
+
+    it('should concatenate every text block', () => {
+      expect(extractAnthropicOutput(response)).toBe('Hello again')
+    })
+
+    it('should read reported usage', () => {
+      expect(extractAnthropicUsage(response)).toEqual({ inputTokens: 12, outputTokens: 15 })
+    })
+
+    it('should count prompt cache reads and writes as input', () => {
+      expect(extractAnthropicUsage({
+        usage: { input_tokens: 10, cache_creation_input_tokens: 200, cache_read_input_tokens: 1000, output_tokens: 5 }
+      })).toEqual({ inputTokens: 1210, outputTokens: 5, cachedInputTokens: 1000 })
+    })
+  })
+})
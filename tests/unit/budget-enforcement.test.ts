@@ -0,0 +1,132 @@
+import { describe, it, expect } from 'vitest'
+import {
+  affordableOutputTokens,
+  budgetEnforcement,
+  budgetHeadroom,
+  cheaperChatModels,
+  EnforcedBudget,
+  isBudgetBreached
+} from '@/lib/budget-enforcement'
+import { calculateCost } from '@/lib/pricing'
+
+const budget = (overrides: Partial<EnforcedBudget>): EnforcedBudget => ({
+  id: 'budget-1',
+  budget_limit: '100.00',
+  current_spend: '100.00',
+  status: 'exceeded',
+  breach_action: 'block',
+  throttle_rpm: null,
+  proxy_key_id: null,
+  ...overrides
+})
+
+describe('Budget enforcement', () => {
+  describe('isBudgetBreached', () => {
+    it('should compare spend with the limit, ignoring a stale status', () => {
+      expect(isBudgetBreached(budget({ status: 'active' }))).toBe(true)
+      expect(isBudgetBreached(budget({ current_spend: 99.5 }))).toBe(false)
+      expect(isBudgetBreached(budget({ current_spend: null, budget_limit: 0 }))).toBe(true)
+    })
+
+    it('should never enforce paused budgets', () => {
+      expect(isBudgetBreached(budget({ status: 'paused', current_spend: 500 }))).toBe(false)
+    })
+  })
+
+  describe('budgetEnforcement', () => {
+    it('should only apply account-wide budgets and those of the requesting key', () => {
+      const budgets = [
+        budget({ id: 'other-key', proxy_key_id: 'key-2' }),
+        budget({ id: 'this-key', proxy_key_id: 'key-1', breach_action: 'downgrade' })
+      ]
+
+      expect(budgetEnforcement(budgets, 'key-1')).toEqual({ blocked: null, downgraded: budgets[1], throttled: [] })
+      expect(budgetEnforcement(budgets, 'key-2').blocked).toBe(budgets[0])
+      expect(budgetEnforcement(budgets, 'key-3')).toEqual({ blocked: null, downgraded: null, throttled: [] })
+    })
+
+    it('should let a block win over downgrades and throttles', () => {
+      const budgets = [
+        budget({ id: 'downgrade', breach_action: 'downgrade' }),
+        budget({ id: 'throttle', breach_action: 'throttle', throttle_rpm: 10 }),
+        budget({ id: 'block' })
+      ]
+
+      expect(budgetEnforcement(budgets, 'key-1')).toEqual({ blocked: budgets[2], downgraded: null, throttled: [] })
+    })
+
+    it('should combine a downgrade with throttles', () => {
+      const budgets = [
+        budget({ id: 'throttle', breach_action: 'throttle', throttle_rpm: 10 }),
+        budget({ id: 'downgrade', breach_action: 'downgrade' }),
+        budget({ id: 'alert', breach_action: 'alert' })
+      ]
+
+      expect(budgetEnforcement(budgets, 'key-1')).toEqual({ blocked: null, downgraded: budgets[1], throttled: [budgets[0]] })
+    })
+
+    it('should block throttled budgets without a rate and ignore unbreached ones', () => {
+      const unbreached = budget({ current_spend: 10 })
+      const noRate = budget({ breach_action: 'throttle', throttle_rpm: null })
+
+      expect(budgetEnforcement([unbreached], 'key-1').blocked).toBeNull()
+      expect(budgetEnforcement([noRate], 'key-1').blocked).toBe(noRate)
+    })
+  })
+
+  describe('cheaperChatModels', () => {
+    it('should list cheaper chat models cheapest first, skipping embeddings and media', () => {
+      const models = cheaperChatModels('gpt-4o', new Date('2025-06-01'))
+
+      expect(models[0]).toBe('gemini-1.5-flash')
+      expect(models).toContain('gpt-4o-mini')
+      expect(models).toContain('claude-3-haiku-20240307')
+      expect(models).not.toContain('gpt-4o')
+      expect(models).not.toContain('gpt-4')
+      expect(models).not.toContain('text-embedding-3-small')
+      expect(models).not.toContain('whisper-1')
+      expect(models).not.toContain('dall-e-3')
+    })
+
+    it('should return nothing for the cheapest or unknown models', () => {
+      expect(cheaperChatModels('gemini-1.5-flash', new Date('2025-06-01'))).toEqual([])
+      expect(cheaperChatModels('my-fine-tune')).toEqual([])
+    })
+  })
+
+  describe('budgetHeadroom', () => {
+    it('should report the blocking budget with the least left', () => {
+      const budgets = [
+        budget({ id: 'account', current_spend: '40.00', status: 'active' }),
+        budget({ id: 'team', current_spend: '90.00', status: 'active', proxy_key_id: 'key-1' }),
+        budget({ id: 'other-team', current_spend: '99.00', status: 'active', proxy_key_id: 'key-2' }),
+        budget({ id: 'alerts', current_spend: '99.99', status: 'active', breach_action: 'alert' })
+      ]
+
+      expect(budgetHeadroom(budgets, 'key-1')).toEqual({ budget: budgets[1], remaining: 10 })
+      expect(budgetHeadroom(budgets, 'key-3')).toEqual({ budget: budgets[0], remaining: 60 })
+      expect(budgetHeadroom([budgets[3]], 'key-1')).toBeNull()
+    })
+  })
+
+  describe('affordableOutputTokens', () => {
+    const costFor = (outputTokens: number) => calculateCost('gpt-4', { inputTokens: 1000, outputTokens }).cost
+
+    it('should fit the worst-case cost within what is left', () => {
+      // $0.03 of input leaves $0.03 for output at $60 per 1M tokens
+      const tokens = affordableOutputTokens(costFor, 0.06)
+      // Rounded down, so float error never tips it over
+      expect(tokens).toBeGreaterThanOrEqual(499)
+      expect(tokens).toBeLessThanOrEqual(500)
+      expect(costFor(tokens)).toBeLessThanOrEqual(0.06)
+    })
+
+    it('should afford nothing when the input alone does not fit', () => {
+      expect(affordableOutputTokens(costFor, 0.02)).toBe(0)
+    })
+
+    it('should not limit free output', () => {
+      expect(affordableOutputTokens(() => 0.01, 1)).toBe(Infinity)
+    })
+  })
+})
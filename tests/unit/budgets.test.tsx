@@ -179,7 +179,8 @@ describe('BudgetsPage', () => {
         type: 'Test Budget',
         limit: 500,
         alertThreshold: 75,
-        notificationChannels: ['email', 'slack']
+        notificationChannels: ['email', 'slack'],
+        breachAction: 'alert'
       })
     })
   })
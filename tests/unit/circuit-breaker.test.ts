@@ -0,0 +1,74 @@
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import { CircuitBreakers } from '@/lib/circuit-breaker'
+
+const options = {
+  windowMs: 60_000,
+  minimumRequests: 4,
+  errorRateThreshold: 0.5,
+  latencyThresholdMs: 5_000,
+  openMs: 30_000
+}
+
+describe('CircuitBreakers', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('should stay closed until enough calls have been seen', () => {
+    const breakers = new CircuitBreakers(options)
+    for (let i = 0; i < 3; i++) breakers.record('openai', 'gpt-4o', false, 100)
+
+    expect(breakers.allowRequest('openai', 'gpt-4o')).toBe(true)
+    expect(breakers.snapshot()[0]).toMatchObject({ state: 'closed', requests: 3, errorRate: 1 })
+  })
+
+  it('should open on the error rate and only for that model', () => {
+    const breakers = new CircuitBreakers(options)
+    breakers.record('openai', 'gpt-4o', true, 100)
+    breakers.record('openai', 'gpt-4o', true, 100)
+    breakers.record('openai', 'gpt-4o', false, 100)
+    breakers.record('openai', 'gpt-4o', false, 100)
+
+    expect(breakers.allowRequest('openai', 'gpt-4o')).toBe(false)
+    expect(breakers.allowRetry('openai', 'gpt-4o')).toBe(false)
+    expect(breakers.retryAfterSeconds('openai', 'gpt-4o')).toBe(30)
+    expect(breakers.allowRequest('openai', 'gpt-4o-mini')).toBe(true)
+  })
+
+  it('should open on average latency', () => {
+    const breakers = new CircuitBreakers(options)
+    for (let i = 0; i < 4; i++) breakers.record('anthropic', 'claude-3-haiku-20240307', true, 6_000)
+
+    expect(breakers.snapshot()[0].state).toBe('open')
+  })
+
+  it('should let one probe through after the cool-down and close when it succeeds', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    const breakers = new CircuitBreakers(options)
+    for (let i = 0; i < 4; i++) breakers.record('openai', 'gpt-4o', false, 100)
+
+    vi.setSystemTime(new Date('2025-01-01T00:00:31Z'))
+    expect(breakers.allowRequest('openai', 'gpt-4o')).toBe(true)
+    expect(breakers.allowRequest('openai', 'gpt-4o')).toBe(false)
+    expect(breakers.snapshot()[0].state).toBe('half-open')
+
+    breakers.record('openai', 'gpt-4o', true, 200)
+    expect(breakers.snapshot()[0].state).toBe('closed')
+    expect(breakers.allowRequest('openai', 'gpt-4o')).toBe(true)
+  })
+
+  it('should re-open when the probe fails', () => {
+    vi.useFakeTimers()
+    vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+    const breakers = new CircuitBreakers(options)
+    for (let i = 0; i < 4; i++) breakers.record('openai', 'gpt-4o', false, 100)
+
+    vi.setSystemTime(new Date('2025-01-01T00:00:31Z'))
+    breakers.allowRequest('openai', 'gpt-4o')
+    breakers.record('openai', 'gpt-4o', false, 100)
+
+    expect(breakers.snapshot()[0]).toMatchObject({ state: 'open', retryAt: '2025-01-01T00:01:01.000Z' })
+    expect(breakers.allowRequest('openai', 'gpt-4o')).toBe(false)
+  })
+})
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest'
+import {
+  embeddingCacheKey,
+  embeddingFormatFor,
+  geminiBatchEmbeddingFormat,
+  geminiEmbeddingFormat,
+  openAIEmbeddingFormat
+} from '@/lib/embeddings'
+
+describe('Embeddings', () => {
+  describe('embeddingFormatFor', () => {
+    it('should recognise OpenAI-style embedding endpoints', () => {
+      expect(embeddingFormatFor('https://api.openai.com/v1/embeddings')).toBe(openAIEmbeddingFormat)
+      expect(embeddingFormatFor('https://generativelanguage.googleapis.com/v1beta/openai/embeddings')).toBe(openAIEmbeddingFormat)
+    })
+
+    it('should recognise Gemini embed methods', () => {
+      const base = 'https://generativelanguage.googleapis.com/v1beta/models'
+      expect(embeddingFormatFor(`${base}/text-embedding-004:embedContent`)).toBe(geminiEmbeddingFormat)
+      expect(embeddingFormatFor(`${base}/text-embedding-004:batchEmbedContents`)).toBe(geminiBatchEmbeddingFormat)
+    })
+
+    it('should ignore chat endpoints', () => {
+      expect(embeddingFormatFor('https://api.openai.com/v1/chat/completions')).toBeUndefined()
+      expect(embeddingFormatFor('https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent')).toBeUndefined()
+    })
+  })
+
+  describe('openAIEmbeddingFormat', () => {
+    it('should split string and token inputs', () => {
+      expect(openAIEmbeddingFormat.inputs({ input: 'hello' })).toEqual(['hello'])
+      expect(openAIEmbeddingFormat.inputs({ input: ['a', 'b'] })).toEqual(['a', 'b'])
+      expect(openAIEmbeddingFormat.inputs({ input: [1, 2, 3] })).toEqual([[1, 2, 3]])
+      expect(openAIEmbeddingFormat.inputs({ input: [[1, 2], [3]] })).toEqual([[1, 2], [3]])
+    })
+
+    it('should reject missing or malformed input', () => {
+      expect(openAIEmbeddingFormat.inputs({})).toBeNull()
+      expect(openAIEmbeddingFormat.inputs({ input: [] })).toBeNull()
+      expect(openAIEmbeddingFormat.inputs({ input: [{ text: 'a' }] })).toBeNull()
+    })
+
+    it('should order vectors by index and rebuild a list response', () => {
+      const parsed = openAIEmbeddingFormat.parseResponse({
+        data: [{ index: 1, embedding: [0.2] }, { index: 0, embedding: [0.1] }],
+        usage: { prompt_tokens: 4 }
+      })
+      expect(parsed).toEqual({ embeddings: [[0.1], [0.2]], inputTokens: 4 })
+
+      expect(openAIEmbeddingFormat.buildResponse('text-embedding-3-small', [[0.1], [0.2]], 4)).toEqual({
+        object: 'list',
+        data: [
+          { object: 'embedding', index: 0, embedding: [0.1] },
+          { object: 'embedding', index: 1, embedding: [0.2] }
+        ],
+        model: 'text-embedding-3-small',
+        usage: { prompt_tokens: 4, total_tokens: 4 }
+      })
+    })
+  })
+
+  describe('Gemini formats', () => {
+    const content = (text: string) => ({ content: { parts: [{ text }] } })
+
+    it('should treat an embedContent body as one input', () => {
+      const inputs = geminiEmbeddingFormat.inputs({ model: 'models/text-embedding-004', ...content('hi') })
+      expect(inputs).toEqual([content('hi')])
+      expect(geminiEmbeddingFormat.inputText(inputs![0])).toBe('hi')
+      expect(geminiEmbeddingFormat.buildResponse('text-embedding-004', [{ values: [1] }], 0)).toEqual({ embedding: { values: [1] } })
+    })
+
+    it('should send only the given batch requests, named for the routed model', () => {
+      const payload = { requests: [
+        { model: 'models/text-embedding-004', ...content('a') },
+        { model: 'models/text-embedding-004', ...content('b') }
+      ] }
+      const inputs = geminiBatchEmbeddingFormat.inputs(payload)!
+      expect(inputs).toEqual([content('a'), content('b')])
+
+      expect(geminiBatchEmbeddingFormat.withInputs(payload, [inputs[1]], 'gemini-embedding-001')).toEqual({
+        requests: [{ ...content('b'), model: 'models/gemini-embedding-001' }]
+      })
+      expect(geminiBatchEmbeddingFormat.parseResponse({ embeddings: [{ values: [2] }] }).embeddings).toEqual([{ values: [2] }])
+    })
+
+    it('should reject batches with requests lacking content', () => {
+      expect(geminiBatchEmbeddingFormat.inputs({ requests: [{ model: 'models/text-embedding-004' }] })).toBeNull()
+    })
+  })
+
+  describe('embeddingCacheKey', () => {
+    it('should depend on the model, options and input', () => {
+      const key = embeddingCacheKey('text-embedding-3-small', {}, 'hello')
+      expect(embeddingCacheKey('text-embedding-3-small', {}, 'hello')).toBe(key)
+      expect(embeddingCacheKey('text-embedding-3-large', {}, 'hello')).not.toBe(key)
+      expect(embeddingCacheKey('text-embedding-3-small', { dimensions: 256 }, 'hello')).not.toBe(key)
+      expect(embeddingCacheKey('text-embedding-3-small', {}, 'world')).not.toBe(key)
+    })
+  })
+})
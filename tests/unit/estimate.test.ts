@@ -0,0 +1,107 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import { averageOutputTokens, CostEstimate, EstimateContext, estimateRequest } from '@/lib/estimate'
+import { calculateCost } from '@/lib/pricing'
+
+const context = (overrides: Partial<EstimateContext> = {}): EstimateContext => ({
+  credentials: [{ provider: 'openai' }],
+  rules: [],
+  overrides: [],
+  proxyKeyId: 'key-1',
+  averageOutputTokens: {},
+  ...overrides
+})
+
+const chat = (body: Record<string, unknown> = {}) => ({
+  model: 'gpt-4',
+  messages: [{ role: 'user', content: 'Summarise the quarterly report in three bullet points' }],
+  max_tokens: 200,
+  ...body
+})
+
+describe('Cost estimates', () => {
+  it('should price the input alone, the expected output and the full output cap', async () => {
+    const estimate = await estimateRequest(chat(), context()) as CostEstimate
+
+    expect(estimate).toMatchObject({
+      model: 'gpt-4',
+      routed_model: 'gpt-4',
+      provider: 'openai',
+      rule_id: null,
+      request_type: 'chat',
+      max_output_tokens: 200,
+      expected_output_tokens: 100
+    })
+    expect(estimate.input_tokens).toBeGreaterThan(0)
+    const { input_tokens: inputTokens } = estimate
+    expect(estimate.cost.min).toBeCloseTo(calculateCost('gpt-4', { inputTokens, outputTokens: 0 }).cost)
+    expect(estimate.cost.max).toBeCloseTo(calculateCost('gpt-4', { inputTokens, outputTokens: 200 }).cost)
+    expect(estimate.cost.min).toBeLessThan(estimate.cost.expected)
+    expect(estimate.cost.expected).toBeLessThan(estimate.cost.max)
+  })
+
+  it('should expect the average output of recent requests, capped by max_tokens', async () => {
+    const recent = await estimateRequest(chat(), context({ averageOutputTokens: { 'gpt-4': 40 } })) as CostEstimate
+    const capped = await estimateRequest(chat(), context({ averageOutputTokens: { 'gpt-4': 900 } })) as CostEstimate
+
+    expect(recent.expected_output_tokens).toBe(40)
+    expect(capped.expected_output_tokens).toBe(200)
+  })
+
+  it('should fall back to the model output limit without an output cap', async () => {
+    const estimate = await estimateRequest(chat({ max_tokens: undefined, model: 'gpt-4o-mini' }), context()) as CostEstimate
+    const bounded = await estimateRequest(chat({ max_tokens: undefined }), context()) as CostEstimate
+
+    expect(estimate.max_output_tokens).toBe(16384)
+    // gpt-4 may output 8192 tokens but its context window also holds the prompt
+    expect(bounded.max_output_tokens).toBe(8192 - bounded.input_tokens)
+  })
+
+  it('should apply the routing rules the proxy would', async () => {
+    const rules = [
+      { id: 'to-claude', source_model: 'gpt-4', target_model: 'claude-3-haiku-20240307', conditions: null },
+      { id: 'to-mini', source_model: 'gpt-4', target_model: 'gpt-4o-mini', conditions: { keywords: ['report'] } }
+    ]
+
+    // No Anthropic credential on the key, so the first rule is skipped
+    const estimate = await estimateRequest(chat(), context({ rules })) as CostEstimate
+
+    expect(estimate).toMatchObject({ model: 'gpt-4', routed_model: 'gpt-4o-mini', rule_id: 'to-mini', provider: 'openai' })
+    expect(estimate.cost.max).toBeCloseTo(calculateCost('gpt-4o-mini', { inputTokens: estimate.input_tokens, outputTokens: 200 }).cost)
+  })
+
+  it('should estimate embeddings without output', async () => {
+    const estimate = await estimateRequest({ model: 'text-embedding-3-small', input: ['one', 'two'] }, context()) as CostEstimate
+
+    expect(estimate).toMatchObject({ request_type: 'embedding', max_output_tokens: 0, expected_output_tokens: 0 })
+    expect(estimate.cost.min).toBe(estimate.cost.max)
+  })
+
+  it('should read native bodies through their endpoint', async () => {
+    const estimate = await estimateRequest({
+      endpoint: 'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:generateContent',
+      contents: [{ role: 'user', parts: [{ text: 'Hello there' }] }],
+      generationConfig: { maxOutputTokens: 64 }
+    }, context({ credentials: [{ provider: 'google' }] })) as CostEstimate
+
+    expect(estimate).toMatchObject({ model: 'gemini-1.5-flash', provider: 'google', max_output_tokens: 64 })
+  })
+
+  it('should report requests the proxy would reject', async () => {
+    expect(await estimateRequest(chat({ model: 'made-up-model' }), context())).toEqual({ error: 'Unsupported model' })
+    expect(await estimateRequest({ endpoint: 'https://example.com/v1/chat', ...chat() }, context())).toEqual({ error: 'Invalid endpoint host' })
+    expect(await estimateRequest({ endpoint: 'https://api.openai.com/v1/images/generations', model: 'dall-e-3', prompt: 'a cat' }, context()))
+      .toEqual({ error: 'Only chat and embedding requests can be estimated' })
+    expect(await estimateRequest(chat(), context({ credentials: [] })))
+      .toEqual({ error: 'No provider credential on this key is supported on this endpoint' })
+  })
+
+  it('should average output tokens per model', () => {
+    expect(averageOutputTokens([
+      { model: 'gpt-4', output_tokens: 100 },
+      { model: 'gpt-4', output_tokens: 51 },
+      { model: 'gpt-4o', output_tokens: null },
+      { model: 'gpt-4o-mini', output_tokens: 10 }
+    ])).toEqual({ 'gpt-4': 76, 'gpt-4o-mini': 10 })
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { failedAttemptCost, fallbackModels, isFallbackStatus } from '@/lib/fallback'
+import { calculateCost } from '@/lib/pricing'
+
+describe('Fallback chain', () => {
+  describe('isFallbackStatus', () => {
+    it('should fall back on server errors, rate limits and timeouts only', () => {
+      expect(isFallbackStatus(500)).toBe(true)
+      expect(isFallbackStatus(503)).toBe(true)
+      expect(isFallbackStatus(429)).toBe(true)
+      expect(isFallbackStatus(408)).toBe(true)
+      expect(isFallbackStatus(400)).toBe(false)
+      expect(isFallbackStatus(401)).toBe(false)
+      expect(isFallbackStatus(404)).toBe(false)
+    })
+  })
+
+  describe('fallbackModels', () => {
+    it('should list the chain in order without blanks, duplicates or the routed model', () => {
+      expect(fallbackModels({ fallbackChain: ['gpt-4o-mini', ' claude-3-haiku-20240307 ', '', 'gpt-4o', 'gpt-4o-mini'] }, 'gpt-4o'))
+        .toEqual(['gpt-4o-mini', 'claude-3-haiku-20240307'])
+    })
+
+    it('should return nothing without a chain', () => {
+      expect(fallbackModels(null, 'gpt-4o')).toEqual([])
+      expect(fallbackModels({}, 'gpt-4o')).toEqual([])
+      expect(fallbackModels({ fallbackChain: 'gpt-4o-mini' }, 'gpt-4o')).toEqual([])
+    })
+  })
+
+  describe('failedAttemptCost', () => {
+    it('should charge timed-out attempts for their input and error responses nothing', () => {
+      expect(failedAttemptCost('gpt-4o', 408, 1000, {})).toBe(calculateCost('gpt-4o', { inputTokens: 1000, outputTokens: 0 }).cost)
+      expect(failedAttemptCost('gpt-4o', 408, 1000, {})).toBeGreaterThan(0)
+      expect(failedAttemptCost('gpt-4o', 503, 1000, {})).toBe(0)
+      expect(failedAttemptCost('gpt-4o', 429, 1000, {})).toBe(0)
+    })
+  })
+})
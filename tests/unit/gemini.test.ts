@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest'
+import {
+  extractGeminiOutput,
+  extractGeminiUsage,
+  geminiEndpoint,
+  geminiInputText,
+  parseGeminiModelPath,
+  withGeminiApiKey,
+  withGeminiModel
+} from '@/lib/gemini'
+
+describe('Gemini helpers', () => {
+  describe('parseGeminiModelPath', () => {
+    it('should split a model:method segment', () => {
+      expect(parseGeminiModelPath('gemini-pro:generateContent')).toEqual({
+        model: 'gemini-pro',
+        method: 'generateContent'
+      })
+    })
+
+    it('should parse a full endpoint path', () => {
+      expect(parseGeminiModelPath('/v1beta/models/gemini-1.5-flash:streamGenerateContent')).toEqual({
+        model: 'gemini-1.5-flash',
+        method: 'streamGenerateContent'
+      })
+    })
+
+    it('should reject paths without a method', () => {
+      expect(parseGeminiModelPath('gemini-pro')).toBeNull()
+    })
+  })
+
+  describe('endpoint helpers', () => {
+    it('should authenticate with the key query parameter', () => {
+      const url = new URL(withGeminiApiKey(geminiEndpoint('gemini-pro', 'generateContent'), 'AIza-test'))
+      expect(url.searchParams.get('key')).toBe('AIza-test')
+      expect(url.pathname).toBe('/v1beta/models/gemini-pro:generateContent')
+    })
+
+    it('should swap the model in the path and keep the query', () => {
+      const endpoint = `${geminiEndpoint('gemini-pro', 'streamGenerateContent')}?alt=sse`
+      expect(withGeminiModel(endpoint, 'gemini-1.5-flash')).toBe(
+        'https://generativelanguage.googleapis.com/v1beta/models/gemini-1.5-flash:streamGenerateContent?alt=sse'
+      )
+    })
+  })
+
+  describe('payload parsing', () => {
+    it('should collect text from systemInstruction and contents parts', () => {
+      const text = geminiInputText({
+        systemInstruction: { parts: [{ text: 'Be brief.' }] },
+        contents: [
+          { role: 'user', parts: [{ text: 'Hello' }, { text: 'there' }] },
+          { role: 'model', parts: [{ text: 'Hi!' }] }
+        ]
+      })
+      expect(text).toBe('Be brief. Hello there Hi!')
+    })
+
+    it('should read output text and usageMetadata', () => {
+      const data = {
+        candidates: [{ content: { parts: [{ text: 'Bon' }, { text: 'jour' }] } }],
+        usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2, totalTokenCount: 6 }
+      }
+      expect(extractGeminiOutput(data)).toBe('Bonjour')
+      expect(extractGeminiUsage(data)).toEqual({ inputTokens: 4, outputTokens: 2 })
+    })
+
+    it('should bill thinking tokens as output', () => {
+      expect(extractGeminiUsage({
+        usageMetadata: { promptTokenCount: 100, cachedContentTokenCount: 60, candidatesTokenCount: 20, thoughtsTokenCount: 30 }
+      })).toEqual({ inputTokens: 100, outputTokens: 50, cachedInputTokens: 60, reasoningTokens: 30 })
+    })
+  })
+})
@@ -0,0 +1,75 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  invalidIdempotencyKey,
+  maxIdempotencyKeyLength,
+  replayResponse,
+  requestFingerprint,
+  storedResponseHeaders
+} from '@/lib/idempotency'
+
+const chat = { model: 'gpt-4', messages: [{ role: 'user', content: 'Hello' }] }
+
+describe('Idempotency', () => {
+  it('should validate keys', () => {
+    expect(invalidIdempotencyKey('job-42-attempt')).toBeNull()
+    expect(invalidIdempotencyKey('  ')).toContain('empty')
+    expect(invalidIdempotencyKey('x'.repeat(maxIdempotencyKeyLength + 1))).toContain(`${maxIdempotencyKeyLength}`)
+  })
+
+  it('should fingerprint identical requests alike and different ones apart', async () => {
+    const first = await requestFingerprint('/api/v1/chat/completions', chat)
+
+    expect(await requestFingerprint('/api/v1/chat/completions', { ...chat })).toBe(first)
+    expect(await requestFingerprint('/api/v1/chat/completions', { ...chat, temperature: 0 })).not.toBe(first)
+    expect(await requestFingerprint('/api/proxy', chat)).not.toBe(first)
+  })
+
+  it('should fingerprint the same body alike whatever its key order', async () => {
+    const reordered = {
+      messages: [{ content: 'Hello', role: 'user' }],
+      model: 'gpt-4'
+    }
+
+    expect(JSON.stringify(reordered)).not.toBe(JSON.stringify(chat))
+    expect(await requestFingerprint('/api/v1/chat/completions', reordered))
+      .toBe(await requestFingerprint('/api/v1/chat/completions', chat))
+  })
+
+  it('should fingerprint uploaded files by content', async () => {
+    const fields = { model: 'whisper-1' }
+    const upload = (bytes: string) => new File([bytes], 'clip.wav', { type: 'audio/wav' })
+
+    const first = await requestFingerprint('/api/v1/audio/transcriptions', fields, upload('RIFF-one'))
+
+    expect(await requestFingerprint('/api/v1/audio/transcriptions', fields, upload('RIFF-one'))).toBe(first)
+    expect(await requestFingerprint('/api/v1/audio/transcriptions', fields, upload('RIFF-two'))).not.toBe(first)
+  })
+
+  it('should store content and CostLLM headers only', () => {
+    const headers = new Headers({
+      'Content-Type': 'application/json',
+      'X-CostLLM-Cost': '0.0021',
+      'X-RateLimit-Remaining-Requests': '99',
+      'Set-Cookie': 'session=1'
+    })
+
+    expect(storedResponseHeaders(headers)).toEqual({
+      'content-type': 'application/json',
+      'x-costllm-cost': '0.0021'
+    })
+  })
+
+  it('should replay stored responses marked as replays', async () => {
+    const response = replayResponse({
+      status: 200,
+      headers: { 'content-type': 'application/json', 'x-costllm-cost': '0.0021' },
+      body: '{"id":"chatcmpl-1"}'
+    })
+
+    expect(response.status).toBe(200)
+    expect(response.headers.get('Idempotent-Replayed')).toBe('true')
+    expect(response.headers.get('X-CostLLM-Cost')).toBe('0.0021')
+    expect(await response.json()).toEqual({ id: 'chatcmpl-1' })
+  })
+})
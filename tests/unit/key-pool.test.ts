@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { KeyPool, retryAfterSeconds } from '@/lib/key-pool'
+
+const now = Date.parse('2025-01-01T00:00:00Z')
+
+describe('KeyPool', () => {
+  it('should rotate credentials by weight', () => {
+    const pool = new KeyPool()
+    const credentials = [{ id: 'a', weight: 3 }, { id: 'b', weight: 1 }]
+
+    const picks = Array.from({ length: 8 }, () => pool.order('pk:openai', credentials, now)[0].id)
+    expect(picks.filter(id => id === 'a')).toHaveLength(6)
+    expect(picks.filter(id => id === 'b')).toHaveLength(2)
+    // Smooth round-robin interleaves instead of sending bursts to one key
+    expect(picks.slice(0, 4)).toEqual(['a', 'a', 'b', 'a'])
+  })
+
+  it('should keep the rest of the pool as fallbacks after the pick', () => {
+    const pool = new KeyPool()
+    const order = pool.order('pk:openai', [{ id: 'a' }, { id: 'b' }, { id: 'c' }], now)
+    expect(order.map(credential => credential.id).sort()).toEqual(['a', 'b', 'c'])
+  })
+
+  it('should move rate-limited credentials to the back until they recover', () => {
+    const pool = new KeyPool()
+    const credentials = [{ id: 'a' }, { id: 'b' }]
+    pool.markRateLimited('a', 30, now)
+
+    expect(pool.order('pk:openai', credentials, now + 1000).map(credential => credential.id)).toEqual(['b', 'a'])
+    expect(pool.order('pk:openai', credentials, now + 31_000)).toHaveLength(2)
+    expect(pool.order('pk:openai', credentials, now + 31_000).map(credential => credential.id)).toContain('a')
+  })
+
+  it('should honour rate limits persisted by other instances', () => {
+    const pool = new KeyPool()
+    const credentials = [
+      { id: 'a', rate_limited_until: '2025-01-01T00:01:00Z', last_rate_limited_at: '2025-01-01T00:00:00Z' },
+      { id: 'b', rate_limited_until: '2025-01-01T00:02:00Z', last_rate_limited_at: '2024-12-31T23:59:00Z' }
+    ]
+
+    // Everything is limited: the key limited longest ago goes first
+    expect(pool.order('pk:openai', credentials, now).map(credential => credential.id)).toEqual(['b', 'a'])
+  })
+
+  it('should drop credentials the provider rejected until they are reset', () => {
+    const pool = new KeyPool()
+    const credentials = [{ id: 'a' }, { id: 'b' }]
+    pool.markInvalid('a')
+
+    expect(pool.order('pk:openai', credentials, now).map(credential => credential.id)).toEqual(['b'])
+    pool.reset('a')
+    expect(pool.order('pk:openai', credentials, now)).toHaveLength(2)
+  })
+
+  it('should parse Retry-After seconds and dates', () => {
+    expect(retryAfterSeconds('20', now)).toBe(20)
+    expect(retryAfterSeconds('Wed, 01 Jan 2025 00:00:45 GMT', now)).toBe(45)
+    expect(retryAfterSeconds(null, now)).toBeNull()
+    expect(retryAfterSeconds('soon', now)).toBeNull()
+  })
+})
@@ -0,0 +1,155 @@
+// @vitest-environment node
+import { describe, it, expect } from 'vitest'
+import {
+  estimateAudioSeconds,
+  estimateImageInputTokens,
+  generatedImages,
+  imageDimensions,
+  imageInputTokens,
+  mediaRequestType,
+  reportedAudioSeconds,
+  requestImages
+} from '@/lib/multimodal'
+
+function png(width: number, height: number): string {
+  const bytes = Buffer.alloc(33)
+  Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]).copy(bytes, 0)
+  bytes.writeUInt32BE(13, 8)
+  bytes.write('IHDR', 12, 'ascii')
+  bytes.writeUInt32BE(width, 16)
+  bytes.writeUInt32BE(height, 20)
+  return bytes.toString('base64')
+}
+
+function jpeg(width: number, height: number): string {
+  const app0 = Buffer.alloc(18)
+  app0.writeUInt16BE(0xffe0, 0)
+  app0.writeUInt16BE(16, 2)
+  const sof = Buffer.alloc(19)
+  sof.writeUInt16BE(0xffc0, 0)
+  sof.writeUInt16BE(17, 2)
+  sof.writeUInt8(8, 4)
+  sof.writeUInt16BE(height, 5)
+  sof.writeUInt16BE(width, 7)
+  return Buffer.concat([Buffer.from([0xff, 0xd8]), app0, sof]).toString('base64')
+}
+
+function wav(seconds: number, byteRate = 32000): Blob {
+  const dataSize = seconds * byteRate
+  const header = Buffer.alloc(44)
+  header.write('RIFF', 0, 'ascii')
+  header.writeUInt32LE(36 + dataSize, 4)
+  header.write('WAVE', 8, 'ascii')
+  header.write('fmt ', 12, 'ascii')
+  header.writeUInt32LE(16, 16)
+  header.writeUInt16LE(1, 20)
+  header.writeUInt16LE(1, 22)
+  header.writeUInt32LE(byteRate / 2, 24)
+  header.writeUInt32LE(byteRate, 28)
+  header.writeUInt16LE(2, 32)
+  header.writeUInt16LE(16, 34)
+  header.write('data', 36, 'ascii')
+  header.writeUInt32LE(dataSize, 40)
+  return new Blob([header, Buffer.alloc(dataSize)])
+}
+
+describe('Multimodal accounting', () => {
+  describe('mediaRequestType', () => {
+    it('should recognise image generation and audio endpoints', () => {
+      expect(mediaRequestType('https://api.openai.com/v1/images/generations')).toBe('image')
+      expect(mediaRequestType('https://api.openai.com/v1/audio/transcriptions')).toBe('audio')
+      expect(mediaRequestType('https://api.openai.com/v1/audio/translations')).toBe('audio')
+      expect(mediaRequestType('https://api.openai.com/v1/chat/completions')).toBeUndefined()
+    })
+  })
+
+  describe('imageDimensions', () => {
+    it('should read PNG and JPEG headers', () => {
+      expect(imageDimensions(png(800, 600))).toEqual({ width: 800, height: 600 })
+      expect(imageDimensions(jpeg(1920, 1080))).toEqual({ width: 1920, height: 1080 })
+    })
+
+    it('should return undefined for data it cannot read', () => {
+      expect(imageDimensions(Buffer.from('not an image at all, just text').toString('base64'))).toBeUndefined()
+    })
+  })
+
+  describe('requestImages', () => {
+    it('should find images in OpenAI, Anthropic and Gemini requests', () => {
+      expect(requestImages({
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: `data:image/png;base64,${png(10, 10)}`, detail: 'low' } },
+            { type: 'image_url', image_url: { url: 'https://example.com/cat.jpg' } }
+          ]
+        }]
+      })).toEqual([{ data: png(10, 10), detail: 'low' }, { data: undefined, detail: undefined }])
+
+      expect(requestImages({
+        messages: [{ role: 'user', content: [{ type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'abc' } }] }]
+      })).toEqual([{ data: 'abc' }])
+
+      expect(requestImages({
+        contents: [{ parts: [{ text: 'hi' }, { inlineData: { mimeType: 'image/jpeg', data: 'xyz' } }, { inlineData: { mimeType: 'audio/wav', data: 'w' } }] }]
+      })).toEqual([{ data: 'xyz' }])
+    })
+  })
+
+  describe('imageInputTokens', () => {
+    it('should tile OpenAI images after scaling', () => {
+      // 1024x1024 is scaled to 768x768: 4 tiles
+      expect(imageInputTokens('openai', { data: png(1024, 1024) })).toBe(85 + 170 * 4)
+      // 2048x4096 fits to 1024x2048, then 768x1536: 2x3 tiles
+      expect(imageInputTokens('openai', { data: png(2048, 4096) })).toBe(85 + 170 * 6)
+      expect(imageInputTokens('openai', { data: png(4096, 4096), detail: 'low' })).toBe(85)
+    })
+
+    it('should use pixel area for Anthropic', () => {
+      expect(imageInputTokens('anthropic', { data: png(1000, 1000) })).toBe(Math.ceil(1_000_000 / 750))
+      // Large images are downscaled to about 1.15 megapixels
+      expect(imageInputTokens('anthropic', { data: png(4000, 4000) })).toBe(Math.ceil(1_150_000 / 750))
+    })
+
+    it('should use 768px tiles for Gemini', () => {
+      expect(imageInputTokens('google', { data: png(300, 300) })).toBe(258)
+      expect(imageInputTokens('google', { data: png(1000, 700) })).toBe(2 * 258)
+    })
+
+    it('should sum the images of a request', () => {
+      const payload = {
+        messages: [{ role: 'user', content: [
+          { type: 'image_url', image_url: { url: 'https://example.com/a.png', detail: 'low' } },
+          { type: 'image_url', image_url: { url: 'https://example.com/b.png', detail: 'low' } }
+        ] }]
+      }
+      expect(estimateImageInputTokens('openai', payload)).toBe(170)
+      expect(estimateImageInputTokens('openai', { messages: [{ role: 'user', content: 'text only' }] })).toBe(0)
+    })
+  })
+
+  describe('generatedImages', () => {
+    it('should count returned images at the requested quality and size', () => {
+      expect(generatedImages({ n: 2, quality: 'hd', size: '1024x1792' }, { data: [{}, {}] })).toEqual({
+        count: 2,
+        quality: 'hd',
+        size: '1024x1792'
+      })
+      expect(generatedImages({ n: 3 }, null).count).toBe(3)
+    })
+  })
+
+  describe('audio duration', () => {
+    it('should prefer the duration reported by the provider', () => {
+      expect(reportedAudioSeconds({ text: 'hi', usage: { type: 'duration', seconds: 42 } })).toBe(42)
+      expect(reportedAudioSeconds({ text: 'hi', duration: 12.5 })).toBe(12.5)
+      expect(reportedAudioSeconds({ text: 'hi' })).toBeUndefined()
+    })
+
+    it('should read WAV durations and approximate other formats from size', async () => {
+      expect(await estimateAudioSeconds(wav(3))).toBeCloseTo(3)
+      expect(await estimateAudioSeconds(new Blob([Buffer.alloc(160000)]))).toBeCloseTo(10)
+    })
+  })
+})
@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest'
+import {
+  isVerhoeffValid,
+  piiFields,
+  PiiPolicy,
+  piiKinds,
+  PiiStreamRestorer,
+  proxyKeyPiiPolicy,
+  restorePii,
+  scrubPii
+} from '@/lib/pii'
+
+const policy = (action: PiiPolicy['action'], kinds = piiKinds): PiiPolicy => ({ action, kinds })
+
+const chat = (content: string) => ({
+  model: 'gpt-4',
+  messages: [{ role: 'user', content }]
+})
+
+const contentOf = (payload: ReturnType<typeof chat>) => payload.messages[0].content
+
+describe('PII filter', () => {
+  it('should detect emails, phone numbers and national ids', () => {
+    const payload = chat([
+      'Contact jane@example.com or +44 20 7946 0958 or (555) 123-4567.',
+      'SSN 123-45-6789, NINO AB 12 34 56 C, Aadhaar 2345 6789 0124.'
+    ].join(' '))
+
+    const result = scrubPii(payload, policy('mask'))
+
+    expect(contentOf(payload)).toBe([
+      'Contact [REDACTED:email] or [REDACTED:phone] or [REDACTED:phone].',
+      'SSN [REDACTED:us_ssn], NINO [REDACTED:uk_nino], Aadhaar [REDACTED:in_aadhaar].'
+    ].join(' '))
+    expect(result.detections).toEqual([
+      { kind: 'email', count: 1 },
+      { kind: 'phone', count: 2 },
+      { kind: 'us_ssn', count: 1 },
+      { kind: 'uk_nino', count: 1 },
+      { kind: 'in_aadhaar', count: 1 }
+    ])
+  })
+
+  it('should validate checksums and issuing rules to avoid false positives', () => {
+    expect(isVerhoeffValid('234567890124')).toBe(true)
+    expect(isVerhoeffValid('234567890123')).toBe(false)
+
+    const payload = chat('Order 2345 6789 0123, SSN-like 000-12-3456, ts 1718000000, date 2024-01-15, NINO QQ 12 34 56 E')
+    const before = contentOf(payload)
+
+    expect(scrubPii(payload, policy('mask')).detections).toEqual([])
+    expect(contentOf(payload)).toBe(before)
+  })
+
+  it('should leave the payload untouched when blocking or off', () => {
+    const blocked = chat('Email jane@example.com')
+    const off = chat('Email jane@example.com')
+
+    expect(scrubPii(blocked, policy('block')).detections).toEqual([{ kind: 'email', count: 1 }])
+    expect(contentOf(blocked)).toBe('Email jane@example.com')
+    expect(scrubPii(off, policy('off')).detections).toEqual([])
+  })
+
+  it('should only run the selected detectors', () => {
+    const payload = chat('jane@example.com, 123-45-6789')
+
+    scrubPii(payload, policy('mask', ['us_ssn']))
+
+    expect(contentOf(payload)).toBe('jane@example.com, [REDACTED:us_ssn]')
+  })
+
+  it('should tokenize reversibly, reusing the token for a repeated value', () => {
+    const payload = chat('Ask jane@example.com, cc bob@example.com, then jane@example.com again')
+
+    const { tokens } = scrubPii(payload, policy('tokenize'))
+
+    expect(contentOf(payload)).toBe('Ask [PII_EMAIL_1], cc [PII_EMAIL_2], then [PII_EMAIL_1] again')
+    expect(restorePii({ choices: [{ message: { content: 'Emailed [PII_EMAIL_2] and [PII_EMAIL_9]' } }] }, tokens))
+      .toEqual({ choices: [{ message: { content: 'Emailed bob@example.com and [PII_EMAIL_9]' } }] })
+  })
+
+  it('should skip inline image data', () => {
+    const payload = {
+      messages: [{
+        role: 'user',
+        content: [
+          { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA/555-123-4567/' } },
+          { type: 'text', text: 'Call 555-123-4567' }
+        ]
+      }]
+    }
+
+    expect(scrubPii(payload, policy('mask')).detections).toEqual([{ kind: 'phone', count: 1 }])
+    expect(payload.messages[0].content[0]).toEqual({ type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA/555-123-4567/' } })
+  })
+
+  it('should restore tokens split across streamed deltas', () => {
+    const restorer = new PiiStreamRestorer(new Map([['[PII_PHONE_1]', '+1 555 123 4567']]))
+    const delta = (content: string) => ({ choices: [{ delta: { content } }] })
+
+    expect(restorer.restore(delta('Calling ['))).toEqual(delta('Calling '))
+    expect(restorer.restore(delta('PII_PHONE'))).toEqual(delta(''))
+    expect(restorer.restore(delta('_1] now [sic]'))).toEqual(delta('+1 555 123 4567 now [sic]'))
+  })
+
+  it('should read policies from proxy key columns', () => {
+    expect(proxyKeyPiiPolicy({})).toEqual({ action: 'off', kinds: piiKinds })
+    expect(proxyKeyPiiPolicy({ pii_action: 'tokenize', pii_types: ['email', 'passport'] }))
+      .toEqual({ action: 'tokenize', kinds: ['email'] })
+  })
+
+  it('should validate policies from a request body', () => {
+    expect(piiFields({ pii_action: 'mask', pii_types: ['phone'] })).toEqual({ fields: { pii_action: 'mask', pii_types: ['phone'] } })
+    expect(piiFields({ pii_action: 'drop' })).toHaveProperty('error')
+    expect(piiFields({ pii_types: ['passport'] })).toHaveProperty('error')
+  })
+})
@@ -0,0 +1,215 @@
+import { describe, it, expect } from 'vitest'
+import {
+  applyPricingOverride,
+  billedUnits,
+  calculateCost,
+  catalogModel,
+  costForPrice,
+  defaultOutputTokenCap,
+  findPricingOverride,
+  getModelPrice,
+  getPriceByVersion,
+  imagePrice,
+  mostExpensivePrice,
+  pricingCatalog,
+  PricingOverride
+} from '@/lib/pricing'
+
+function override(fields: Partial<PricingOverride>): PricingOverride {
+  return {
+    id: 'override',
+    proxy_key_id: null,
+    provider: null,
+    model: null,
+    discount_percent: null,
+    input_price: null,
+    output_price: null,
+    ...fields
+  }
+}
+
+const million = { inputTokens: 1_000_000, outputTokens: 1_000_000 }
+
+describe('Pricing catalog', () => {
+  it('should price models by exact id', () => {
+    const haiku = calculateCost('claude-3-haiku-20240307', { inputTokens: 1_000_000, outputTokens: 1_000_000 })
+    const opus = calculateCost('claude-3-opus-20240229', { inputTokens: 1_000_000, outputTokens: 1_000_000 })
+
+    expect(haiku.cost).toBeCloseTo(1.5)
+    expect(opus.cost).toBeCloseTo(90)
+    expect(haiku.priceVersion).toBe('claude-3-haiku-20240307@2024-03-13')
+  })
+
+  it('should not guess prices for unknown models', () => {
+    expect(calculateCost('unknown-model', { inputTokens: 1000, outputTokens: 1000 })).toEqual({
+      cost: 0,
+      listCost: 0,
+      priceVersion: null,
+      overrideId: null,
+      unpriced: true
+    })
+    // No prefix matching onto a neighbouring model
+    expect(getModelPrice('gpt-4o-audio-preview')).toBeUndefined()
+    expect(getModelPrice('text-embedding-005')).toBeUndefined()
+  })
+
+  it('should price dated snapshots and aliases as their catalog model', () => {
+    expect(catalogModel('gpt-4o-2024-08-06')).toBe('gpt-4o')
+    expect(catalogModel('gpt-4o-mini-2024-07-18')).toBe('gpt-4o-mini')
+    expect(catalogModel('gpt-4-0613')).toBe('gpt-4')
+    expect(catalogModel('gpt-3.5-turbo-0125')).toBe('gpt-3.5-turbo')
+    expect(catalogModel('gpt-4-1106-preview')).toBe('gpt-4-turbo')
+    expect(catalogModel('claude-3-5-sonnet-latest')).toBe('claude-3-5-sonnet-20241022')
+    expect(catalogModel('claude-3-5-sonnet-20240620')).toBe('claude-3-5-sonnet-20241022')
+    expect(catalogModel('gemini-1.5-pro-002')).toBe('gemini-1.5-pro')
+    expect(catalogModel('gemini-1.5-flash-latest')).toBe('gemini-1.5-flash')
+    expect(catalogModel('o1-2024-12-17')).toBeUndefined()
+
+    const snapshot = calculateCost('gpt-4o-2024-08-06', million)
+    expect(snapshot).toMatchObject({ priceVersion: 'gpt-4o@2024-10-02', unpriced: false })
+    expect(snapshot.cost).toBeCloseTo(12.5)
+    expect(calculateCost('gpt-4-0613', million).cost).toBeCloseTo(90)
+    expect(calculateCost('claude-3-5-sonnet-latest', million).cost).toBeCloseTo(18)
+  })
+
+  it('should keep the launch price of snapshots listed on their own', () => {
+    expect(calculateCost('gpt-4o-2024-05-13', million).cost).toBeCloseTo(20)
+  })
+
+  it('should apply model overrides to snapshots of the model', () => {
+    const result = calculateCost('gpt-4o-2024-08-06', million, {
+      overrides: [override({ id: 'gpt-4o-deal', model: 'gpt-4o', discount_percent: 50 })]
+    })
+    expect(result).toMatchObject({ overrideId: 'gpt-4o-deal', listCost: 12.5 })
+    expect(result.cost).toBeCloseTo(6.25)
+  })
+
+  it('should charge unpriced models at the most expensive rates of their provider when asked', () => {
+    expect(mostExpensivePrice('anthropic')?.model).toBe('claude-3-opus-20240229')
+
+    const charged = calculateCost('claude-2.1', million, { provider: 'anthropic', chargeUnpriced: true })
+
+    expect(charged).toMatchObject({ priceVersion: null, unpriced: true })
+    expect(charged.cost).toBeCloseTo(90)
+    expect(calculateCost('claude-2.1', million, { provider: 'anthropic' }).cost).toBe(0)
+    expect(calculateCost('gpt-4', million, { provider: 'openai', chargeUnpriced: true })).toMatchObject({ cost: 90, unpriced: false })
+  })
+
+  it('should pick the version in force at the given time', () => {
+    expect(getModelPrice('gpt-3.5-turbo', new Date('2023-12-01'))?.input).toBe(1.0)
+    expect(getModelPrice('gpt-3.5-turbo', new Date('2024-06-01'))?.input).toBe(0.5)
+    expect(getModelPrice('gpt-4o', new Date('2024-01-01'))).toBeUndefined()
+  })
+
+  it('should resolve a logged price version back to its entry', () => {
+    const { priceVersion } = calculateCost('gpt-4', { inputTokens: 1, outputTokens: 1 })
+    expect(getPriceByVersion(priceVersion!)).toMatchObject({ model: 'gpt-4', input: 30, output: 60 })
+  })
+
+  it('should bill cached input tokens at the cached rate', () => {
+    const price = getModelPrice('gpt-4o')!
+    const cost = costForPrice(price, { inputTokens: 1_000_000, cachedInputTokens: 400_000, outputTokens: 0 })
+    expect(cost).toBeCloseTo(0.6 * 2.5 + 0.4 * 1.25)
+  })
+
+  it('should use batch prices when requested', () => {
+    const price = getModelPrice('gpt-4-turbo')!
+    expect(costForPrice(price, { inputTokens: 1_000_000, outputTokens: 1_000_000, batch: true })).toBeCloseTo(20)
+  })
+
+  it('should price generated images by quality and size', () => {
+    const dallE3 = getModelPrice('dall-e-3')!
+    expect(imagePrice(dallE3, 'hd', '1792x1024')).toBe(0.12)
+    // Missing and 'auto' values use the model's defaults
+    expect(imagePrice(dallE3)).toBe(0.04)
+    expect(imagePrice(getModelPrice('gpt-image-1')!, 'auto', 'auto')).toBe(0.042)
+    expect(imagePrice(dallE3, 'hd', '256x256')).toBeUndefined()
+
+    const result = calculateCost('dall-e-3', { inputTokens: 0, outputTokens: 0, images: { count: 2, quality: 'hd', size: '1024x1024' } })
+    expect(result.cost).toBeCloseTo(0.16)
+  })
+
+  it('should price audio per minute', () => {
+    expect(calculateCost('whisper-1', { inputTokens: 0, outputTokens: 0, audioSeconds: 90 }).cost).toBeCloseTo(0.009)
+  })
+
+  it('should report the billed unit', () => {
+    expect(billedUnits({ inputTokens: 10, outputTokens: 5 })).toEqual({ unitType: 'tokens', units: 15 })
+    expect(billedUnits({ inputTokens: 10, outputTokens: 0, images: { count: 3 } })).toEqual({ unitType: 'images', units: 3 })
+    expect(billedUnits({ inputTokens: 0, outputTokens: 0, audioSeconds: 61.5 })).toEqual({ unitType: 'audio_seconds', units: 61.5 })
+  })
+
+  it('should cap output at the model limit or the context window left', () => {
+    expect(defaultOutputTokenCap('gpt-4o-mini', 1000)).toBe(16384)
+    expect(defaultOutputTokenCap('gpt-4', 4000)).toBe(4192)
+    expect(defaultOutputTokenCap('unknown-model', 1000)).toBe(0)
+  })
+
+  it('should have no duplicate versions', () => {
+    const versions = pricingCatalog.map(p => `${p.model}@${p.effectiveFrom}`)
+    expect(new Set(versions).size).toBe(versions.length)
+  })
+
+  describe('Pricing overrides', () => {
+    it('should take a percentage discount off the list price', () => {
+      const result = calculateCost('gpt-4', million, {
+        overrides: [override({ id: 'enterprise', provider: 'openai', discount_percent: '20.00' })]
+      })
+
+      expect(result.listCost).toBeCloseTo(90)
+      expect(result.cost).toBeCloseTo(72)
+      expect(result.overrideId).toBe('enterprise')
+      expect(result.priceVersion).toBe('gpt-4@2023-03-14')
+    })
+
+    it('should replace list prices with absolute per-model prices', () => {
+      const result = calculateCost('gpt-4o', million, {
+        overrides: [override({ model: 'gpt-4o', input_price: 2, output_price: '8' })]
+      })
+      expect(result.cost).toBeCloseTo(10)
+      expect(result.listCost).toBeCloseTo(12.5)
+    })
+
+    it('should price models missing from the catalog with absolute prices', () => {
+      const result = calculateCost('my-finetune', million, {
+        overrides: [override({ model: 'my-finetune', input_price: 1, output_price: 2 })]
+      })
+      expect(result).toMatchObject({ cost: 3, priceVersion: null, overrideId: 'override' })
+    })
+
+    it('should leave other providers at list price', () => {
+      const result = calculateCost('claude-3-haiku-20240307', million, {
+        overrides: [override({ provider: 'openai', discount_percent: 20 })]
+      })
+      expect(result.cost).toBeCloseTo(1.5)
+      expect(result.overrideId).toBeNull()
+    })
+
+    it('should prefer key-scoped and model-specific overrides', () => {
+      const overrides = [
+        override({ id: 'all', discount_percent: 5 }),
+        override({ id: 'provider', provider: 'openai', discount_percent: 10 }),
+        override({ id: 'model', model: 'gpt-4', discount_percent: 15 }),
+        override({ id: 'key', proxy_key_id: 'key-1', discount_percent: 30 })
+      ]
+
+      expect(findPricingOverride(overrides, { model: 'gpt-4', provider: 'openai' })?.id).toBe('model')
+      expect(findPricingOverride(overrides, { model: 'gpt-4o', provider: 'openai' })?.id).toBe('provider')
+      expect(findPricingOverride(overrides, { model: 'gemini-pro', provider: 'google' })?.id).toBe('all')
+      expect(findPricingOverride(overrides, { model: 'gpt-4', provider: 'openai', proxyKeyId: 'key-1' })?.id).toBe('key')
+    })
+
+    it('should discount cached and batch rates too', () => {
+      const price = applyPricingOverride(getModelPrice('gpt-4o'), 'gpt-4o', override({ discount_percent: 50 }))!
+      expect(price.cachedInput).toBeCloseTo(0.625)
+      expect(price.batchOutput).toBeCloseTo(2.5)
+    })
+
+    it('should discount image and audio prices', () => {
+      const dallE2 = applyPricingOverride(getModelPrice('dall-e-2'), 'dall-e-2', override({ discount_percent: 50 }))!
+      expect(imagePrice(dallE2)).toBeCloseTo(0.01)
+      const whisper = applyPricingOverride(getModelPrice('whisper-1'), 'whisper-1', override({ discount_percent: 50 }))!
+      expect(whisper.audioMinute).toBeCloseTo(0.003)
+    })
+  })
+})
@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest'
+import {
+  anthropicAdapter,
+  getProviderAdapter,
+  googleAdapter,
+  openaiAdapter,
+  providerAdapters,
+  providerForHost,
+  providerForModel
+} from '@/lib/providers'
+
+describe('Provider registry', () => {
+  it('should look adapters up by id', () => {
+    expect(getProviderAdapter('openai')).toBe(openaiAdapter)
+    expect(getProviderAdapter('Anthropic')).toBe(anthropicAdapter)
+    expect(getProviderAdapter('mistral')).toBeUndefined()
+  })
+
+  it('should map models to the provider that serves them', () => {
+    expect(providerForModel('gpt-4')?.id).toBe('openai')
+    expect(providerForModel('gpt-4o-mini')?.id).toBe('openai')
+    expect(providerForModel('claude-3-5-sonnet-20241022')?.id).toBe('anthropic')
+    expect(providerForModel('gemini-1.5-flash')?.id).toBe('google')
+    expect(providerForModel('llama-3')).toBeUndefined()
+    expect(providerForModel(undefined)).toBeUndefined()
+  })
+
+  it('should map upstream hosts to providers', () => {
+    expect(providerForHost('api.openai.com')).toBe(openaiAdapter)
+    expect(providerForHost('generativelanguage.googleapis.com')).toBe(googleAdapter)
+    expect(providerForHost('evil.example.com')).toBeUndefined()
+  })
+
+  it('should give every adapter a key validation call on its own host', () => {
+    for (const adapter of providerAdapters) {
+      const { url } = adapter.keyValidationRequest('test-key')
+      expect(adapter.hosts).toContain(new URL(url).hostname)
+    }
+  })
+
+  describe('openai adapter', () => {
+    it('should authenticate with a Bearer token', () => {
+      const { headers } = openaiAdapter.authorize('https://api.openai.com/v1/chat/completions', 'sk-test')
+      expect(headers['Authorization']).toBe('Bearer sk-test')
+    })
+
+    it('should parse output and usage', () => {
+      expect(openaiAdapter.parseResponse({
+        choices: [{ message: { content: 'Hi' } }],
+        usage: { prompt_tokens: 5, completion_tokens: 1 }
+      })).toEqual({ outputText: 'Hi', usage: { inputTokens: 5, outputTokens: 1 } })
+    })
+
+    it('should read cached and reasoning token details', () => {
+      expect(openaiAdapter.parseResponse({
+        choices: [],
+        usage: {
+          prompt_tokens: 2000,
+          completion_tokens: 500,
+          prompt_tokens_details: { cached_tokens: 1536 },
+          completion_tokens_details: { reasoning_tokens: 384 }
+        }
+      }).usage).toEqual({ inputTokens: 2000, outputTokens: 500, cachedInputTokens: 1536, reasoningTokens: 384 })
+    })
+
+    it('should include every choice and tool call in the output text', () => {
+      const { outputText } = openaiAdapter.parseResponse({
+        choices: [
+          { message: { content: 'First' } },
+          { message: { content: null, tool_calls: [{ function: { name: 'lookup', arguments: '{"q":"x"}' } }] } }
+        ]
+      })
+      expect(outputText).toBe('First lookup{"q":"x"}')
+    })
+
+    it('should set the routed model in the body', () => {
+      const payload: Record<string, unknown> = { model: 'gpt-4' }
+      openaiAdapter.withModel('https://api.openai.com/v1/chat/completions', payload, 'gpt-3.5-turbo')
+      expect(payload.model).toBe('gpt-3.5-turbo')
+    })
+
+    it('should read the output token cap', () => {
+      expect(openaiAdapter.maxOutputTokens({ max_tokens: 256 })).toBe(256)
+      expect(openaiAdapter.maxOutputTokens({ max_tokens: 256, max_completion_tokens: 1024 })).toBe(1024)
+      expect(openaiAdapter.maxOutputTokens({})).toBeUndefined()
+    })
+
+    it('should lower the output cap on the fields the request uses', () => {
+      const legacy: Record<string, unknown> = {}
+      openaiAdapter.withMaxOutputTokens(legacy, 100)
+      expect(legacy).toEqual({ max_tokens: 100 })
+
+      const reasoning: Record<string, unknown> = { max_completion_tokens: 4000 }
+      openaiAdapter.withMaxOutputTokens(reasoning, 100)
+      expect(reasoning).toEqual({ max_completion_tokens: 100 })
+    })
+
+    it('should ask for usage in the stream', () => {
+      const { payload } = openaiAdapter.prepareStreamingRequest('https://api.openai.com/v1/chat/completions', {
+        model: 'gpt-4',
+        stream: true
+      })
+      expect(payload.stream_options).toEqual({ include_usage: true })
+    })
+  })
+
+  describe('anthropic adapter', () => {
+    it('should require max_tokens', () => {
+      expect(anthropicAdapter.validateRequest({ messages: [] })).toBe('Missing max_tokens in request body')
+      expect(anthropicAdapter.validateRequest({ messages: [], max_tokens: 10 })).toBeNull()
+    })
+
+    it('should authenticate with x-api-key', () => {
+      const { headers } = anthropicAdapter.authorize('https://api.anthropic.com/v1/messages', 'sk-ant')
+      expect(headers['x-api-key']).toBe('sk-ant')
+      expect(headers['Authorization']).toBeUndefined()
+    })
+  })
+
+  describe('google adapter', () => {
+    const endpoint = 'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent'
+
+    it('should read and rewrite the model in the path', () => {
+      expect(googleAdapter.requestModel(endpoint, {})).toBe('gemini-pro')
+      expect(googleAdapter.withModel(endpoint, {}, 'gemini-1.5-flash')).toContain('models/gemini-1.5-flash:generateContent')
+    })
+
+    it('should authenticate with the key query parameter', () => {
+      const { endpoint: authorized } = googleAdapter.authorize(endpoint, 'AIza-test')
+      expect(new URL(authorized).searchParams.get('key')).toBe('AIza-test')
+    })
+
+    it('should read maxOutputTokens from the generation config', () => {
+      expect(googleAdapter.maxOutputTokens({ generationConfig: { maxOutputTokens: 512 } })).toBe(512)
+      expect(googleAdapter.maxOutputTokens({ contents: [] })).toBeUndefined()
+
+      const payload: Record<string, unknown> = { generationConfig: { temperature: 0.2, maxOutputTokens: 8000 } }
+      googleAdapter.withMaxOutputTokens(payload, 300)
+      expect(payload.generationConfig).toEqual({ temperature: 0.2, maxOutputTokens: 300 })
+    })
+
+    it('should request SSE framing when streaming', () => {
+      const { endpoint: streaming } = googleAdapter.prepareStreamingRequest(
+        'https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:streamGenerateContent',
+        {}
+      )
+      expect(new URL(streaming).searchParams.get('alt')).toBe('sse')
+    })
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest'
+import {
+  PROXY_KEY_PREFIX,
+  generateProxyKey,
+  getProxyKeyPrefix,
+  hashProxyKey,
+  isProxyKey,
+  maskProxyKey,
+  verifyProxyKey
+} from '@/lib/proxy-keys'
+
+describe('Proxy keys', () => {
+  describe('generateProxyKey', () => {
+    it('should issue cllm_ keys with a lookup prefix', () => {
+      const generated = generateProxyKey()
+      expect(generated.key.startsWith(PROXY_KEY_PREFIX)).toBe(true)
+      expect(generated.key).toMatch(/^cllm_[A-Za-z0-9]{40}$/)
+      expect(generated.prefix).toBe(generated.key.substring(0, 13))
+      expect(isProxyKey(generated.key)).toBe(true)
+    })
+
+    it('should never store the plaintext key', () => {
+      const generated = generateProxyKey()
+      expect(generated.hash).not.toContain(generated.key)
+      expect(generated.hash).toBe(hashProxyKey(generated.key, generated.salt))
+    })
+
+    it('should generate unique keys and salts', () => {
+      const a = generateProxyKey()
+      const b = generateProxyKey()
+      expect(a.key).not.toBe(b.key)
+      expect(a.salt).not.toBe(b.salt)
+    })
+  })
+
+  describe('verifyProxyKey', () => {
+    it('should accept the issued key', () => {
+      const { key, salt, hash } = generateProxyKey()
+      expect(verifyProxyKey(key, salt, hash)).toBe(true)
+    })
+
+    it('should reject a key sharing the prefix but not the secret', () => {
+      const { key, salt, hash } = generateProxyKey()
+      const forged = getProxyKeyPrefix(key) + 'x'.repeat(32)
+      expect(verifyProxyKey(forged, salt, hash)).toBe(false)
+    })
+
+    it('should reject malformed stored hashes', () => {
+      const { key, salt } = generateProxyKey()
+      expect(verifyProxyKey(key, salt, 'abc')).toBe(false)
+    })
+  })
+
+  describe('isProxyKey', () => {
+    it('should reject provider keys', () => {
+      expect(isProxyKey('sk-test-openai-key')).toBe(false)
+      expect(isProxyKey('cllm_short')).toBe(false)
+    })
+  })
+
+  it('should mask keys for display', () => {
+    expect(maskProxyKey('cllm_ab12cd34')).toBe('cllm_ab12cd34****')
+  })
+})
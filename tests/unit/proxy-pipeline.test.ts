@@ -0,0 +1,325 @@
+// @vitest-environment node
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import AES from 'crypto-js/aes'
+import { NextRequest } from 'next/server'
+import { handleProxyRequest } from '@/lib/proxy-pipeline'
+import { circuitBreakers } from '@/lib/circuit-breaker'
+import { generateProxyKey } from '@/lib/proxy-keys'
+
+type Row = Record<string, unknown>
+
+const { tables } = vi.hoisted(() => {
+  process.env.NEXT_PUBLIC_SUPABASE_URL = 'https://test.supabase.co'
+  process.env.SUPABASE_SERVICE_ROLE_KEY = 'test-service-role-key'
+  process.env.ENCRYPTION_SECRET = 'test-encryption-secret'
+  return { tables: {} as Record<string, Array<Record<string, unknown>>> }
+})
+
+vi.mock('@/lib/supabase-server', () => ({
+  createServerSupabaseClient: async () => fakeSupabase()
+}))
+
+// The parts of the Supabase client the pipeline uses, over the in-memory tables
+function fakeSupabase() {
+  return {
+    from(table: string) {
+      const rows = (tables[table] ||= [])
+      const filters: Array<(row: Row) => boolean> = []
+      let write: ((matched: Row[]) => Row[]) | undefined
+      const run = async () => {
+        const matched = rows.filter(row => filters.every(filter => filter(row)))
+        return { data: write ? write(matched) : matched, error: null }
+      }
+      const first = async () => {
+        const { data } = await run()
+        return { data: data[0] ?? null, error: null }
+      }
+      const filter = (test: (row: Row) => boolean) => {
+        filters.push(test)
+        return builder
+      }
+      const builder = {
+        select: () => builder,
+        insert: (values: Row | Row[]) => {
+          write = () => {
+            const inserted = [values].flat().map(value => ({ id: crypto.randomUUID(), ...value }))
+            rows.push(...inserted)
+            return inserted
+          }
+          return builder
+        },
+        update: (values: Row) => {
+          write = matched => matched.map(row => Object.assign(row, values))
+          return builder
+        },
+        delete: () => {
+          write = matched => {
+            for (const row of matched) rows.splice(rows.indexOf(row), 1)
+            return matched
+          }
+          return builder
+        },
+        eq: (column: string, value: unknown) => filter(row => row[column] === value),
+        gt: (column: string, value: string) => filter(row => String(row[column]) > value),
+        lt: (column: string, value: string) => filter(row => String(row[column]) < value),
+        in: (column: string, values: unknown[]) => filter(row => values.includes(row[column])),
+        maybeSingle: first,
+        single: first,
+        then: <T>(resolve: (result: { data: Row[]; error: null }) => T, reject?: (error: unknown) => T) =>
+          run().then(resolve, reject)
+      }
+      return builder
+    },
+
+    // record_budget_spend as defined in supabase_migration.sql
+    async rpc(name: string, args: Record<string, unknown>) {
+      if (name !== 'record_budget_spend') throw new Error(`Unexpected rpc ${name}`)
+      for (const budget of tables.budgets || []) {
+        if (budget.user_id !== args.p_user_id || !['active', 'exceeded'].includes(budget.status as string)) continue
+        if (budget.proxy_key_id && budget.proxy_key_id !== args.p_proxy_key_id) continue
+        budget.current_spend = Number(budget.current_spend || 0) + Number(args.p_cost)
+        budget.status = Number(budget.current_spend) > Number(budget.budget_limit) ? 'exceeded' : 'active'
+      }
+      return { data: null, error: null }
+    }
+  }
+}
+
+const userId = 'user-1'
+const proxyKeyId = 'proxy-key-1'
+const openaiEndpoint = 'https://api.openai.com/v1/chat/completions'
+const issued = generateProxyKey()
+
+function credential(id: string, provider: string): Row {
+  return {
+    id,
+    user_id: userId,
+    provider,
+    api_key: AES.encrypt(`${provider}-secret`, process.env.ENCRYPTION_SECRET!).toString(),
+    status: 'active'
+  }
+}
+
+function chatRequest(content: string, body: Record<string, unknown> = {}) {
+  return new NextRequest('http://localhost/api/proxy', {
+    method: 'POST',
+    headers: { 'Authorization': `Bearer ${issued.key}`, 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: openaiEndpoint, model: 'gpt-4o', messages: [{ role: 'user', content }], ...body })
+  })
+}
+
+function completion(promptTokens: number, completionTokens: number) {
+  return Response.json({
+    choices: [{ message: { role: 'assistant', content: 'Done' } }],
+    usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens }
+  })
+}
+
+// Request bodies sent upstream, in order
+function upstreamBodies(fetchMock: ReturnType<typeof vi.fn>) {
+  return fetchMock.mock.calls.map(([, init]) => JSON.parse((init as RequestInit).body as string))
+}
+
+describe('Proxy pipeline', () => {
+  let fetchMock: ReturnType<typeof vi.fn>
+
+  beforeEach(() => {
+    for (const table of Object.keys(tables)) delete tables[table]
+    tables.proxy_keys = [{
+      id: proxyKeyId,
+      user_id: userId,
+      key_prefix: issued.prefix,
+      key_salt: issued.salt,
+      key_hash: issued.hash,
+      status: 'active',
+      proxy_key_credentials: [{ api_keys: credential('openai-key', 'openai') }],
+      users: { subscription_tier: 'enterprise' }
+    }]
+
+    fetchMock = vi.fn(async () => completion(1000, 1000))
+    vi.stubGlobal('fetch', fetchMock)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  describe('budgets', () => {
+    it('should add served spend to a block budget and reject the next request with 402', async () => {
+      tables.budgets = [{
+        id: 'budget-1',
+        user_id: userId,
+        budget_limit: 0.01,
+        current_spend: 0,
+        status: 'active',
+        breach_action: 'block',
+        proxy_key_id: null
+      }]
+
+      // gpt-4o at $2.50/$10 per 1M tokens: the reported usage costs $0.0125
+      const served = await handleProxyRequest(chatRequest('Summarize the report'))
+      expect(served.status).toBe(200)
+      await vi.waitFor(() => expect(tables.budgets[0].current_spend).toBeCloseTo(0.0125, 6))
+      expect(tables.budgets[0].status).toBe('exceeded')
+
+      const blocked = await handleProxyRequest(chatRequest('Summarize the appendix'))
+      expect(blocked.status).toBe(402)
+      expect(await blocked.json()).toMatchObject({ budget_id: 'budget-1', scope: 'account' })
+      expect(fetchMock).toHaveBeenCalledTimes(1)
+    })
+
+    it('should count spend against budgets of the serving key and the account only', async () => {
+      const budget = (id: string, proxy_key_id: string | null) => ({
+        id,
+        user_id: userId,
+        budget_limit: 100,
+        current_spend: 0,
+        status: 'active',
+        breach_action: 'alert',
+        proxy_key_id
+      })
+      tables.budgets = [budget('account', null), budget('this-key', proxyKeyId), budget('other-key', 'proxy-key-2')]
+
+      await handleProxyRequest(chatRequest('Summarize the report'))
+
+      await vi.waitFor(() => expect(tables.budgets[0].current_spend).toBeGreaterThan(0))
+      expect(tables.budgets.map(({ current_spend }) => current_spend)).toEqual([0.0125, 0.0125, 0])
+    })
+
+    it('should tighten the max_tokens clamp as served spend builds up', async () => {
+      tables.budgets = [{
+        id: 'budget-1',
+        user_id: userId,
+        budget_limit: 0.1,
+        current_spend: 0,
+        status: 'active',
+        breach_action: 'block',
+        proxy_key_id: null
+      }]
+      // Each request reports 2,000 output tokens of gpt-4o, $0.02
+      fetchMock.mockImplementation(async () => completion(10, 2000))
+
+      const clamps: number[] = []
+      for (const [index, topic] of ['the report', 'the appendix', 'the index'].entries()) {
+        const response = await handleProxyRequest(chatRequest(`Summarize ${topic}`))
+        expect(response.status).toBe(200)
+        clamps.push(Number(response.headers.get('X-CostLLM-Max-Tokens-Clamped')))
+        await vi.waitFor(() => expect(Number(tables.budgets[0].current_spend)).toBeGreaterThan(0.02 * index))
+      }
+
+      expect(clamps[0]).toBeLessThan(10000)
+      expect(clamps[1]).toBeLessThan(clamps[0] - 1900)
+      expect(clamps[2]).toBeLessThan(clamps[1] - 1900)
+      expect(upstreamBodies(fetchMock).map(body => body.max_tokens)).toEqual(clamps)
+    })
+  })
+
+  describe('streaming', () => {
+    it('should log and charge what was streamed when the client disconnects', async () => {
+      tables.budgets = [{
+        id: 'budget-1',
+        user_id: userId,
+        budget_limit: 100,
+        current_spend: 0,
+        status: 'active',
+        breach_action: 'alert',
+        proxy_key_id: null
+      }]
+      fetchMock.mockImplementation(async () => new Response(new ReadableStream({
+        start(controller) {
+          // Usage would only arrive with the final chunk, which the client never waits for
+          controller.enqueue(new TextEncoder().encode('data: {"choices":[{"delta":{"content":"Once upon a time"}}]}\n\n'))
+        }
+      }), { headers: { 'Content-Type': 'text/event-stream' } }))
+
+      const response = await handleProxyRequest(chatRequest('Tell me a story', { stream: true }))
+      const reader = response.body!.getReader()
+      await reader.read()
+      await reader.cancel()
+
+      await vi.waitFor(() => expect(tables.api_requests).toHaveLength(1))
+      expect(tables.api_requests[0]).toMatchObject({ usage_source: 'estimated', status: 'success' })
+      expect(tables.api_requests[0].output_tokens).toBeGreaterThan(0)
+      await vi.waitFor(() => expect(Number(tables.budgets[0].current_spend)).toBeGreaterThan(0))
+      expect(tables.cache_entries || []).toHaveLength(0)
+    })
+  })
+
+  describe('fallback chain', () => {
+    beforeEach(() => {
+      tables.optimization_rules = [{
+        id: 'rule-1',
+        user_id: userId,
+        enabled: true,
+        source_model: 'gpt-4o',
+        target_model: 'gpt-4o',
+        conditions: { fallbackChain: ['gpt-4o-mini'] }
+      }]
+    })
+
+    it('should move to the next model when the provider cannot be reached', async () => {
+      fetchMock.mockImplementation(async (_url: string, init: RequestInit) => {
+        if (JSON.parse(init.body as string).model === 'gpt-4o') throw new TypeError('fetch failed')
+        return completion(10, 10)
+      })
+
+      const response = await handleProxyRequest(chatRequest('Summarize the report'))
+
+      expect(response.status).toBe(200)
+      expect(response.headers.get('X-CostLLM-Attempts')).toBe('2')
+      expect(upstreamBodies(fetchMock).map(body => body.model).at(-1)).toBe('gpt-4o-mini')
+      await vi.waitFor(() => expect(tables.api_requests).toHaveLength(1))
+      expect(tables.api_requests[0]).toMatchObject({
+        model: 'gpt-4o-mini',
+        attempt: 2,
+        fallback_attempts: [expect.objectContaining({ model: 'gpt-4o', status: 502, cost: 0 })]
+      })
+    })
+
+    it('should answer 502 when every model in the chain is unreachable', async () => {
+      fetchMock.mockRejectedValue(new TypeError('fetch failed'))
+
+      const response = await handleProxyRequest(chatRequest('Summarize the report'))
+
+      expect(response.status).toBe(502)
+      expect((await response.json()).error).toContain('fetch failed')
+      expect(response.headers.get('X-CostLLM-Attempts')).toBe('2')
+    })
+  })
+
+  describe('open circuits', () => {
+    beforeEach(() => {
+      // The key could also reach Anthropic
+      ;(tables.proxy_keys[0].proxy_key_credentials as Row[]).push({ api_keys: credential('anthropic-key', 'anthropic') })
+      vi.spyOn(circuitBreakers, 'allowRequest').mockImplementation((_provider, model) => model !== 'gpt-4o')
+      vi.spyOn(circuitBreakers, 'retryAfterSeconds').mockReturnValue(12)
+    })
+
+    it('should fail fast with 503 when no rule names an alternate', async () => {
+      const response = await handleProxyRequest(chatRequest('Summarize the report'))
+
+      expect(response.status).toBe(503)
+      expect(response.headers.get('Retry-After')).toBe('12')
+      expect(fetchMock).not.toHaveBeenCalled()
+    })
+
+    it('should route to the next model of a matching fallback chain', async () => {
+      tables.optimization_rules = [{
+        id: 'rule-1',
+        user_id: userId,
+        enabled: true,
+        source_model: 'gpt-4o',
+        target_model: 'gpt-4o',
+        conditions: { fallbackChain: ['gpt-4o-mini'] }
+      }]
+
+      const response = await handleProxyRequest(chatRequest('Summarize the report'))
+
+      expect(response.status).toBe(200)
+      expect(upstreamBodies(fetchMock).map(body => body.model)).toEqual(['gpt-4o-mini'])
+    })
+  })
+})
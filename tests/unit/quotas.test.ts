@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { MemoryRateLimiter } from '@/lib/rate-limit'
+import {
+  consumeRequestQuotas,
+  consumeTokenQuota,
+  peekQuotas,
+  proxyKeyQuotaLimits,
+  rateLimitHeaders,
+  recordTokenUsage,
+  tierQuotaLimits,
+  QuotaScope
+} from '@/lib/quotas'
+
+const account: QuotaScope = { id: 'user:1', limits: { requestsPerMinute: 5, tokensPerMinute: 1000, requestsPerDay: 100 } }
+const key: QuotaScope = { id: 'key:1', limits: { requestsPerMinute: 2, tokensPerMinute: null, requestsPerDay: null } }
+
+describe('Quotas', () => {
+  describe('limits', () => {
+    it('should fall back to the free tier for unknown tiers', () => {
+      expect(tierQuotaLimits('pro').requestsPerDay).toBe(10_000)
+      expect(tierQuotaLimits(undefined)).toEqual(tierQuotaLimits('free'))
+      expect(tierQuotaLimits('platinum')).toEqual(tierQuotaLimits('free'))
+    })
+
+    it('should map proxy key columns, treating missing limits as none', () => {
+      expect(proxyKeyQuotaLimits({ rpm_limit: 60, tpm_limit: null })).toEqual({
+        requestsPerMinute: 60,
+        tokensPerMinute: null,
+        requestsPerDay: null
+      })
+    })
+  })
+
+  describe('consumeRequestQuotas', () => {
+    it('should count against every limited dimension of each scope', async () => {
+      const limiter = new MemoryRateLimiter()
+      const statuses = await consumeRequestQuotas(limiter, [account, key])
+
+      expect(statuses.map(status => `${status.scope}:${status.dimension}`)).toEqual([
+        'user:1:requests',
+        'user:1:requests-day',
+        'key:1:requests'
+      ])
+      expect(statuses.every(status => status.allowed)).toBe(true)
+    })
+
+    it('should stop at the first exceeded limit', async () => {
+      const limiter = new MemoryRateLimiter()
+      await consumeRequestQuotas(limiter, [account, key])
+      await consumeRequestQuotas(limiter, [account, key])
+
+      const statuses = await consumeRequestQuotas(limiter, [key, account])
+      expect(statuses).toHaveLength(1)
+      expect(statuses[0]).toMatchObject({ scope: 'key:1', dimension: 'requests', allowed: false })
+      // The rejected request was not charged to the account
+      const [requests] = await peekQuotas(limiter, account)
+      expect(requests.remaining).toBe(3)
+    })
+  })
+
+  describe('token quota', () => {
+    it('should reserve input tokens and record the rest after the response', async () => {
+      const limiter = new MemoryRateLimiter()
+
+      expect((await consumeTokenQuota(limiter, [account, key], 600))[0]).toMatchObject({ allowed: true, remaining: 400 })
+      await recordTokenUsage(limiter, [account, key], 500)
+
+      const tokens = (await peekQuotas(limiter, account)).find(status => status.dimension === 'tokens')
+      expect(tokens).toMatchObject({ allowed: false, remaining: 0 })
+      expect((await consumeTokenQuota(limiter, [account], 1))[0].allowed).toBe(false)
+    })
+
+    it('should reject inputs larger than the remaining tokens', async () => {
+      const limiter = new MemoryRateLimiter()
+      expect((await consumeTokenQuota(limiter, [account], 1500))[0]).toMatchObject({ allowed: false, remaining: 1000 })
+    })
+  })
+
+  describe('rateLimitHeaders', () => {
+    it('should report the scope with the least headroom per dimension', () => {
+      const headers = rateLimitHeaders([
+        { scope: 'user:1', dimension: 'requests', allowed: true, limit: 100, remaining: 90, resetSeconds: 60 },
+        { scope: 'key:1', dimension: 'requests', allowed: true, limit: 10, remaining: 4, resetSeconds: 30 },
+        { scope: 'user:1', dimension: 'requests-day', allowed: true, limit: 1000, remaining: 950, resetSeconds: 86400 }
+      ])
+
+      expect(headers).toEqual({
+        'X-RateLimit-Limit-Requests': '10',
+        'X-RateLimit-Remaining-Requests': '4',
+        'X-RateLimit-Reset-Requests': '30',
+        'X-RateLimit-Limit-Requests-Day': '1000',
+        'X-RateLimit-Remaining-Requests-Day': '950',
+        'X-RateLimit-Reset-Requests-Day': '86400'
+      })
+    })
+  })
+})
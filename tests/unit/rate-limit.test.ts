@@ -0,0 +1,217 @@
+// @vitest-environment node
+import net from 'node:net'
+import { afterEach, describe, it, expect, vi } from 'vitest'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createRateLimiter, MemoryRateLimiter, PostgresRateLimiter, RedisRateLimiter } from '@/lib/rate-limit'
+import { encodeCommand, parseReply, RedisClient, RedisError } from '@/lib/redis'
+
+const window = { limit: 2, windowMs: 60_000 }
+
+describe('Rate limiting', () => {
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+  })
+
+  describe('MemoryRateLimiter', () => {
+    it('should allow up to the limit per key and then reject', async () => {
+      const limiter = new MemoryRateLimiter()
+
+      expect(await limiter.consume('user:1', window)).toMatchObject({ allowed: true, remaining: 1 })
+      expect(await limiter.consume('user:1', window)).toMatchObject({ allowed: true, remaining: 0 })
+      expect(await limiter.consume('user:1', window)).toMatchObject({ allowed: false, remaining: 0, resetSeconds: 60 })
+      expect((await limiter.consume('user:2', window)).allowed).toBe(true)
+    })
+
+    it('should free capacity as the window slides', async () => {
+      vi.useFakeTimers()
+      vi.setSystemTime(new Date('2025-01-01T00:00:00Z'))
+      const limiter = new MemoryRateLimiter()
+
+      await limiter.consume('user:1', window)
+      vi.setSystemTime(new Date('2025-01-01T00:00:30Z'))
+      await limiter.consume('user:1', window)
+      expect((await limiter.consume('user:1', window)).resetSeconds).toBe(30)
+
+      vi.setSystemTime(new Date('2025-01-01T00:01:01Z'))
+      expect(await limiter.consume('user:1', window)).toMatchObject({ allowed: true, remaining: 0 })
+    })
+
+    it('should consume amounts only when they fit', async () => {
+      const limiter = new MemoryRateLimiter()
+      const tokens = { limit: 100, windowMs: 60_000 }
+
+      expect(await limiter.consume('key:1:tokens', tokens, 70)).toMatchObject({ allowed: true, remaining: 30 })
+      expect(await limiter.consume('key:1:tokens', tokens, 40)).toMatchObject({ allowed: false, remaining: 30 })
+      expect(await limiter.consume('key:1:tokens', tokens, 30)).toMatchObject({ allowed: true, remaining: 0 })
+    })
+
+    it('should record usage over the limit and peek without counting', async () => {
+      const limiter = new MemoryRateLimiter()
+      const tokens = { limit: 100, windowMs: 60_000 }
+
+      await limiter.record('key:1:tokens', tokens, 150)
+      expect(await limiter.peek('key:1:tokens', tokens)).toMatchObject({ allowed: false, remaining: 0 })
+      expect(await limiter.peek('key:2:tokens', tokens)).toMatchObject({ allowed: true, remaining: 100 })
+      expect((await limiter.consume('key:1:tokens', tokens, 1)).allowed).toBe(false)
+    })
+  })
+
+  describe('PostgresRateLimiter', () => {
+    it('should map the consume_rate_limit row', async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: [{ allowed: false, current_count: 2, reset_ms: 12_500 }], error: null })
+      const limiter = new PostgresRateLimiter({ rpc } as unknown as SupabaseClient)
+
+      expect(await limiter.consume('user:1', window)).toEqual({ allowed: false, limit: 2, remaining: 0, resetSeconds: 13 })
+      expect(rpc).toHaveBeenCalledWith('consume_rate_limit', {
+        p_key: 'user:1',
+        p_limit: 2,
+        p_window_ms: 60_000,
+        p_amount: 1,
+        p_enforce: true
+      })
+    })
+
+    it('should record without enforcing and peek with a zero amount', async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: [{ allowed: true, current_count: 1, reset_ms: 30_000 }], error: null })
+      const limiter = new PostgresRateLimiter({ rpc } as unknown as SupabaseClient)
+
+      await limiter.record('user:1:tokens', window, 500)
+      expect(rpc).toHaveBeenLastCalledWith('consume_rate_limit', expect.objectContaining({ p_amount: 500, p_enforce: false }))
+
+      expect(await limiter.peek('user:1', window)).toMatchObject({ allowed: true, remaining: 1 })
+      expect(rpc).toHaveBeenLastCalledWith('consume_rate_limit', expect.objectContaining({ p_amount: 0 }))
+    })
+
+    it('should surface query errors', async () => {
+      const rpc = vi.fn().mockResolvedValue({ data: null, error: { message: 'connection refused' } })
+      const limiter = new PostgresRateLimiter({ rpc } as unknown as SupabaseClient)
+
+      await expect(limiter.consume('user:1', window)).rejects.toThrow('connection refused')
+    })
+  })
+
+  describe('RedisRateLimiter', () => {
+    it('should run the consume script on the prefixed key', async () => {
+      const command = vi.fn().mockResolvedValue([1, 1, 59_000])
+      const limiter = new RedisRateLimiter({ command } as unknown as RedisClient)
+
+      expect(await limiter.consume('user:1', window)).toEqual({ allowed: true, limit: 2, remaining: 1, resetSeconds: 59 })
+      const [args] = command.mock.calls[0]
+      expect(args[0]).toBe('EVAL')
+      expect(args.slice(2)).toEqual([1, 'costllm:ratelimit:user:1', 2, 60_000, 1, 1])
+    })
+
+    it('should pass the amount and skip enforcement when recording', async () => {
+      const command = vi.fn().mockResolvedValue([1, 700, 59_000])
+      const limiter = new RedisRateLimiter({ command } as unknown as RedisClient)
+
+      await limiter.record('key:1:tokens', window, 700)
+      expect(command.mock.calls[0][0].slice(4)).toEqual([2, 60_000, 700, 0])
+    })
+  })
+
+  describe('RESP', () => {
+    it('should encode commands as bulk string arrays', () => {
+      expect(encodeCommand(['GET', 'key'])).toBe('*2\r\n$3\r\nGET\r\n$3\r\nkey\r\n')
+      expect(encodeCommand(['SET', 'k', 'é'])).toBe('*3\r\n$3\r\nSET\r\n$1\r\nk\r\n$2\r\né\r\n')
+    })
+
+    it('should parse each reply type', () => {
+      expect(parseReply(Buffer.from('+OK\r\n'))?.value).toBe('OK')
+      expect(parseReply(Buffer.from(':42\r\n'))?.value).toBe(42)
+      expect(parseReply(Buffer.from('$5\r\nhello\r\n'))?.value).toBe('hello')
+      expect(parseReply(Buffer.from('$-1\r\n'))?.value).toBeNull()
+      expect(parseReply(Buffer.from('*3\r\n:1\r\n:2\r\n$2\r\nok\r\n'))?.value).toEqual([1, 2, 'ok'])
+      expect(parseReply(Buffer.from('-ERR wrong type\r\n'))?.value).toEqual(new RedisError('ERR wrong type'))
+    })
+
+    it('should wait for incomplete replies', () => {
+      expect(parseReply(Buffer.from('$5\r\nhel'))).toBeUndefined()
+      expect(parseReply(Buffer.from('*2\r\n:1\r\n'))).toBeUndefined()
+    })
+  })
+
+  describe('RedisClient', () => {
+    it('should send commands to a server and read fragmented replies', async () => {
+      const received: string[] = []
+      const server = net.createServer(socket => {
+        socket.on('data', data => {
+          received.push(data.toString())
+          // Split the reply across writes to exercise buffering
+          socket.write('*3\r\n:1\r\n')
+          setTimeout(() => socket.write(':1\r\n:60000\r\n'), 5)
+        })
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      const { port } = server.address() as net.AddressInfo
+
+      const client = new RedisClient(`redis://127.0.0.1:${port}`)
+      try {
+        const limiter = new RedisRateLimiter(client)
+        expect(await limiter.consume('user:1', window)).toMatchObject({ allowed: true, remaining: 1, resetSeconds: 60 })
+        expect(received.join('')).toContain('costllm:ratelimit:user:1')
+      } finally {
+        client.close()
+        await new Promise(resolve => server.close(resolve))
+      }
+    })
+
+    it('should time out commands to a server that never replies, and fail open', async () => {
+      const sockets: net.Socket[] = []
+      const server = net.createServer(socket => {
+        sockets.push(socket)
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      const { port } = server.address() as net.AddressInfo
+
+      const client = new RedisClient(`redis://127.0.0.1:${port}`, 50)
+      vi.stubEnv('REDIS_URL', `redis://127.0.0.1:${port}`)
+      vi.spyOn(console, 'error').mockImplementation(() => {})
+      try {
+        await expect(client.command(['PING'])).rejects.toThrow('Redis command timed out')
+
+        const limiter = createRateLimiter('redis')
+        expect(await limiter.consume('user:1', window)).toMatchObject({ allowed: true })
+      } finally {
+        client.close()
+        sockets.forEach(socket => socket.destroy())
+        await new Promise(resolve => server.close(resolve))
+      }
+    })
+
+    it('should fail commands on a malformed reply and reconnect', async () => {
+      let connections = 0
+      const server = net.createServer(socket => {
+        const malformed = connections++ === 0
+        socket.on('data', () => socket.write(malformed ? '?garbage\r\n' : '+PONG\r\n'))
+      })
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+      const { port } = server.address() as net.AddressInfo
+
+      const client = new RedisClient(`redis://127.0.0.1:${port}`)
+      try {
+        await expect(client.command(['PING'])).rejects.toThrow('Unexpected reply type: ?')
+        expect(await client.command(['PING'])).toBe('PONG')
+        expect(connections).toBe(2)
+      } finally {
+        client.close()
+        await new Promise(resolve => server.close(resolve))
+      }
+    })
+
+    // Runs against a real server when REDIS_URL is set, e.g. `docker compose up redis`
+    it.skipIf(!process.env.REDIS_URL)('should enforce the limit on a live Redis server', async () => {
+      const client = new RedisClient(process.env.REDIS_URL!)
+      try {
+        const limiter = new RedisRateLimiter(client, `costllm:test:${Date.now()}:`)
+        expect((await limiter.consume('user:1', window)).allowed).toBe(true)
+        expect((await limiter.consume('user:1', window)).allowed).toBe(true)
+        expect(await limiter.consume('user:1', window)).toMatchObject({ allowed: false, remaining: 0 })
+      } finally {
+        client.close()
+      }
+    })
+  })
+})
@@ -0,0 +1,206 @@
+import { describe, it, expect } from 'vitest'
+import {
+  SSEParser,
+  StreamAccumulator,
+  createAccountingStream,
+  createPiiRestoringStream,
+  createRecordingStream,
+  StreamResult
+} from '@/lib/streaming'
+
+function sse(events: Array<{ event?: string; data: unknown }>): string {
+  return events
+    .map(e => `${e.event ? `event: ${e.event}\n` : ''}data: ${typeof e.data === 'string' ? e.data : JSON.stringify(e.data)}\n\n`)
+    .join('')
+}
+
+describe('Streaming', () => {
+  describe('SSEParser', () => {
+    it('should parse complete events', () => {
+      const parser = new SSEParser()
+      const events = parser.feed('event: ping\ndata: {"a":1}\n\ndata: [DONE]\n\n')
+      expect(events).toEqual([
+        { event: 'ping', data: '{"a":1}' },
+        { event: undefined, data: '[DONE]' }
+      ])
+    })
+
+    it('should buffer events split across chunks', () => {
+      const parser = new SSEParser()
+      expect(parser.feed('data: {"hel')).toEqual([])
+      expect(parser.feed('lo":true}\n')).toEqual([])
+      expect(parser.feed('\n')).toEqual([{ event: undefined, data: '{"hello":true}' }])
+    })
+
+    it('should handle CRLF line endings and comments', () => {
+      const parser = new SSEParser()
+      const events = parser.feed(': keep-alive\r\n\r\ndata: x\r\n\r\n')
+      expect(events).toEqual([{ event: undefined, data: 'x' }])
+    })
+
+    it('should return a trailing event on flush', () => {
+      const parser = new SSEParser()
+      parser.feed('data: last')
+      expect(parser.flush()).toEqual([{ event: undefined, data: 'last' }])
+    })
+  })
+
+  describe('StreamAccumulator', () => {
+    it('should accumulate OpenAI chat.completion.chunk deltas and usage', () => {
+      const acc = new StreamAccumulator('openai')
+      const parser = new SSEParser()
+      const body = sse([
+        { data: { object: 'chat.completion.chunk', choices: [{ delta: { role: 'assistant' } }] } },
+        { data: { object: 'chat.completion.chunk', choices: [{ delta: { content: 'Hello' } }] } },
+        { data: { object: 'chat.completion.chunk', choices: [{ delta: { content: ' world' } }] } },
+        { data: { object: 'chat.completion.chunk', choices: [], usage: { prompt_tokens: 9, completion_tokens: 2 } } },
+        { data: '[DONE]' }
+      ])
+      parser.feed(body).forEach(e => acc.handle(e))
+
+      expect(acc.outputText).toBe('Hello world')
+      expect(acc.reportedUsage).toEqual({ inputTokens: 9, outputTokens: 2 })
+    })
+
+    it('should accumulate Anthropic content_block_delta and message_delta usage', () => {
+      const acc = new StreamAccumulator('anthropic')
+      const parser = new SSEParser()
+      const body = sse([
+        { event: 'message_start', data: { type: 'message_start', message: { usage: { input_tokens: 12, output_tokens: 1 } } } },
+        { event: 'content_block_delta', data: { type: 'content_block_delta', delta: { type: 'text_delta', text: 'Hi' } } },
+        { event: 'content_block_delta', data: { type: 'content_block_delta', delta: { type: 'text_delta', text: ' there' } } },
+        { event: 'message_delta', data: { type: 'message_delta', usage: { output_tokens: 5 } } },
+        { event: 'message_stop', data: { type: 'message_stop' } }
+      ])
+      parser.feed(body).forEach(e => acc.handle(e))
+
+      expect(acc.outputText).toBe('Hi there')
+      expect(acc.reportedUsage).toEqual({ inputTokens: 12, outputTokens: 5 })
+    })
+
+    it('should accumulate Gemini streamGenerateContent parts and usageMetadata', () => {
+      const acc = new StreamAccumulator('google')
+      const parser = new SSEParser()
+      const body = sse([
+        { data: { candidates: [{ content: { parts: [{ text: 'Bon' }] } }], usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 1 } } },
+        { data: { candidates: [{ content: { parts: [{ text: 'jour' }] } }], usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 3 } } }
+      ])
+      parser.feed(body).forEach(e => acc.handle(e))
+
+      expect(acc.outputText).toBe('Bonjour')
+      expect(acc.reportedUsage).toEqual({ inputTokens: 4, outputTokens: 3 })
+    })
+
+    it('should ignore malformed event data', () => {
+      const acc = new StreamAccumulator('openai')
+      acc.handle({ data: 'not json' })
+      expect(acc.outputText).toBe('')
+      expect(acc.reportedUsage).toEqual({})
+    })
+  })
+
+  describe('createAccountingStream', () => {
+    it('should pass bytes through unchanged and report the result on completion', async () => {
+      const body = sse([
+        { data: { choices: [{ delta: { content: 'streamed' } }] } },
+        { data: { choices: [], usage: { prompt_tokens: 3, completion_tokens: 1 } } },
+        { data: '[DONE]' }
+      ])
+      const encoder = new TextEncoder()
+      const source = new ReadableStream<Uint8Array>({
+        start(controller) {
+          // Split mid-event to exercise buffering
+          controller.enqueue(encoder.encode(body.slice(0, 20)))
+          controller.enqueue(encoder.encode(body.slice(20)))
+          controller.close()
+        }
+      })
+
+      let result: StreamResult | undefined
+      const piped = source.pipeThrough(createAccountingStream('openai', r => { result = r }))
+      const text = await new Response(piped).text()
+
+      expect(text).toBe(body)
+      expect(result).toEqual({
+        outputText: 'streamed',
+        usage: { inputTokens: 3, outputTokens: 1 },
+        raw: body,
+        cancelled: false
+      })
+    })
+
+    it('should report what was streamed when the client disconnects mid-stream', async () => {
+      const sent = sse([
+        { data: { choices: [{ delta: { content: 'Once upon' } }] } },
+        { data: { choices: [{ delta: { content: ' a time' } }] } }
+      ])
+      const source = new ReadableStream<Uint8Array>({
+        start(controller) {
+          // The provider is still generating when the client goes away
+          controller.enqueue(new TextEncoder().encode(sent + 'data: {"choices":[{"del'))
+        }
+      })
+
+      const results: StreamResult[] = []
+      const reader = source.pipeThrough(createAccountingStream('openai', r => { results.push(r) })).getReader()
+      await reader.read()
+      await reader.cancel('client disconnected')
+
+      expect(results).toEqual([{
+        outputText: 'Once upon a time',
+        usage: {},
+        raw: sent + 'data: {"choices":[{"del',
+        cancelled: true
+      }])
+    })
+  })
+
+  describe('createRecordingStream', () => {
+    it('should pass bytes through and hand over the whole body at the end', async () => {
+      const body = sse([{ data: { choices: [{ delta: { content: 'café' } }] } }, { data: '[DONE]' }])
+      const bytes = new TextEncoder().encode(body)
+      const source = new ReadableStream<Uint8Array>({
+        start(controller) {
+          // Split inside the multi-byte character
+          const split = bytes.indexOf(0xc3) + 1
+          controller.enqueue(bytes.slice(0, split))
+          controller.enqueue(bytes.slice(split))
+          controller.close()
+        }
+      })
+
+      let recorded: string | undefined
+      const text = await new Response(source.pipeThrough(createRecordingStream(raw => { recorded = raw }))).text()
+
+      expect(text).toBe(body)
+      expect(recorded).toBe(body)
+    })
+  })
+
+  describe('createPiiRestoringStream', () => {
+    it('should restore tokens split across deltas and keep event names', async () => {
+      const body = sse([
+        { event: 'content_block_delta', data: { delta: { text: 'Write to [PII_EM' } } },
+        { event: 'content_block_delta', data: { delta: { text: 'AIL_1] today' } } },
+        { data: '[DONE]' }
+      ])
+      const encoder = new TextEncoder()
+      const source = new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(encoder.encode(body.slice(0, 30)))
+          controller.enqueue(encoder.encode(body.slice(30)))
+          controller.close()
+        }
+      })
+
+      const tokens = new Map([['[PII_EMAIL_1]', 'jane@example.com']])
+      const text = await new Response(source.pipeThrough(createPiiRestoringStream(tokens))).text()
+
+      expect(text).toBe(sse([
+        { event: 'content_block_delta', data: { delta: { text: 'Write to ' } } },
+        { event: 'content_block_delta', data: { delta: { text: 'jane@example.com today' } } },
+        { data: '[DONE]' }
+      ]))
+    })
+  })
+})
@@ -0,0 +1,244 @@
+import { describe, it, expect } from 'vitest'
+import {
+  anthropicToOpenAIResponse,
+  anthropicTranslator,
+  geminiToOpenAIResponse,
+  geminiTranslator,
+  openAIToAnthropicRequest,
+  openAIToGeminiRequest
+} from '@/lib/translation'
+import { createOpenAITranslatingStream } from '@/lib/streaming'
+
+const tools = [{
+  type: 'function',
+  function: {
+    name: 'get_weather',
+    description: 'Look up the weather',
+    parameters: { type: 'object', properties: { city: { type: 'string' } } }
+  }
+}]
+
+const conversation = {
+  model: 'gpt-4',
+  messages: [
+    { role: 'system', content: 'Be brief.' },
+    { role: 'user', content: 'Weather in Paris?' },
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+    },
+    { role: 'tool', tool_call_id: 'call_1', content: 'Sunny' }
+  ],
+  tools,
+  tool_choice: 'auto',
+  stop: 'END',
+  max_tokens: 100,
+  temperature: 0.2
+}
+
+async function readStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  return new Response(stream).text()
+}
+
+function sseSource(events: unknown[]): ReadableStream<Uint8Array> {
+  const body = events.map(e => `data: ${JSON.stringify(e)}\n\n`).join('')
+  return new ReadableStream({
+    start(controller) {
+      controller.enqueue(new TextEncoder().encode(body))
+      controller.close()
+    }
+  })
+}
+
+function parseChunks(text: string) {
+  return text
+    .split('\n\n')
+    .filter(line => line.startsWith('data: ') && line !== 'data: [DONE]')
+    .map(line => JSON.parse(line.slice(6)))
+}
+
+describe('Translation', () => {
+  describe('OpenAI -> Anthropic', () => {
+    it('should move system prompts, tools, tool results and stop sequences', () => {
+      const request = openAIToAnthropicRequest(conversation, 'claude-3-haiku-20240307')
+
+      expect(request.model).toBe('claude-3-haiku-20240307')
+      expect(request.system).toBe('Be brief.')
+      expect(request.max_tokens).toBe(100)
+      expect(request.stop_sequences).toEqual(['END'])
+      expect(request.tools).toEqual([{
+        name: 'get_weather',
+        description: 'Look up the weather',
+        input_schema: { type: 'object', properties: { city: { type: 'string' } } }
+      }])
+      expect(request.tool_choice).toEqual({ type: 'auto' })
+      expect(request.messages).toEqual([
+        { role: 'user', content: [{ type: 'text', text: 'Weather in Paris?' }] },
+        { role: 'assistant', content: [{ type: 'tool_use', id: 'call_1', name: 'get_weather', input: { city: 'Paris' } }] },
+        { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'call_1', content: 'Sunny' }] }
+      ])
+    })
+
+    it('should default max_tokens and convert data URL images', () => {
+      const request = openAIToAnthropicRequest({
+        messages: [{
+          role: 'user',
+          content: [
+            { type: 'text', text: 'What is this?' },
+            { type: 'image_url', image_url: { url: 'data:image/png;base64,AAAA' } }
+          ]
+        }]
+      }, 'claude-3-haiku-20240307')
+
+      expect(request.max_tokens).toBe(4096)
+      expect((request.messages as Array<{ content: unknown[] }>)[0].content[1]).toEqual({
+        type: 'image',
+        source: { type: 'base64', media_type: 'image/png', data: 'AAAA' }
+      })
+    })
+
+    it('should map a forced tool choice', () => {
+      const request = openAIToAnthropicRequest({
+        messages: [{ role: 'user', content: 'hi' }],
+        tool_choice: { type: 'function', function: { name: 'get_weather' } }
+      }, 'claude-3-haiku-20240307')
+      expect(request.tool_choice).toEqual({ type: 'tool', name: 'get_weather' })
+    })
+
+    it('should translate responses back to chat.completion', () => {
+      const response = anthropicToOpenAIResponse({
+        id: 'msg_1',
+        content: [
+          { type: 'text', text: 'Checking.' },
+          { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Paris' } }
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 20, output_tokens: 8 }
+      }, 'claude-3-haiku-20240307')
+
+      expect(response.object).toBe('chat.completion')
+      expect(response.choices).toEqual([{
+        index: 0,
+        message: {
+          role: 'assistant',
+          content: 'Checking.',
+          tool_calls: [{ id: 'toolu_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }]
+        },
+        finish_reason: 'tool_calls'
+      }])
+      expect(response.usage).toEqual({ prompt_tokens: 20, completion_tokens: 8, total_tokens: 28 })
+    })
+
+    it('should carry prompt cache reads into prompt_tokens_details', () => {
+      const response = anthropicToOpenAIResponse({
+        content: [{ type: 'text', text: 'Hi' }],
+        usage: { input_tokens: 4, cache_read_input_tokens: 96, output_tokens: 2 }
+      }, 'claude-3-haiku-20240307')
+
+      expect(response.usage).toEqual({
+        prompt_tokens: 100,
+        completion_tokens: 2,
+        total_tokens: 102,
+        prompt_tokens_details: { cached_tokens: 96 }
+      })
+    })
+
+    it('should target the Messages API', () => {
+      const { endpoint } = anthropicTranslator.toNativeRequest(conversation, 'claude-3-haiku-20240307', false)
+      expect(endpoint).toBe('https://api.anthropic.com/v1/messages')
+    })
+  })
+
+  describe('OpenAI -> Gemini', () => {
+    it('should build contents, systemInstruction, tools and generationConfig', () => {
+      const request = openAIToGeminiRequest(conversation)
+
+      expect(request.systemInstruction).toEqual({ parts: [{ text: 'Be brief.' }] })
+      expect(request.generationConfig).toEqual({ maxOutputTokens: 100, temperature: 0.2, stopSequences: ['END'] })
+      expect(request.tools).toEqual([{
+        functionDeclarations: [{
+          name: 'get_weather',
+          description: 'Look up the weather',
+          parameters: { type: 'object', properties: { city: { type: 'string' } } }
+        }]
+      }])
+      expect(request.toolConfig).toEqual({ functionCallingConfig: { mode: 'AUTO' } })
+      expect(request.contents).toEqual([
+        { role: 'user', parts: [{ text: 'Weather in Paris?' }] },
+        { role: 'model', parts: [{ functionCall: { name: 'get_weather', args: { city: 'Paris' } } }] },
+        { role: 'user', parts: [{ functionResponse: { name: 'get_weather', response: { content: 'Sunny' } } }] }
+      ])
+    })
+
+    it('should put the model and method in the endpoint', () => {
+      expect(geminiTranslator.toNativeRequest(conversation, 'gemini-pro', false).endpoint)
+        .toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:generateContent')
+      expect(geminiTranslator.toNativeRequest(conversation, 'gemini-pro', true).endpoint)
+        .toBe('https://generativelanguage.googleapis.com/v1beta/models/gemini-pro:streamGenerateContent')
+    })
+
+    it('should translate responses back to chat.completion', () => {
+      const response = geminiToOpenAIResponse({
+        candidates: [{ content: { parts: [{ text: 'Sunny in Paris.' }] }, finishReason: 'MAX_TOKENS' }],
+        usageMetadata: { promptTokenCount: 12, candidatesTokenCount: 4 }
+      }, 'gemini-pro')
+
+      expect(response.choices).toEqual([{
+        index: 0,
+        message: { role: 'assistant', content: 'Sunny in Paris.' },
+        finish_reason: 'length'
+      }])
+      expect(response.usage).toEqual({ prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 })
+    })
+  })
+
+  describe('createOpenAITranslatingStream', () => {
+    it('should rewrite Anthropic events as OpenAI chunks with a usage chunk', async () => {
+      const source = sseSource([
+        { type: 'message_start', message: { id: 'msg_1', usage: { input_tokens: 10, output_tokens: 1 } } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } },
+        { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'lo' } },
+        { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 3 } },
+        { type: 'message_stop' }
+      ])
+
+      const text = await readStream(source.pipeThrough(createOpenAITranslatingStream(anthropicTranslator, 'claude-3-haiku-20240307')))
+      const chunks = parseChunks(text)
+
+      expect(text.endsWith('data: [DONE]\n\n')).toBe(true)
+      expect(chunks.map(c => c.choices[0]?.delta?.content).filter(Boolean).join('')).toBe('Hello')
+      expect(chunks.find(c => c.choices[0]?.finish_reason)?.choices[0].finish_reason).toBe('stop')
+      expect(chunks[chunks.length - 1].usage).toEqual({ prompt_tokens: 10, completion_tokens: 3, total_tokens: 13 })
+    })
+
+    it('should stream Anthropic tool calls as tool_calls deltas', async () => {
+      const source = sseSource([
+        { type: 'message_start', message: { usage: { input_tokens: 5 } } },
+        { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_1', name: 'get_weather' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"city":' } },
+        { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"Paris"}' } },
+        { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 7 } }
+      ])
+
+      const chunks = parseChunks(await readStream(source.pipeThrough(createOpenAITranslatingStream(anthropicTranslator, 'claude-3-haiku-20240307'))))
+      const toolDeltas = chunks.flatMap(c => c.choices[0]?.delta?.tool_calls || [])
+
+      expect(toolDeltas[0]).toMatchObject({ index: 0, id: 'toolu_1', function: { name: 'get_weather' } })
+      expect(toolDeltas.map(d => d.function.arguments).join('')).toBe('{"city":"Paris"}')
+      expect(chunks.find(c => c.choices[0]?.finish_reason)?.choices[0].finish_reason).toBe('tool_calls')
+    })
+
+    it('should rewrite Gemini events as OpenAI chunks', async () => {
+      const source = sseSource([
+        { candidates: [{ content: { parts: [{ text: 'Bon' }] } }], usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 1 } },
+        { candidates: [{ content: { parts: [{ text: 'jour' }] }, finishReason: 'STOP' }], usageMetadata: { promptTokenCount: 4, candidatesTokenCount: 2 } }
+      ])
+
+      const chunks = parseChunks(await readStream(source.pipeThrough(createOpenAITranslatingStream(geminiTranslator, 'gemini-pro'))))
+
+      expect(chunks.map(c => c.choices[0]?.delta?.content).filter(Boolean).join('')).toBe('Bonjour')
+      expect(chunks[chunks.length - 1].usage).toEqual({ prompt_tokens: 4, completion_tokens: 2, total_tokens: 6 })
+    })
+  })
+})
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest'
+import { estimateTokens, resolveUsage } from '@/lib/usage'
+
+describe('Usage', () => {
+  describe('resolveUsage', () => {
+    it('should use provider-reported counts as is', async () => {
+      const usage = await resolveUsage({ inputTokens: 120, outputTokens: 40 }, {
+        inputTokens: 80,
+        outputText: 'ignored',
+        model: 'gpt-4'
+      })
+      expect(usage).toEqual({ inputTokens: 120, outputTokens: 40, cachedInputTokens: 0, reasoningTokens: 0, source: 'provider' })
+    })
+
+    it('should estimate with tiktoken when the provider reports nothing', async () => {
+      const usage = await resolveUsage({}, { inputTokens: 80, outputText: 'Hello world', model: 'gpt-4' })
+      expect(usage).toMatchObject({ inputTokens: 80, outputTokens: 2, source: 'estimated' })
+    })
+
+    it('should mark partially reported usage as mixed', async () => {
+      const usage = await resolveUsage({ inputTokens: 100 }, { inputTokens: 80, outputText: 'Hello world', model: 'gpt-4' })
+      expect(usage).toMatchObject({ inputTokens: 100, outputTokens: 2, source: 'mixed' })
+    })
+
+    it('should pass through cached and reasoning token counts', async () => {
+      const usage = await resolveUsage(
+        { inputTokens: 1000, outputTokens: 300, cachedInputTokens: 800, reasoningTokens: 200 },
+        { inputTokens: 900, outputText: '', model: 'o1' }
+      )
+      expect(usage).toMatchObject({ cachedInputTokens: 800, reasoningTokens: 200 })
+    })
+
+    it('should not estimate output for requests without any', async () => {
+      expect(await resolveUsage({ inputTokens: 8 }, { inputTokens: 5, outputText: null, model: 'text-embedding-3-small' }))
+        .toMatchObject({ inputTokens: 8, outputTokens: 0, source: 'provider' })
+      expect(await resolveUsage({}, { inputTokens: 5, outputText: null, model: 'text-embedding-3-small' }))
+        .toMatchObject({ inputTokens: 5, outputTokens: 0, source: 'estimated' })
+    })
+  })
+
+  describe('estimateTokens', () => {
+    it('should fall back to a generic encoding for non-OpenAI models', async () => {
+      expect(await estimateTokens('Hello world', 'claude-3-haiku-20240307')).toBe(2)
+      expect(await estimateTokens('', 'gpt-4')).toBe(0)
+    })
+  })
+})